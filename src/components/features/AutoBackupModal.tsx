@@ -0,0 +1,227 @@
+/**
+ * AutoBackupModal
+ *
+ * Settings for automatic backups: how often they run, how many files are
+ * kept, whether they are encrypted, and when the last one was written. The
+ * background reschedules its alarm whenever these settings change.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import {
+  autoBackupSettingsStorage,
+  autoBackupHistoryStorage,
+  autoBackupPassphraseStorage,
+  type AutoBackupSettings,
+  type AutoBackupRecord,
+  type AutoBackupFrequency,
+} from '@/utils/storage';
+import {
+  AUTO_BACKUP_FOLDER,
+  AUTO_BACKUP_KEEP_OPTIONS,
+  requestAutoBackup,
+} from '@/utils/auto-backup';
+import { formatSaveTime } from '@/utils/date-utils';
+import type { PassphraseDialogOptions } from '@/hooks/usePassphraseDialog';
+
+interface AutoBackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Ask for the encryption passphrase (see usePassphraseDialog) */
+  requestPassphrase: (
+    options: PassphraseDialogOptions
+  ) => Promise<string | null>;
+}
+
+const FREQUENCY_OPTIONS: { value: AutoBackupFrequency; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const REASON_LABELS: Record<AutoBackupRecord['reason'], string> = {
+  scheduled: 'scheduled',
+  manual: 'manual',
+  'before-clear': 'before deleting all data',
+  'before-restore': 'before restoring a backup',
+  'before-merge': 'before merging',
+};
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground';
+
+export const AutoBackupModal: React.FC<AutoBackupModalProps> = ({
+  isOpen,
+  onClose,
+  requestPassphrase,
+}) => {
+  const [settings, setSettings] = useState<AutoBackupSettings>({
+    frequency: 'off',
+    keepCount: 5,
+  });
+  const [history, setHistory] = useState<AutoBackupRecord[]>([]);
+  const [hasPassphrase, setHasPassphrase] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load and watch settings and history while open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    autoBackupSettingsStorage.getValue().then(setSettings);
+    autoBackupHistoryStorage.getValue().then(setHistory);
+    autoBackupPassphraseStorage
+      .getValue()
+      .then((value) => setHasPassphrase(!!value));
+
+    const unwatchSettings = autoBackupSettingsStorage.watch(
+      (value) => value && setSettings(value)
+    );
+    const unwatchHistory = autoBackupHistoryStorage.watch((value) =>
+      setHistory(value ?? [])
+    );
+    const unwatchPassphrase = autoBackupPassphraseStorage.watch((value) =>
+      setHasPassphrase(!!value)
+    );
+    return () => {
+      unwatchSettings();
+      unwatchHistory();
+      unwatchPassphrase();
+    };
+  }, [isOpen]);
+
+  const updateSettings = async (updates: Partial<AutoBackupSettings>) => {
+    const updated = { ...settings, ...updates };
+    setSettings(updated);
+    await autoBackupSettingsStorage.setValue(updated);
+  };
+
+  /**
+   * Ask for the passphrase and keep it for this browser session
+   * @returns false if cancelled
+   */
+  const choosePassphrase = async (): Promise<boolean> => {
+    const passphrase = await requestPassphrase({
+      title: 'Encrypt Automatic Backups',
+      description:
+        'Choose a passphrase for automatic backups. It is kept in memory until the browser closes and asked for again after a restart. Backups cannot be restored without it, and it cannot be recovered.',
+      submitLabel: 'Use Passphrase',
+      requireConfirmation: true,
+    });
+    if (passphrase === null) return false;
+    await autoBackupPassphraseStorage.setValue(passphrase);
+    return true;
+  };
+
+  const handleEncryptChange = async (encrypt: boolean) => {
+    setError(null);
+    if (encrypt) {
+      if (!(await choosePassphrase())) return;
+    } else {
+      await autoBackupPassphraseStorage.removeValue();
+    }
+    await updateSettings({ encrypt });
+  };
+
+  const handleBackupNow = async () => {
+    setError(null);
+    setIsBackingUp(true);
+    try {
+      await requestAutoBackup('manual');
+    } catch (err) {
+      console.error('[AutoBackupModal] Backup failed:', err);
+      setError(`Backup failed: ${(err as Error).message}`);
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const lastBackup = history[0];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Automatic Backups">
+      <div className="flex flex-col gap-4 py-1">
+        <p className="text-sm text-muted-foreground">
+          Backups are saved to the &quot;{AUTO_BACKUP_FOLDER}&quot; folder in
+          your downloads. A backup is also made before deleting all data or
+          restoring or merging a backup; these are kept separately, up to the
+          same number of files.
+        </p>
+
+        <label className="flex items-center justify-between gap-4 text-sm text-foreground">
+          Back up automatically
+          <select
+            className={selectClassName}
+            value={settings.frequency}
+            onChange={(e) =>
+              updateSettings({
+                frequency: e.target.value as AutoBackupFrequency,
+              })
+            }
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-4 text-sm text-foreground">
+          Backup files to keep
+          <select
+            className={selectClassName}
+            value={settings.keepCount}
+            onChange={(e) =>
+              updateSettings({ keepCount: Number(e.target.value) })
+            }
+          >
+            {AUTO_BACKUP_KEEP_OPTIONS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-4 text-sm text-foreground">
+          Encrypt backups with a passphrase
+          <input
+            type="checkbox"
+            checked={!!settings.encrypt}
+            onChange={(e) => handleEncryptChange(e.target.checked)}
+          />
+        </label>
+
+        {settings.encrypt && !hasPassphrase && (
+          <div className="flex items-center justify-between gap-4 text-sm text-destructive">
+            Backups are paused until you enter the passphrase again.
+            <Button variant="secondary" size="sm" onClick={choosePassphrase}>
+              Enter Passphrase
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4 border-t border-border pt-4">
+          <div className="text-sm text-muted-foreground">
+            {lastBackup
+              ? `Last backup ${formatSaveTime(new Date(lastBackup.createdAt))} (${REASON_LABELS[lastBackup.reason]})`
+              : 'No automatic backups yet'}
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleBackupNow}
+            disabled={isBackingUp}
+          >
+            {isBackingUp ? 'Backing up...' : 'Back Up Now'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
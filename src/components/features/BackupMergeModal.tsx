@@ -0,0 +1,209 @@
+/**
+ * BackupMergeModal
+ *
+ * Lists the jobs in a backup (or imported files) that conflict with local
+ * jobs and lets the user pick which version wins for each (newer, local or
+ * incoming). A summary of what the merge will do is shown before anything
+ * is written.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import {
+  summarizeBackupMerge,
+  type BackupJobConflict,
+  type MergeResolution,
+} from '@/utils/backup-merge';
+import type { PendingBackupMerge } from '@/entrypoints/sidepanel/hooks/useBackupRestore';
+import {
+  parseJobTemplate,
+  getJobTitle,
+  getCompanyName,
+} from '@/utils/job-parser';
+import { formatSaveTime } from '@/utils/date-utils';
+
+interface BackupMergeModalProps {
+  /** The merge awaiting confirmation (modal is open while set) */
+  pendingMerge: PendingBackupMerge | null;
+  onCommit: (resolutions: Record<string, MergeResolution>) => void;
+  onCancel: () => void;
+}
+
+/** Name of the incoming copy in labels */
+const INCOMING_NAMES: Record<PendingBackupMerge['kind'], string> = {
+  backup: 'backup',
+  import: 'imported',
+};
+
+const getResolutionLabels = (
+  incoming: string
+): Record<MergeResolution, string> => ({
+  newer: 'Keep newer',
+  local: 'Keep local',
+  backup: `Use ${incoming}`,
+});
+
+const formatUpdated = (dateStr?: string): string =>
+  dateStr ? formatSaveTime(new Date(dateStr)) : 'unknown';
+
+const describeJob = (conflict: BackupJobConflict) => {
+  const parsed = parseJobTemplate(conflict.localJob.content || '');
+  return {
+    title: getJobTitle(parsed) || 'Untitled',
+    company: getCompanyName(parsed) || 'Unknown company',
+  };
+};
+
+export const BackupMergeModal: React.FC<BackupMergeModalProps> = ({
+  pendingMerge,
+  onCommit,
+  onCancel,
+}) => {
+  const [resolutions, setResolutions] = useState<
+    Record<string, MergeResolution>
+  >({});
+
+  // Start each merge with every conflict on 'newer'
+  useEffect(() => {
+    setResolutions({});
+  }, [pendingMerge]);
+
+  const conflicts = useMemo(
+    () => Object.entries(pendingMerge?.plan.conflicts ?? {}),
+    [pendingMerge]
+  );
+
+  const summary = useMemo(
+    () =>
+      pendingMerge
+        ? summarizeBackupMerge(pendingMerge.plan, resolutions)
+        : null,
+    [pendingMerge, resolutions]
+  );
+
+  const incoming = INCOMING_NAMES[pendingMerge?.kind ?? 'backup'];
+  const resolutionLabels = getResolutionLabels(incoming);
+
+  const setAll = (resolution: MergeResolution) => {
+    setResolutions(
+      Object.fromEntries(conflicts.map(([id]) => [id, resolution]))
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={!!pendingMerge}
+      onClose={onCancel}
+      title={pendingMerge?.kind === 'import' ? 'Import Jobs' : 'Merge Backup'}
+      className="max-w-2xl"
+    >
+      <div className="flex flex-col gap-4 py-1">
+        <p className="text-sm text-muted-foreground">
+          Merging {pendingMerge?.sourceLabel}. Nothing is deleted: documents and
+          checklist items from both versions of a job are kept, whichever
+          version wins.
+        </p>
+
+        {conflicts.length > 0 && (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-sm font-medium text-foreground">
+                {conflicts.length === 1
+                  ? '1 job differs'
+                  : `${conflicts.length} jobs differ`}
+              </h3>
+              <div className="flex gap-1">
+                {(Object.keys(resolutionLabels) as MergeResolution[]).map(
+                  (resolution) => (
+                    <Button
+                      key={resolution}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAll(resolution)}
+                    >
+                      All: {resolutionLabels[resolution]}
+                    </Button>
+                  )
+                )}
+              </div>
+            </div>
+
+            <ul className="flex flex-col divide-y divide-border border border-border rounded-md max-h-80 overflow-y-auto">
+              {conflicts.map(([localId, conflict]) => {
+                const { title, company } = describeJob(conflict);
+                return (
+                  <li
+                    key={localId}
+                    className="flex items-center gap-3 px-3 py-2"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-foreground truncate">
+                        {title}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {company} · Matched by{' '}
+                        {conflict.matchedBy === 'id' ? 'ID' : 'URL'} · Local
+                        updated {formatUpdated(conflict.localJob.updatedAt)} ·{' '}
+                        {incoming === 'backup' ? 'Backup' : 'Imported'} updated{' '}
+                        {formatUpdated(conflict.backupJob.updatedAt)}
+                      </div>
+                    </div>
+                    <select
+                      className="h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+                      value={resolutions[localId] ?? 'newer'}
+                      onChange={(e) =>
+                        setResolutions((prev) => ({
+                          ...prev,
+                          [localId]: e.target.value as MergeResolution,
+                        }))
+                      }
+                      aria-label={`Resolution for ${title}`}
+                    >
+                      {(
+                        Object.entries(resolutionLabels) as [
+                          MergeResolution,
+                          string,
+                        ][]
+                      ).map(([resolution, label]) => (
+                        <option key={resolution} value={resolution}>
+                          {resolution === 'newer'
+                            ? `${label} (${conflict.newer === 'backup' ? incoming : 'local'})`
+                            : label}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+
+        {summary && (
+          <div className="rounded-md bg-muted px-3 py-2 text-sm text-foreground">
+            <div className="font-medium mb-1">Summary</div>
+            <ul className="text-muted-foreground">
+              <li>{summary.added} new job(s) will be added</li>
+              <li>
+                {summary.updatedFromBackup} job(s) will be updated from the{' '}
+                {incoming === 'backup' ? 'backup' : 'imported files'}
+              </li>
+              <li>{summary.keptLocal} job(s) will keep the local version</li>
+              <li>{summary.unchanged} job(s) are already identical</li>
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="subtle" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={() => onCommit(resolutions)}>
+            {incoming === 'backup' ? 'Merge' : 'Import'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,86 @@
+/**
+ * BackupReportModal
+ *
+ * Shown when a backup file has invalid or questionable records. Lists what
+ * will be skipped (errors) or imported with changes (warnings), and lets the
+ * user continue with only the valid subset.
+ */
+
+import React from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import type { PendingBackupReport } from '@/entrypoints/sidepanel/hooks/useBackupRestore';
+
+interface BackupReportModalProps {
+  /** The backup awaiting a decision (modal is open while set) */
+  pendingReport: PendingBackupReport | null;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+export const BackupReportModal: React.FC<BackupReportModalProps> = ({
+  pendingReport,
+  onContinue,
+  onCancel,
+}) => {
+  const validation = pendingReport?.validation;
+  const issues = validation?.issues ?? [];
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+
+  return (
+    <Modal
+      isOpen={!!pendingReport}
+      onClose={onCancel}
+      title="Backup Check"
+      className="max-w-2xl"
+    >
+      <div className="flex flex-col gap-4 py-1">
+        <p className="text-sm text-muted-foreground">
+          The backup from {pendingReport?.backupDate} has{' '}
+          {errorCount === 1
+            ? '1 invalid record'
+            : `${errorCount} invalid records`}{' '}
+          that will be skipped. {validation?.validJobCount ?? 0} of{' '}
+          {(validation?.validJobCount ?? 0) +
+            (validation?.skippedJobCount ?? 0)}{' '}
+          job(s) are valid.
+        </p>
+
+        <ul className="flex flex-col divide-y divide-border border border-border rounded-md max-h-80 overflow-y-auto">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2 px-3 py-2">
+              {issue.severity === 'error' ? (
+                <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              )}
+              <div className="min-w-0 text-sm">
+                <span className="font-medium text-foreground">
+                  {issue.section}
+                  {issue.recordId && ` › ${issue.recordId}`}
+                </span>
+                <span className="text-muted-foreground">
+                  {' '}
+                  — {issue.message}
+                  {issue.severity === 'error' && ' (skipped)'}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="subtle" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={onContinue}>
+            {pendingReport?.mode === 'merge'
+              ? 'Merge Valid Jobs'
+              : 'Restore Valid Data'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,201 @@
+/**
+ * CsvMappingStep
+ *
+ * Column mapping for a CSV import (shown inside ImportExportModal). Each
+ * column is assigned an import field, guessed from its header; mappings can
+ * be saved as named presets for files exported by other trackers. A live
+ * preview shows how many jobs the mapping produces.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/input';
+import {
+  csvMappingPresetsStorage,
+  type CsvMappingPreset,
+} from '@/utils/storage';
+import {
+  CSV_IMPORT_FIELDS,
+  applyCsvPreset,
+  buildJobsFromCsv,
+  guessCsvMapping,
+  type CsvColumnMapping,
+  type CsvImportField,
+  type CsvImportResult,
+} from '@/utils/job-csv';
+import { defaults } from '@/config';
+
+interface CsvMappingStepProps {
+  fileName: string;
+  /** Parsed rows, header first */
+  table: string[][];
+  onBack: () => void;
+  onImport: (result: CsvImportResult, mapping: CsvColumnMapping) => void;
+}
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground';
+
+export const CsvMappingStep: React.FC<CsvMappingStepProps> = ({
+  fileName,
+  table,
+  onBack,
+  onImport,
+}) => {
+  const headers = useMemo(() => table[0] ?? [], [table]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() =>
+    guessCsvMapping(headers)
+  );
+  const [presets, setPresets] = useState<Record<string, CsvMappingPreset>>({});
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    csvMappingPresetsStorage.getValue().then(setPresets);
+    return csvMappingPresetsStorage.watch((value) => setPresets(value ?? {}));
+  }, []);
+
+  const preview = useMemo(
+    () => buildJobsFromCsv(table, mapping),
+    [table, mapping]
+  );
+  const jobCount = Object.keys(preview.jobs).length;
+  const hasNameColumn = Object.values(mapping).some(
+    (field) => field === 'TITLE' || field === 'COMPANY'
+  );
+
+  const handleLoadPreset = (name: string) => {
+    const preset = presets[name];
+    if (!preset) return;
+    setMapping(applyCsvPreset(headers, preset.mapping));
+    setPresetName(name);
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    await csvMappingPresetsStorage.setValue({
+      ...presets,
+      [name]: { name, mapping, updatedAt: new Date().toISOString() },
+    });
+  };
+
+  const handleDeletePreset = async () => {
+    const name = presetName.trim();
+    if (!presets[name]) return;
+    const { [name]: _removed, ...rest } = presets;
+    await csvMappingPresetsStorage.setValue(rest);
+    setPresetName('');
+  };
+
+  return (
+    <div className="flex flex-col gap-4 py-1">
+      <p className="text-sm text-muted-foreground">
+        Choose where each column of &quot;{fileName}&quot; goes. Posting fields
+        become the job template. Existing jobs (matched by ID or URL) only take
+        the status, URL and dates; their posting details are kept.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={selectClassName}
+          value={presets[presetName] ? presetName : ''}
+          onChange={(e) => handleLoadPreset(e.target.value)}
+          aria-label="Load mapping preset"
+        >
+          <option value="">Load preset...</option>
+          {Object.keys(presets)
+            .sort()
+            .map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+        </select>
+        <Input
+          className="h-9 w-40"
+          placeholder="Preset name"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          aria-label="Preset name"
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+        >
+          Save Preset
+        </Button>
+        {presets[presetName.trim()] && (
+          <Button variant="ghost" size="sm" onClick={handleDeletePreset}>
+            Delete
+          </Button>
+        )}
+      </div>
+
+      <ul className="flex flex-col divide-y divide-border border border-border rounded-md max-h-80 overflow-y-auto">
+        {headers.map((header, column) => (
+          <li
+            key={`${header}-${column}`}
+            className="flex items-center gap-3 px-3 py-2"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-foreground truncate">
+                {header || `Column ${column + 1}`}
+              </div>
+              <div className="text-xs text-muted-foreground truncate">
+                {table[1]?.[column] || '(empty)'}
+              </div>
+            </div>
+            <select
+              className={selectClassName}
+              value={mapping[header] ?? ''}
+              onChange={(e) =>
+                setMapping((prev) => ({
+                  ...prev,
+                  [header]: e.target.value as CsvImportField | '',
+                }))
+              }
+              aria-label={`Field for ${header}`}
+            >
+              <option value="">Ignore</option>
+              {CSV_IMPORT_FIELDS.map((field) => (
+                <option key={field.value} value={field.value}>
+                  {field.label}
+                </option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+
+      <div className="rounded-md bg-muted px-3 py-2 text-sm text-muted-foreground">
+        {!hasNameColumn ? (
+          'Map a Title or Company column to import jobs.'
+        ) : (
+          <>
+            {jobCount} job(s) will be imported
+            {preview.skipped.length > 0 &&
+              `, ${preview.skipped.length} row(s) without a title or company skipped`}
+            .
+            {preview.unknownStatuses.length > 0 &&
+              ` Unknown statuses (${preview.unknownStatuses.join(', ')}) will be set to ${defaults.status}.`}
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="subtle" onClick={onBack}>
+          Back
+        </Button>
+        <Button
+          variant="primary"
+          onClick={() => onImport(preview, mapping)}
+          disabled={jobCount === 0}
+        >
+          Import
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+/**
+ * DocumentHistoryModal
+ *
+ * Lists the stored revisions of a document (newest first), shows a line diff
+ * between the selected revision and the current text, and restores a
+ * revision with one click. The current text is snapshotted before restoring
+ * so a restore can itself be undone from the history.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import {
+  getDocumentRevisions,
+  saveDocumentRevision,
+  type DocumentRevision,
+  type RevisionReason,
+} from '@/utils/document-revisions';
+import { diffLines } from '@/utils/text-utils';
+
+interface DocumentHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobId: string;
+  documentKey: string;
+  documentTitle: string;
+  /** Text currently in the editor */
+  currentText: string;
+  /** Replace the editor text with a revision */
+  onRestore: (text: string) => void;
+}
+
+const reasonLabels: Record<RevisionReason, string> = {
+  autosave: 'Autosave',
+  'pre-synthesis': 'Before synthesis',
+  'pre-restore': 'Before restore',
+};
+
+const formatRevisionTime = (isoString: string): string =>
+  new Date(isoString).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const DocumentHistoryModal: React.FC<DocumentHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  jobId,
+  documentKey,
+  documentTitle,
+  currentText,
+  onRestore,
+}) => {
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load revisions each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getDocumentRevisions(jobId, documentKey)
+      .then((loaded) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch((err) => {
+        console.error('[DocumentHistoryModal] Failed to load revisions:', err);
+        if (!cancelled) setError('Failed to load document history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, jobId, documentKey]);
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? null;
+
+  // Diff from the selected revision to the current text
+  const diff = useMemo(
+    () => (selected ? diffLines(selected.text, currentText) : []),
+    [selected, currentText]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      await saveDocumentRevision(
+        jobId,
+        documentKey,
+        { title: documentTitle, text: currentText },
+        'pre-restore'
+      );
+    } catch (err) {
+      console.error('[DocumentHistoryModal] Failed to snapshot:', err);
+    }
+    onRestore(selected.text);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`History: ${documentTitle}`}
+      className="max-w-4xl"
+    >
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground py-4">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive py-4">{error}</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">
+          No revisions yet. Revisions are saved as you edit and before each
+          synthesis.
+        </p>
+      ) : (
+        <div className="flex gap-4 min-h-0 h-[60vh]">
+          {/* Revision list */}
+          <ul className="w-52 shrink-0 overflow-y-auto border-r border-border pr-2">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  className={cn(
+                    'w-full text-left px-2 py-1.5 rounded text-sm hover:bg-muted',
+                    revision.id === selectedId && 'bg-muted font-medium'
+                  )}
+                  onClick={() => setSelectedId(revision.id)}
+                >
+                  <div className="text-foreground">
+                    {formatRevisionTime(revision.createdAt)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {reasonLabels[revision.reason]}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff against current text */}
+          <div className="flex-1 flex flex-col min-w-0 gap-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">
+                <span className="text-destructive">−</span> only in revision
+                {'  '}
+                <span className="text-success">+</span> only in current text
+              </span>
+              <Button
+                size="sm"
+                onClick={handleRestore}
+                disabled={!selected || selected.text === currentText}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Restore
+              </Button>
+            </div>
+            <pre className="flex-1 overflow-auto rounded-md border border-border bg-muted p-2 text-xs font-mono whitespace-pre-wrap">
+              {selected && selected.text === currentText ? (
+                <span className="text-muted-foreground">
+                  Identical to the current text.
+                </span>
+              ) : (
+                diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      line.type === 'added' && 'bg-success/15 text-success',
+                      line.type === 'removed' &&
+                        'bg-destructive/15 text-destructive'
+                    )}
+                  >
+                    {line.type === 'added'
+                      ? '+ '
+                      : line.type === 'removed'
+                        ? '− '
+                        : '  '}
+                    {line.text}
+                  </div>
+                ))
+              )}
+            </pre>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
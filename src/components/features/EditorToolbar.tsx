@@ -1,5 +1,5 @@
 import React from 'react';
-import { Info, Save } from 'lucide-react';
+import { History, Info, Save } from 'lucide-react';
 import { TabBar } from '../ui/TabBar';
 import { Dropdown } from '../ui/Dropdown';
 import { Button } from '../ui/Button';
@@ -19,6 +19,7 @@ interface EditorToolbarProps {
   onExport: (type: 'md' | 'pdf') => void;
   onSaveAsTemplate?: () => void;
   canSaveTemplate?: boolean;
+  onShowHistory?: () => void;
 }
 
 export const EditorToolbar: React.FC<EditorToolbarProps> = ({
@@ -31,6 +32,7 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
   onExport,
   onSaveAsTemplate,
   canSaveTemplate = true,
+  onShowHistory,
 }) => {
   return (
     <div className="flex justify-between items-end px-4 bg-card border-b border-border">
@@ -45,6 +47,21 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
         onDeleteTab={onDeleteDocument}
       />
       <div className="flex gap-2 items-center">
+        {onShowHistory && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onShowHistory}
+                aria-label="Document history"
+              >
+                <History className="w-4 h-4 text-muted-foreground" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Document history</TooltipContent>
+          </Tooltip>
+        )}
         {onSaveAsTemplate && (
           <Tooltip>
             <TooltipTrigger asChild>
@@ -0,0 +1,301 @@
+/**
+ * ImportExportModal
+ *
+ * Bulk export and import of jobs in formats other than the JSON backup.
+ * - Markdown: every job as a folder of .md files (see utils/markdown-archive),
+ *   exported as a zip and imported from a zip or a folder
+ * - CSV: one row per job for spreadsheets; imports go through a column
+ *   mapping step (see utils/job-csv)
+ * Imports go through the backup merge flow, so re-importing edited files
+ * updates the matching jobs instead of duplicating them.
+ */
+
+import React, { useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import type { Job } from '@/entrypoints/job-details/hooks';
+import type { ImportedFields } from '@/utils/backup-merge';
+import { jobsStorage } from '@/utils/storage';
+import {
+  createMarkdownArchive,
+  parseMarkdownFiles,
+  MARKDOWN_JOB_FIELDS,
+  type MarkdownFile,
+} from '@/utils/markdown-archive';
+import { readZip, zipFileText } from '@/utils/zip-utils';
+import { jobsToCsvRows, parseCsv, type CsvImportResult } from '@/utils/job-csv';
+import { exportCsv } from '@/utils/export-utils';
+import { CsvMappingStep } from './CsvMappingStep';
+
+interface ImportExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Hand rebuilt jobs to the merge flow */
+  onImportJobs: (
+    jobs: Record<string, Job>,
+    fields: ImportedFields,
+    sourceLabel: string
+  ) => void;
+}
+
+/**
+ * Let the user pick files (or a folder) and hand them over
+ */
+function pickFiles(
+  options: { accept?: string; directory?: boolean },
+  onPick: (files: File[]) => Promise<void>
+): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  if (options.accept) input.accept = options.accept;
+  if (options.directory) input.webkitdirectory = true;
+
+  input.onchange = async (e) => {
+    const files = Array.from((e.target as HTMLInputElement).files ?? []);
+    if (files.length > 0) await onPick(files);
+  };
+
+  input.click();
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export const ImportExportModal: React.FC<ImportExportModalProps> = ({
+  isOpen,
+  onClose,
+  onImportJobs,
+}) => {
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [csvImport, setCsvImport] = useState<{
+    fileName: string;
+    table: string[][];
+  } | null>(null);
+
+  const handleClose = () => {
+    setCsvImport(null);
+    setError(null);
+    onClose();
+  };
+
+  const run = async (action: string, task: () => Promise<void>) => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      await task();
+    } catch (err) {
+      console.error(`[ImportExportModal] ${action} failed:`, err);
+      setError(`${action} failed: ${(err as Error).message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExportMarkdown = () =>
+    run('Export', async () => {
+      const jobs = Object.values(await jobsStorage.getValue());
+      if (jobs.length === 0) {
+        setError('There are no jobs to export.');
+        return;
+      }
+
+      const date = new Date().toISOString().split('T')[0];
+      downloadBlob(
+        await createMarkdownArchive(jobs),
+        `sir-hires-jobs-${date}.zip`
+      );
+      console.info(`[ImportExportModal] Exported ${jobs.length} job(s)`);
+    });
+
+  const handleExportCsv = () =>
+    run('Export', async () => {
+      const jobs = Object.values(await jobsStorage.getValue());
+      if (jobs.length === 0) {
+        setError('There are no jobs to export.');
+        return;
+      }
+
+      const date = new Date().toISOString().split('T')[0];
+      exportCsv(`sir-hires-jobs-${date}`, jobsToCsvRows(jobs), (message) =>
+        setError(message)
+      );
+    });
+
+  const handleImportCsv = () =>
+    pickFiles({ accept: 'text/csv,.csv,.tsv,.txt' }, ([file]) =>
+      run('Import', async () => {
+        const table = parseCsv(await file.text());
+        if (table.length < 2) {
+          setError(`"${file.name}" has no rows below the header.`);
+          return;
+        }
+        setCsvImport({ fileName: file.name, table });
+      })
+    );
+
+  const handleCsvMapped = (result: CsvImportResult) => {
+    const fileName = csvImport?.fileName ?? 'CSV file';
+    handleClose();
+    onImportJobs(
+      result.jobs,
+      result.fields,
+      result.skipped.length > 0
+        ? `"${fileName}" (${result.skipped.length} row(s) skipped)`
+        : `"${fileName}"`
+    );
+  };
+
+  const importMarkdown = async (files: MarkdownFile[], name: string) => {
+    const { jobs, skipped } = parseMarkdownFiles(files);
+    const count = Object.keys(jobs).length;
+
+    if (skipped.length > 0) {
+      console.warn('[ImportExportModal] Skipped files:', skipped);
+    }
+    if (count === 0) {
+      setError(
+        skipped.length > 0
+          ? `No jobs found in "${name}". ${skipped[0].path}: ${skipped[0].reason}`
+          : `No Markdown files found in "${name}".`
+      );
+      return;
+    }
+
+    handleClose();
+    onImportJobs(
+      jobs,
+      MARKDOWN_JOB_FIELDS,
+      skipped.length > 0
+        ? `"${name}" (${skipped.length} file(s) skipped, see console)`
+        : `"${name}"`
+    );
+  };
+
+  const handleImportZip = () =>
+    pickFiles({ accept: 'application/zip,.zip' }, ([file]) =>
+      run('Import', async () => {
+        const entries = await readZip(file);
+        await importMarkdown(
+          entries.map((entry) => ({
+            path: entry.path,
+            text: zipFileText(entry),
+          })),
+          file.name
+        );
+      })
+    );
+
+  const handleImportFolder = () =>
+    pickFiles({ directory: true }, (files) =>
+      run('Import', async () => {
+        const markdownFiles = await Promise.all(
+          files
+            .filter((file) => file.name.toLowerCase().endsWith('.md'))
+            .map(async (file) => ({
+              path: file.webkitRelativePath || file.name,
+              text: await file.text(),
+            }))
+        );
+        const folder =
+          files[0].webkitRelativePath.split('/')[0] || 'selected folder';
+        await importMarkdown(markdownFiles, folder);
+      })
+    );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={csvImport ? 'Import CSV' : 'Import & Export'}
+      className={csvImport ? 'max-w-2xl' : undefined}
+    >
+      {csvImport ? (
+        <CsvMappingStep
+          fileName={csvImport.fileName}
+          table={csvImport.table}
+          onBack={() => setCsvImport(null)}
+          onImport={handleCsvMapped}
+        />
+      ) : (
+        <div className="flex flex-col gap-4 py-1">
+          <section className="flex flex-col gap-2">
+            <h3 className="text-sm font-medium text-foreground">
+              Markdown folder
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              Each job becomes a folder with job.md (its template, plus status,
+              URL and dates as frontmatter) and one .md file per document. Keep
+              it in a notes vault or git repository and import it back later;
+              jobs that already exist are matched and updated.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleExportMarkdown}
+                disabled={isWorking}
+              >
+                Export .zip
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleImportZip}
+                disabled={isWorking}
+              >
+                Import .zip
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleImportFolder}
+                disabled={isWorking}
+              >
+                Import Folder
+              </Button>
+            </div>
+          </section>
+
+          <section className="flex flex-col gap-2 border-t border-border pt-4">
+            <h3 className="text-sm font-medium text-foreground">CSV</h3>
+            <p className="text-sm text-muted-foreground">
+              One row per job with title, company, location, salary, status,
+              dates and URL, for spreadsheets. Importing lets you map the
+              columns of a file from another tracker and save the mapping as a
+              preset.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleExportCsv}
+                disabled={isWorking}
+              >
+                Export .csv
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleImportCsv}
+                disabled={isWorking}
+              >
+                Import .csv
+              </Button>
+            </div>
+          </section>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+      )}
+    </Modal>
+  );
+};
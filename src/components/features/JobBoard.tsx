@@ -0,0 +1,219 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StatusFilterDots } from './StatusFilterDots';
+import { SortIconButtons } from './SortIconButtons';
+import {
+  defaults,
+  getNavigationButtons,
+  getStatusColor,
+  getStatusConfig,
+  getStatusOrder,
+} from '@/config';
+import type { JobTemplateData } from '@/utils/job-parser';
+import type { Job } from '@/entrypoints/job-details/hooks';
+import { getPreviousStatus } from '@/utils/status-history';
+import { JobCard } from './JobCard';
+import { cn } from '@/lib/utils';
+import { useJobFilters } from '@/hooks/useJobFilters';
+import { Input } from '@/components/ui/input';
+
+interface JobBoardProps {
+  /** All jobs to display */
+  jobs: Job[];
+  /** Currently selected job ID */
+  selectedJobId: string | null;
+  /** Callback when a card is clicked */
+  onSelectJob: (jobId: string) => void;
+  /** Callback when a job is deleted */
+  onDeleteJob: (jobId: string) => void;
+  /** Callback when a card is dropped on another column */
+  onMoveJob: (jobId: string, targetStatus: string) => void;
+  /** Function to get parsed job data (from ParsedJobProvider) */
+  getParsedJob: (jobId: string) => JobTemplateData | null;
+}
+
+/**
+ * Get the statuses a job can move to (same targets as NavigationButtons)
+ */
+const getAllowedTargets = (job: Job): string[] => {
+  const { left, right } = getNavigationButtons(
+    job.applicationStatus || defaults.status,
+    getPreviousStatus(job)
+  );
+  return [...(left ? [left.target] : []), ...right.map((b) => b.target)];
+};
+
+/**
+ * JobBoard - Kanban board of all jobs, one column per pipeline status
+ *
+ * Features:
+ * - Search, status filter and sort (shared useJobFilters hook)
+ * - Column counts
+ * - Drag a card to another column to change its status; only columns the
+ *   footer navigation buttons would allow accept the drop
+ */
+export function JobBoard({
+  jobs,
+  selectedJobId,
+  onSelectJob,
+  onDeleteJob,
+  onMoveJob,
+  getParsedJob,
+}: JobBoardProps) {
+  const {
+    searchTerm,
+    setSearchTerm,
+    statusFilters,
+    setStatusFilters,
+    sortField,
+    sortDirection,
+    handleSortChange,
+    filteredJobs,
+    totalCount,
+    filteredCount,
+  } = useJobFilters({ jobs, getParsedJob });
+
+  const [draggedJob, setDraggedJob] = useState<Job | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Columns follow the pipeline order; a status filter narrows the columns
+  const columns = getStatusOrder().filter(
+    (status) => statusFilters.length === 0 || statusFilters.includes(status)
+  );
+
+  // Group filtered jobs by column (unknown statuses land in the first column)
+  const jobsByStatus = useMemo(() => {
+    const grouped: Record<string, Job[]> = {};
+    for (const job of filteredJobs) {
+      const status = getStatusConfig(
+        job.applicationStatus || defaults.status
+      ).name;
+      (grouped[status] ||= []).push(job);
+    }
+    return grouped;
+  }, [filteredJobs]);
+
+  const allowedTargets = useMemo(
+    () => (draggedJob ? getAllowedTargets(draggedJob) : []),
+    [draggedJob]
+  );
+
+  const handleDragEnd = useCallback(() => {
+    setDraggedJob(null);
+    setDropTarget(null);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent, status: string) => {
+      e.preventDefault();
+      if (draggedJob && allowedTargets.includes(status)) {
+        onMoveJob(draggedJob.id, status);
+      }
+      handleDragEnd();
+    },
+    [draggedJob, allowedTargets, onMoveJob, handleDragEnd]
+  );
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 bg-background">
+      {/* Header with filters */}
+      <div className="shrink-0 flex flex-wrap items-center gap-4 px-6 py-3 border-b border-border">
+        <Input
+          type="text"
+          className="w-64"
+          placeholder="Search jobs..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <StatusFilterDots
+          selectedStatuses={statusFilters}
+          onChange={setStatusFilters}
+        />
+        <SortIconButtons
+          sortField={sortField}
+          sortDirection={sortDirection}
+          onChange={handleSortChange}
+        />
+        <div className="text-sm text-muted-foreground italic">
+          {filteredCount} of {totalCount} jobs
+        </div>
+      </div>
+
+      {/* Columns */}
+      <div className="flex-1 flex gap-3 overflow-x-auto p-4">
+        {columns.map((status) => {
+          const columnJobs = jobsByStatus[status] || [];
+          const canDrop =
+            draggedJob !== null && allowedTargets.includes(status);
+
+          return (
+            <div
+              key={status}
+              className={cn(
+                'flex flex-col w-64 shrink-0 rounded-md border border-border bg-muted',
+                'transition-opacity duration-150',
+                draggedJob && !canDrop && 'opacity-50',
+                canDrop && dropTarget === status && 'ring-2 ring-ring'
+              )}
+              onDragOver={(e) => {
+                if (!canDrop) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                setDropTarget(status);
+              }}
+              onDragLeave={() =>
+                setDropTarget((current) =>
+                  current === status ? null : current
+                )
+              }
+              onDrop={(e) => handleDrop(e, status)}
+            >
+              <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+                <span
+                  className="w-2.5 h-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: getStatusColor(status) }}
+                />
+                <span className="text-sm font-semibold text-foreground truncate">
+                  {status}
+                </span>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {columnJobs.length}
+                </span>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-2">
+                {columnJobs.map((job) => (
+                  <div
+                    key={job.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', job.id);
+                      setDraggedJob(job);
+                    }}
+                    onDragEnd={handleDragEnd}
+                    className={cn(draggedJob?.id === job.id && 'opacity-60')}
+                  >
+                    <JobCard
+                      jobId={job.id}
+                      parsed={getParsedJob(job.id)}
+                      status={job.applicationStatus || defaults.status}
+                      isSelected={job.id === selectedJobId}
+                      onClick={() => onSelectJob(job.id)}
+                      onDelete={() => onDeleteJob(job.id)}
+                    />
+                  </div>
+                ))}
+
+                {columnJobs.length === 0 && (
+                  <div className="text-center py-6 text-muted-foreground text-xs italic">
+                    {canDrop ? 'Drop here' : 'No jobs'}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
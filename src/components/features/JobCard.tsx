@@ -40,6 +40,7 @@ interface JobCardProps {
  *
  * Used by:
  * - JobSelector (sidepanel and job-details page)
+ * - JobBoard (job-details board view)
  *
  * Features:
  * - Status-colored background tint
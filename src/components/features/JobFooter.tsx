@@ -6,6 +6,8 @@ import { cn } from '@/lib/utils';
 
 interface JobFooterProps {
   status: string;
+  /** Status before the current one (from history), used by "go back" */
+  previousStatus?: string | null;
   checklist?: Record<string, ChecklistItem[]>;
   jobId: string;
   isChecklistExpanded: boolean;
@@ -27,6 +29,7 @@ interface JobFooterProps {
  */
 export const JobFooter: React.FC<JobFooterProps> = ({
   status,
+  previousStatus,
   checklist,
   jobId,
   isChecklistExpanded,
@@ -35,7 +38,7 @@ export const JobFooter: React.FC<JobFooterProps> = ({
   onToggleChecklistItem,
   className = '',
 }) => {
-  const navButtons = getNavigationButtons(status);
+  const navButtons = getNavigationButtons(status, previousStatus);
 
   // Get checklist items for current status
   const items = checklist?.[status] || [];
@@ -8,6 +8,8 @@ interface JobHeaderProps {
   company: string;
   url: string;
   status: string;
+  /** How long the job has been in its current status (e.g., "3 days") */
+  timeInStatus?: string;
   className?: string;
 }
 
@@ -17,7 +19,7 @@ interface JobHeaderProps {
  * Displays:
  * - Progress bar (thin strip at top showing workflow progress)
  * - Job title and company
- * - Status badge (colored indicator of current status)
+ * - Status badge (colored indicator of current status) and time in status
  * - Action link to view original job posting
  */
 export const JobHeader: React.FC<JobHeaderProps> = ({
@@ -25,6 +27,7 @@ export const JobHeader: React.FC<JobHeaderProps> = ({
   company,
   url,
   status,
+  timeInStatus,
   className = '',
 }) => {
   const color = getStatusColor(status);
@@ -57,7 +60,14 @@ export const JobHeader: React.FC<JobHeaderProps> = ({
           <p className="text-sm text-muted-foreground m-0 leading-tight overflow-hidden text-ellipsis whitespace-nowrap">
             {company || 'Unknown Company'}
           </p>
-          <StatusBadge status={status} className="mt-1.5 w-fit" />
+          <div className="flex items-center gap-2 mt-1.5">
+            <StatusBadge status={status} className="w-fit" />
+            {timeInStatus && (
+              <span className="text-xs text-muted-foreground">
+                for {timeInStatus}
+              </span>
+            )}
+          </div>
         </div>
 
         <div className="flex items-center gap-2 flex-shrink-0 max-[480px]:w-full max-[480px]:justify-start">
@@ -0,0 +1,75 @@
+/**
+ * JobProfileSelect
+ *
+ * Picks the profile a job is drafted with. "Default" clears the job's
+ * profileId so it follows the default profile.
+ */
+
+import React from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { NamedProfile } from '@/utils/storage';
+
+// Radix Select items cannot have an empty value
+const DEFAULT_VALUE = '__default__';
+
+interface JobProfileSelectProps {
+  profiles: NamedProfile[];
+  defaultProfileId: string | null;
+  /** The job's profileId (undefined for the default) */
+  profileId?: string;
+  onChange: (profileId: string | undefined) => void;
+  disabled?: boolean;
+}
+
+export const JobProfileSelect: React.FC<JobProfileSelectProps> = ({
+  profiles,
+  defaultProfileId,
+  profileId,
+  onChange,
+  disabled = false,
+}) => {
+  const defaultName = profiles.find((p) => p.id === defaultProfileId)?.name;
+  // A deleted profile falls back to the default
+  const value =
+    profileId && profiles.some((p) => p.id === profileId)
+      ? profileId
+      : DEFAULT_VALUE;
+
+  return (
+    <div className="flex items-center gap-2">
+      <label
+        htmlFor="jobProfileSelect"
+        className="text-sm font-medium text-muted-foreground"
+      >
+        Profile:
+      </label>
+      <Select
+        value={value}
+        onValueChange={(next) =>
+          onChange(next === DEFAULT_VALUE ? undefined : next)
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger id="jobProfileSelect" className="h-8 w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_VALUE}>
+            {defaultName ? `Default (${defaultName})` : 'Default'}
+          </SelectItem>
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -2,10 +2,12 @@ import React from 'react';
 import { useParsedJob } from './ParsedJobProvider';
 import { getJobTitle, getCompanyName } from '../../utils/job-parser';
 import type { Job } from '../../entrypoints/job-details/hooks';
-import { defaults } from '@/config';
+import { defaults, getStatusConfig } from '@/config';
 import { JobHeader } from './JobHeader';
 import { Button } from '../ui/Button';
 import { cn } from '@/lib/utils';
+import { getTimeInCurrentStatus } from '@/utils/status-history';
+import { formatDuration } from '@/utils/date-utils';
 
 /**
  * Common props for view components (ID-based callbacks)
@@ -14,7 +16,13 @@ import { cn } from '@/lib/utils';
 interface ViewComponentProps {
   job: Job;
   onDeleteJob: (jobId: string) => void;
-  onSaveField: (jobId: string, fieldName: string, value: string) => void;
+  onSaveField: (
+    jobId: string,
+    fieldName: string,
+    value: unknown
+  ) => void | Promise<void>;
+  /** Changes on undo/redo; views re-read local copies of job fields */
+  historyRevision?: number;
 }
 
 /**
@@ -33,8 +41,27 @@ export interface JobViewRouterProps {
       onDeleteDocument: (jobId: string, documentKey: string) => void;
     }
   >;
+  AwaitingReviewView: React.ComponentType<
+    ViewComponentProps & {
+      onSaveDocument: (
+        jobId: string,
+        documentKey: string,
+        documentData: { title: string; text: string }
+      ) => void;
+    }
+  >;
+  InterviewingView: React.ComponentType<ViewComponentProps>;
+  DecidingView: React.ComponentType<ViewComponentProps & { allJobs: Job[] }>;
+  /** Shared view for terminal statuses (Accepted, Rejected, Withdrawn) */
+  OutcomeView: React.ComponentType<ViewComponentProps>;
+  /** All tracked jobs (used by views that compare across jobs) */
+  allJobs: Job[];
   onDeleteJob: (jobId: string) => void;
-  onSaveField: (jobId: string, fieldName: string, value: string) => void;
+  onSaveField: (
+    jobId: string,
+    fieldName: string,
+    value: unknown
+  ) => void | Promise<void>;
   onSaveDocument: (
     jobId: string,
     documentKey: string,
@@ -42,6 +69,8 @@ export interface JobViewRouterProps {
   ) => void;
   onDeleteDocument: (jobId: string, documentKey: string) => void;
   emptyStateMessage?: string;
+  /** Store history revision (see JobStoreState.historyRevision) */
+  historyRevision?: number;
   /** Show the JobHeader component (default: true) */
   showHeader?: boolean;
 }
@@ -53,7 +82,9 @@ export interface JobViewRouterProps {
  * ┌─────────────────────────────────┐
  * │ JobHeader                       │ - Progress bar, title, status, link
  * ├─────────────────────────────────┤
- * │ View Content (scrollable)       │ - ResearchingView / DraftingView
+ * │ View Content (scrollable)       │ - ResearchingView / DraftingView /
+ * │                                 │   AwaitingReviewView / InterviewingView /
+ * │                                 │   DecidingView / OutcomeView
  * │                                 │
  * └─────────────────────────────────┘
  *
@@ -67,11 +98,17 @@ export function JobViewRouter({
   job,
   ResearchingView,
   DraftingView,
+  AwaitingReviewView,
+  InterviewingView,
+  DecidingView,
+  OutcomeView,
+  allJobs,
   onDeleteJob,
   onSaveField,
   onSaveDocument,
   onDeleteDocument,
   emptyStateMessage = 'No job selected',
+  historyRevision,
   showHeader = true,
 }: JobViewRouterProps) {
   // Parse job at top level (hooks must be called unconditionally)
@@ -105,6 +142,7 @@ export function JobViewRouter({
             job={job}
             onDeleteJob={onDeleteJob}
             onSaveField={onSaveField}
+            historyRevision={historyRevision}
           />
         );
 
@@ -119,7 +157,63 @@ export function JobViewRouter({
           />
         );
 
+      case 'Awaiting Review':
+        return (
+          <AwaitingReviewView
+            job={job}
+            onDeleteJob={onDeleteJob}
+            onSaveField={onSaveField}
+            historyRevision={historyRevision}
+            onSaveDocument={onSaveDocument}
+          />
+        );
+
+      case 'Interviewing':
+        return (
+          <InterviewingView
+            job={job}
+            onDeleteJob={onDeleteJob}
+            onSaveField={onSaveField}
+            historyRevision={historyRevision}
+          />
+        );
+
+      case 'Deciding':
+        return (
+          <DecidingView
+            job={job}
+            allJobs={allJobs}
+            onDeleteJob={onDeleteJob}
+            onSaveField={onSaveField}
+            historyRevision={historyRevision}
+          />
+        );
+
+      case 'Accepted':
+      case 'Rejected':
+      case 'Withdrawn':
+        return (
+          <OutcomeView
+            job={job}
+            onDeleteJob={onDeleteJob}
+            onSaveField={onSaveField}
+            historyRevision={historyRevision}
+          />
+        );
+
       default: {
+        // Custom end states from the configured pipeline get the outcome view
+        if (getStatusConfig(status).terminal) {
+          return (
+            <OutcomeView
+              job={job}
+              onDeleteJob={onDeleteJob}
+              onSaveField={onSaveField}
+              historyRevision={historyRevision}
+            />
+          );
+        }
+
         // WIP view for unimplemented states
         return (
           <div className="flex flex-col items-center justify-center py-15 px-5 text-muted-foreground text-center min-h-72">
@@ -161,6 +255,7 @@ export function JobViewRouter({
           company={company}
           url={job.url}
           status={status}
+          timeInStatus={formatDuration(getTimeInCurrentStatus(job))}
         />
       )}
 
@@ -0,0 +1,111 @@
+/**
+ * PassphraseDialog
+ *
+ * Prompt for a backup passphrase, driven by usePassphraseDialog. When
+ * choosing a new passphrase it must be typed twice and meet the minimum length.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/input';
+import type { PassphraseDialogState } from '@/hooks/usePassphraseDialog';
+import { MIN_PASSPHRASE_LENGTH } from '@/utils/backup-crypto';
+
+interface PassphraseDialogProps {
+  state: PassphraseDialogState;
+  onSubmit: (passphrase: string) => void;
+  onClose: () => void;
+}
+
+export const PassphraseDialog: React.FC<PassphraseDialogProps> = ({
+  state,
+  onSubmit,
+  onClose,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  // Never keep a passphrase around between prompts
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+  }, [state.isOpen]);
+
+  let validationError: string | null = null;
+  if (state.requireConfirmation) {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      validationError = `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    } else if (confirmation && confirmation !== passphrase) {
+      validationError = 'Passphrases do not match.';
+    }
+  }
+
+  const canSubmit =
+    passphrase.length > 0 &&
+    !validationError &&
+    (!state.requireConfirmation || confirmation === passphrase);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) onSubmit(passphrase);
+  };
+
+  return (
+    <Modal isOpen={state.isOpen} onClose={onClose} title={state.title}>
+      <form onSubmit={handleSubmit} className="flex flex-col gap-4 py-1">
+        <p className="text-sm text-muted-foreground">{state.description}</p>
+
+        <div className="flex flex-col gap-2">
+          <label
+            htmlFor="backup-passphrase"
+            className="text-sm text-muted-foreground"
+          >
+            Passphrase
+          </label>
+          <Input
+            type="password"
+            id="backup-passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete={state.requireConfirmation ? 'new-password' : 'off'}
+            autoFocus
+          />
+        </div>
+
+        {state.requireConfirmation && (
+          <div className="flex flex-col gap-2">
+            <label
+              htmlFor="backup-passphrase-confirm"
+              className="text-sm text-muted-foreground"
+            >
+              Confirm passphrase
+            </label>
+            <Input
+              type="password"
+              id="backup-passphrase-confirm"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+        )}
+
+        {(state.error || (passphrase && validationError)) && (
+          <p className="text-sm text-destructive">
+            {passphrase && validationError ? validationError : state.error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="subtle" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={!canSubmit}>
+            {state.submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
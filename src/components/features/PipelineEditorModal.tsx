@@ -0,0 +1,439 @@
+/**
+ * PipelineEditorModal
+ *
+ * Modal for configuring the application pipeline: statuses, their order,
+ * progress fill, colors, allowed transitions and checklist templates.
+ * Saving migrates existing jobs onto the new pipeline (see pipeline-utils).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { usePipeline } from '@/hooks/usePipeline';
+import { getStatusColor, type Pipeline, type PipelineStatus } from '@/config';
+import { validatePipeline } from '@/utils/pipeline-utils';
+
+interface PipelineEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Status being edited, with the name it had when the editor was opened
+ * (null for newly added statuses) so renames can be migrated
+ */
+interface DraftStatus {
+  originalName: string | null;
+  status: PipelineStatus;
+}
+
+const toDraft = (pipeline: Pipeline): DraftStatus[] =>
+  pipeline.statuses.map((status) => ({
+    originalName: status.name,
+    status: {
+      ...status,
+      forward: status.forward.map((t) => ({ ...t })),
+      checklist: [...status.checklist],
+    },
+  }));
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground';
+
+export const PipelineEditorModal: React.FC<PipelineEditorModalProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { pipeline, isCustom, savePipeline, resetPipeline } = usePipeline();
+  const [draft, setDraft] = useState<DraftStatus[]>(() => toDraft(pipeline));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the stored pipeline each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(toDraft(pipeline));
+      setErrors([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const names = draft.map((d) => d.status.name);
+
+  const updateStatus = (index: number, updates: Partial<PipelineStatus>) => {
+    setDraft((prev) =>
+      prev.map((d, i) =>
+        i === index ? { ...d, status: { ...d.status, ...updates } } : d
+      )
+    );
+  };
+
+  // Renaming also updates every transition that points at the old name
+  const renameStatus = (index: number, newName: string) => {
+    setDraft((prev) => {
+      const oldName = prev[index].status.name;
+      const retarget = (target: string) =>
+        target === oldName ? newName : target;
+
+      return prev.map((d, i) => ({
+        ...d,
+        status: {
+          ...d.status,
+          name: i === index ? newName : d.status.name,
+          back: d.status.back
+            ? { ...d.status.back, target: retarget(d.status.back.target) }
+            : null,
+          forward: d.status.forward.map((t) => ({
+            ...t,
+            target: retarget(t.target),
+          })),
+        },
+      }));
+    });
+  };
+
+  const moveStatus = (index: number, direction: -1 | 1) => {
+    setDraft((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addStatus = () => {
+    setDraft((prev) => [
+      ...prev,
+      {
+        originalName: null,
+        status: {
+          name: `New Status ${prev.length + 1}`,
+          fill: 50,
+          terminal: false,
+          color: '#888888',
+          back: null,
+          forward: [],
+          checklist: [],
+        },
+      },
+    ]);
+  };
+
+  // Removing a status also removes transitions that point at it
+  const removeStatus = (index: number) => {
+    setDraft((prev) => {
+      const removedName = prev[index].status.name;
+      return prev
+        .filter((_, i) => i !== index)
+        .map((d) => ({
+          ...d,
+          status: {
+            ...d.status,
+            back: d.status.back?.target === removedName ? null : d.status.back,
+            forward: d.status.forward.filter((t) => t.target !== removedName),
+          },
+        }));
+    });
+  };
+
+  const handleSave = async () => {
+    const nextPipeline: Pipeline = {
+      statuses: draft.map(({ status }) => ({
+        ...status,
+        name: status.name.trim(),
+        checklist: status.checklist.map((t) => t.trim()).filter(Boolean),
+      })),
+    };
+
+    const validationErrors = validatePipeline(nextPipeline);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    const renames: Record<string, string> = {};
+    draft.forEach(({ originalName }, index) => {
+      const newName = nextPipeline.statuses[index].name;
+      if (originalName && originalName !== newName) {
+        renames[originalName] = newName;
+      }
+    });
+
+    setIsSaving(true);
+    try {
+      await savePipeline(nextPipeline, renames);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save pipeline:', error);
+      setErrors(['Failed to save pipeline. Please try again.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+      await resetPipeline();
+      onClose();
+    } catch (error) {
+      console.error('Failed to reset pipeline:', error);
+      setErrors(['Failed to reset pipeline. Please try again.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Application Pipeline"
+      className="max-w-3xl"
+    >
+      <div className="flex flex-col gap-4 py-1">
+        <p className="text-sm text-muted-foreground">
+          Jobs in a status you remove move to the first status. Renamed statuses
+          keep their jobs, history and checklists.
+        </p>
+
+        {draft.map(({ status, originalName }, index) => {
+          const otherNames = names.filter((_, i) => i !== index);
+          return (
+            <div
+              key={originalName ?? `new-${index}`}
+              className="flex flex-col gap-3 rounded-md border border-border p-3"
+            >
+              <div className="flex items-center gap-2">
+                <span
+                  className="w-4 h-4 rounded-full shrink-0 border border-border/50"
+                  style={{
+                    backgroundColor:
+                      status.color ||
+                      (originalName ? getStatusColor(originalName) : undefined),
+                  }}
+                />
+                <Input
+                  value={status.name}
+                  onChange={(e) => renameStatus(index, e.target.value)}
+                  className="h-9 flex-1"
+                  aria-label="Status name"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveStatus(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveStatus(index, 1)}
+                  disabled={index === draft.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeStatus(index)}
+                  disabled={draft.length <= 1}
+                  title="Remove status"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  Progress %
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={status.fill}
+                    onChange={(e) =>
+                      updateStatus(index, { fill: Number(e.target.value) })
+                    }
+                    className="h-9 w-20"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  Color
+                  <input
+                    type="color"
+                    value={status.color || '#888888'}
+                    onChange={(e) =>
+                      updateStatus(index, { color: e.target.value })
+                    }
+                    className="h-9 w-10 cursor-pointer rounded border border-input bg-background"
+                  />
+                  {status.color && originalName && (
+                    <button
+                      className="text-xs underline"
+                      onClick={() => updateStatus(index, { color: undefined })}
+                    >
+                      Use theme color
+                    </button>
+                  )}
+                </label>
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={status.terminal}
+                    onChange={(e) =>
+                      updateStatus(index, { terminal: e.target.checked })
+                    }
+                  />
+                  End state
+                </label>
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  Back to
+                  <select
+                    value={status.back?.target ?? ''}
+                    onChange={(e) =>
+                      updateStatus(index, {
+                        back: e.target.value
+                          ? { label: e.target.value, target: e.target.value }
+                          : null,
+                      })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">None</option>
+                    {otherNames.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <span className="text-sm text-muted-foreground">
+                  Forward transitions
+                </span>
+                {status.forward.map((transition, tIndex) => (
+                  <div key={tIndex} className="flex items-center gap-2">
+                    <Input
+                      value={transition.label}
+                      onChange={(e) =>
+                        updateStatus(index, {
+                          forward: status.forward.map((t, i) =>
+                            i === tIndex ? { ...t, label: e.target.value } : t
+                          ),
+                        })
+                      }
+                      className="h-9 flex-1"
+                      placeholder="Button label"
+                      aria-label="Button label"
+                    />
+                    <select
+                      value={transition.target}
+                      onChange={(e) =>
+                        updateStatus(index, {
+                          forward: status.forward.map((t, i) =>
+                            i === tIndex ? { ...t, target: e.target.value } : t
+                          ),
+                        })
+                      }
+                      className={selectClassName}
+                      aria-label="Target status"
+                    >
+                      {otherNames.map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        updateStatus(index, {
+                          forward: status.forward.filter(
+                            (_, i) => i !== tIndex
+                          ),
+                        })
+                      }
+                      title="Remove transition"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {otherNames.length > 0 && (
+                  <Button
+                    variant="subtle"
+                    size="sm"
+                    className="self-start"
+                    onClick={() =>
+                      updateStatus(index, {
+                        forward: [
+                          ...status.forward,
+                          { label: otherNames[0], target: otherNames[0] },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4" /> Add transition
+                  </Button>
+                )}
+              </div>
+
+              <label className="flex flex-col gap-2 text-sm text-muted-foreground">
+                Checklist (one item per line)
+                <Textarea
+                  value={status.checklist.join('\n')}
+                  onChange={(e) =>
+                    updateStatus(index, {
+                      checklist: e.target.value.split('\n'),
+                    })
+                  }
+                  className="min-h-20 text-sm"
+                />
+              </label>
+            </div>
+          );
+        })}
+
+        <Button variant="secondary" onClick={addStatus} className="self-start">
+          <Plus className="h-4 w-4" /> Add status
+        </Button>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-between gap-2 pt-2">
+          <Button
+            variant="subtle"
+            onClick={handleReset}
+            disabled={isSaving || !isCustom}
+          >
+            Reset to default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSave} disabled={isSaving}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
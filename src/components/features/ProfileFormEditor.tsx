@@ -0,0 +1,389 @@
+/**
+ * ProfileFormEditor
+ *
+ * Form view of the <PROFILE> text: top-level fields, sections with their
+ * ## entries (fields and bullets), section bullets and freeform text.
+ * Every edit is written back into the text through utils/profile-form, so
+ * comments and anything the form does not show are kept. The form is
+ * re-read whenever the text changes from outside (raw edits, imports,
+ * restores).
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  readProfileForm,
+  writeProfileForm,
+  type ProfileForm,
+  type ProfileFormField,
+  type ProfileFormItem,
+  type ProfileFormSection,
+} from '@/utils/profile-form';
+
+interface ProfileFormEditorProps {
+  /** Profile text */
+  content: string;
+  onChange: (content: string) => void;
+  disabled?: boolean;
+}
+
+/** Fields a new entry starts with */
+const ENTRY_FIELDS: Record<string, string[]> = {
+  EDUCATION: ['SCHOOL', 'LOCATION', 'START', 'END'],
+};
+const DEFAULT_ENTRY_FIELDS = ['AT', 'START', 'END'];
+
+const replaceAt = <T,>(list: T[], index: number, value: T): T[] =>
+  list.map((current, i) => (i === index ? value : current));
+
+const removeAt = <T,>(list: T[], index: number): T[] =>
+  list.filter((_, i) => i !== index);
+
+// Keys must stay readable as KEY: value lines
+const toFieldKey = (key: string): string =>
+  key.toUpperCase().replace(/[^A-Z0-9_ ]/g, '_');
+
+const RemoveButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+}> = ({ label, onClick, disabled }) => (
+  <Button
+    variant="ghost"
+    size="sm"
+    className="h-8 w-8 p-0 shrink-0 text-muted-foreground hover:text-destructive"
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+  >
+    <X className="h-4 w-4" />
+  </Button>
+);
+
+const AddButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+}> = ({ label, onClick, disabled }) => (
+  <Button
+    variant="ghost"
+    size="sm"
+    className="gap-1 text-muted-foreground hover:text-foreground"
+    onClick={onClick}
+    disabled={disabled}
+  >
+    <Plus className="h-3.5 w-3.5" />
+    {label}
+  </Button>
+);
+
+const FieldRows: React.FC<{
+  fields: ProfileFormField[];
+  onChange: (fields: ProfileFormField[]) => void;
+  disabled?: boolean;
+}> = ({ fields, onChange, disabled }) => (
+  <div className="flex flex-col gap-1.5">
+    {fields.map((field, index) => (
+      <div key={index} className="flex items-center gap-2">
+        <Input
+          className="h-8 w-36 shrink-0 font-mono text-xs"
+          value={field.key}
+          onChange={(e) =>
+            onChange(
+              replaceAt(fields, index, {
+                ...field,
+                key: toFieldKey(e.target.value),
+              })
+            )
+          }
+          placeholder="FIELD"
+          disabled={disabled}
+          aria-label="Field name"
+        />
+        <Input
+          className="h-8"
+          value={field.value}
+          onChange={(e) =>
+            onChange(
+              replaceAt(fields, index, { ...field, value: e.target.value })
+            )
+          }
+          disabled={disabled}
+          aria-label={field.key || 'Field value'}
+        />
+        <RemoveButton
+          label="Remove field"
+          onClick={() => onChange(removeAt(fields, index))}
+          disabled={disabled}
+        />
+      </div>
+    ))}
+  </div>
+);
+
+const BulletRows: React.FC<{
+  bullets: string[];
+  onChange: (bullets: string[]) => void;
+  disabled?: boolean;
+}> = ({ bullets, onChange, disabled }) => (
+  <div className="flex flex-col gap-1.5">
+    {bullets.map((bullet, index) => (
+      <div key={index} className="flex items-center gap-2">
+        <span className="text-muted-foreground">•</span>
+        <Input
+          className="h-8"
+          value={bullet}
+          onChange={(e) => onChange(replaceAt(bullets, index, e.target.value))}
+          disabled={disabled}
+          aria-label="Bullet"
+        />
+        <RemoveButton
+          label="Remove bullet"
+          onClick={() => onChange(removeAt(bullets, index))}
+          disabled={disabled}
+        />
+      </div>
+    ))}
+  </div>
+);
+
+const ItemCard: React.FC<{
+  item: ProfileFormItem;
+  onChange: (item: ProfileFormItem) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}> = ({ item, onChange, onRemove, disabled }) => (
+  <div className="flex flex-col gap-2 rounded-md border border-border p-3">
+    <div className="flex items-center gap-2">
+      <span className="font-mono text-sm text-muted-foreground">##</span>
+      <Input
+        className="h-8 font-medium"
+        value={item.title}
+        onChange={(e) => onChange({ ...item, title: e.target.value })}
+        placeholder="Title"
+        disabled={disabled}
+        aria-label="Entry title"
+      />
+      <RemoveButton
+        label="Remove entry"
+        onClick={onRemove}
+        disabled={disabled}
+      />
+    </div>
+    <FieldRows
+      fields={item.fields}
+      onChange={(fields) => onChange({ ...item, fields })}
+      disabled={disabled}
+    />
+    <BulletRows
+      bullets={item.bullets}
+      onChange={(bullets) => onChange({ ...item, bullets })}
+      disabled={disabled}
+    />
+    <div className="flex gap-1">
+      <AddButton
+        label="Field"
+        onClick={() =>
+          onChange({
+            ...item,
+            fields: [...item.fields, { key: '', value: '' }],
+          })
+        }
+        disabled={disabled}
+      />
+      <AddButton
+        label="Bullet"
+        onClick={() => onChange({ ...item, bullets: [...item.bullets, ''] })}
+        disabled={disabled}
+      />
+    </div>
+  </div>
+);
+
+const SectionCard: React.FC<{
+  section: ProfileFormSection;
+  onChange: (section: ProfileFormSection) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}> = ({ section, onChange, onRemove, disabled }) => {
+  const addEntry = () => {
+    const keys =
+      ENTRY_FIELDS[section.name.trim().toUpperCase()] ?? DEFAULT_ENTRY_FIELDS;
+    onChange({
+      ...section,
+      items: [
+        ...section.items,
+        {
+          title: '',
+          fields: keys.map((key) => ({ key, value: '' })),
+          bullets: [],
+        },
+      ],
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-border bg-card p-3">
+      <div className="flex items-center gap-2">
+        <span className="font-mono text-sm text-muted-foreground">#</span>
+        <Input
+          className="h-8 font-semibold uppercase"
+          value={section.name}
+          onChange={(e) => onChange({ ...section, name: e.target.value })}
+          placeholder="SECTION"
+          disabled={disabled}
+          aria-label="Section name"
+        />
+        <RemoveButton
+          label="Remove section"
+          onClick={onRemove}
+          disabled={disabled}
+        />
+      </div>
+
+      {section.fields.length > 0 && (
+        <FieldRows
+          fields={section.fields}
+          onChange={(fields) => onChange({ ...section, fields })}
+          disabled={disabled}
+        />
+      )}
+      {section.text.length > 0 && (
+        <Textarea
+          className="min-h-20"
+          value={section.text.join('\n')}
+          onChange={(e) =>
+            onChange({ ...section, text: e.target.value.split('\n') })
+          }
+          disabled={disabled}
+          aria-label={`${section.name} text`}
+        />
+      )}
+      <BulletRows
+        bullets={section.list}
+        onChange={(list) => onChange({ ...section, list })}
+        disabled={disabled}
+      />
+      {section.items.map((item, index) => (
+        <ItemCard
+          key={index}
+          item={item}
+          onChange={(next) =>
+            onChange({
+              ...section,
+              items: replaceAt(section.items, index, next),
+            })
+          }
+          onRemove={() =>
+            onChange({ ...section, items: removeAt(section.items, index) })
+          }
+          disabled={disabled}
+        />
+      ))}
+
+      <div className="flex gap-1">
+        <AddButton label="Entry" onClick={addEntry} disabled={disabled} />
+        <AddButton
+          label="Bullet"
+          onClick={() => onChange({ ...section, list: [...section.list, ''] })}
+          disabled={disabled}
+        />
+        {section.text.length === 0 && (
+          <AddButton
+            label="Text"
+            onClick={() => onChange({ ...section, text: [''] })}
+            disabled={disabled}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ProfileFormEditor: React.FC<ProfileFormEditorProps> = ({
+  content,
+  onChange,
+  disabled = false,
+}) => {
+  const [form, setForm] = useState<ProfileForm>(() => readProfileForm(content));
+  // Text the form was read from (edits are patched into it)
+  const sourceRef = useRef(content);
+  // Text this form last wrote, to tell our own changes from outside ones
+  const writtenRef = useRef(content);
+
+  useEffect(() => {
+    if (content === writtenRef.current) return;
+    sourceRef.current = content;
+    writtenRef.current = content;
+    setForm(readProfileForm(content));
+  }, [content]);
+
+  const update = (next: ProfileForm) => {
+    setForm(next);
+    const text = writeProfileForm(sourceRef.current, next);
+    writtenRef.current = text;
+    onChange(text);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto flex flex-col gap-4 pr-1">
+      <div className="flex flex-col gap-2 rounded-lg border border-border bg-card p-3">
+        <h3 className="text-sm font-semibold text-foreground">Contact</h3>
+        <FieldRows
+          fields={form.fields}
+          onChange={(fields) => update({ ...form, fields })}
+          disabled={disabled}
+        />
+        <div>
+          <AddButton
+            label="Field"
+            onClick={() =>
+              update({
+                ...form,
+                fields: [...form.fields, { key: '', value: '' }],
+              })
+            }
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {form.sections.map((section, index) => (
+        <SectionCard
+          key={section.sourceKey ?? `new-${index}`}
+          section={section}
+          onChange={(next) =>
+            update({
+              ...form,
+              sections: replaceAt(form.sections, index, next),
+            })
+          }
+          onRemove={() =>
+            update({ ...form, sections: removeAt(form.sections, index) })
+          }
+          disabled={disabled}
+        />
+      ))}
+
+      <div>
+        <AddButton
+          label="Section"
+          onClick={() =>
+            update({
+              ...form,
+              sections: [
+                ...form.sections,
+                { name: '', fields: [], items: [], list: [], text: [] },
+              ],
+            })
+          }
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
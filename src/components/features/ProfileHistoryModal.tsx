@@ -0,0 +1,229 @@
+/**
+ * ProfileHistoryModal
+ *
+ * Lists the stored revisions of a profile (newest first) with the fit scores
+ * computed against each, shows a line diff between the selected revision and
+ * the current profile, and restores a revision. The current profile is
+ * snapshotted before restoring so a restore can itself be undone.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import {
+  getProfileRevisions,
+  saveProfileRevision,
+  type ProfileRevision,
+  type ProfileRevisionReason,
+} from '@/utils/profile-revisions';
+import { jobsStorage } from '@/utils/storage';
+import {
+  parseJobTemplate,
+  getJobTitle,
+  getCompanyName,
+} from '@/utils/job-parser';
+import { diffLines } from '@/utils/text-utils';
+
+interface ProfileHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profileId: string;
+  profileName: string;
+  /** Profile currently in the editor */
+  currentContent: string;
+  /** Replace the editor content with a revision */
+  onRestore: (content: string) => void;
+}
+
+const reasonLabels: Record<ProfileRevisionReason, string> = {
+  autosave: 'Autosave',
+  'pre-extraction': 'Before extraction',
+  'pre-import': 'Before import',
+  'pre-optimization': 'Before suggestions',
+  'pre-restore': 'Before restore',
+};
+
+const formatRevisionTime = (isoString: string): string =>
+  new Date(isoString).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const ProfileHistoryModal: React.FC<ProfileHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  profileId,
+  profileName,
+  currentContent,
+  onRestore,
+}) => {
+  const [revisions, setRevisions] = useState<ProfileRevision[]>([]);
+  const [jobLabels, setJobLabels] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load revisions (and job names for their fit scores) each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    Promise.all([getProfileRevisions(profileId), jobsStorage.getValue()])
+      .then(([loaded, jobs]) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+        setJobLabels(
+          Object.fromEntries(
+            Object.values(jobs).map((job) => {
+              const parsed = parseJobTemplate(job.content || '');
+              const title = getJobTitle(parsed) || 'Untitled';
+              const company = getCompanyName(parsed);
+              return [job.id, company ? `${title} at ${company}` : title];
+            })
+          )
+        );
+      })
+      .catch((err) => {
+        console.error('[ProfileHistoryModal] Failed to load revisions:', err);
+        if (!cancelled) setError('Failed to load profile history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, profileId]);
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? null;
+
+  // Diff from the selected revision to the current profile
+  const diff = useMemo(
+    () => (selected ? diffLines(selected.content, currentContent) : []),
+    [selected, currentContent]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      await saveProfileRevision(profileId, currentContent, 'pre-restore');
+    } catch (err) {
+      console.error('[ProfileHistoryModal] Failed to snapshot:', err);
+    }
+    onRestore(selected.content);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`History: ${profileName}`}
+      className="max-w-4xl"
+    >
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground py-4">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive py-4">{error}</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">
+          No revisions yet. Revisions are saved as you edit and before each
+          extraction, import and suggestion run.
+        </p>
+      ) : (
+        <div className="flex gap-4 min-h-0 h-[60vh]">
+          {/* Revision list */}
+          <ul className="w-52 shrink-0 overflow-y-auto border-r border-border pr-2">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  className={cn(
+                    'w-full text-left px-2 py-1.5 rounded text-sm hover:bg-muted',
+                    revision.id === selectedId && 'bg-muted font-medium'
+                  )}
+                  onClick={() => setSelectedId(revision.id)}
+                >
+                  <div className="text-foreground">
+                    {formatRevisionTime(revision.createdAt)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {reasonLabels[revision.reason]}
+                    {revision.fitScores.length > 0 &&
+                      ` · Fit ${revision.fitScores
+                        .map((s) => s.score)
+                        .join(', ')}`}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Fit scores and diff against the current profile */}
+          <div className="flex-1 flex flex-col min-w-0 gap-2">
+            {selected && selected.fitScores.length > 0 && (
+              <ul className="text-xs text-muted-foreground">
+                {selected.fitScores.map((fitScore) => (
+                  <li key={fitScore.jobId}>
+                    <span className="font-semibold text-foreground">
+                      {fitScore.score}
+                    </span>{' '}
+                    {jobLabels[fitScore.jobId] ?? 'Deleted job'} ·{' '}
+                    {formatRevisionTime(fitScore.createdAt)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">
+                <span className="text-destructive">−</span> only in revision
+                {'  '}
+                <span className="text-success">+</span> only in current profile
+              </span>
+              <Button
+                size="sm"
+                onClick={handleRestore}
+                disabled={!selected || selected.content === currentContent}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Restore
+              </Button>
+            </div>
+            <pre className="flex-1 overflow-auto rounded-md border border-border bg-muted p-2 text-xs font-mono whitespace-pre-wrap">
+              {selected && selected.content === currentContent ? (
+                <span className="text-muted-foreground">
+                  Identical to the current profile.
+                </span>
+              ) : (
+                diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      line.type === 'added' && 'bg-success/15 text-success',
+                      line.type === 'removed' &&
+                        'bg-destructive/15 text-destructive'
+                    )}
+                  >
+                    {line.type === 'added'
+                      ? '+ '
+                      : line.type === 'removed'
+                        ? '− '
+                        : '  '}
+                    {line.text}
+                  </div>
+                ))
+              )}
+            </pre>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
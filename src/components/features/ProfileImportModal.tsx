@@ -0,0 +1,124 @@
+/**
+ * ProfileImportModal
+ *
+ * Preview for a profile imported from a file (JSON Resume, LinkedIn
+ * export). Validates the converted <PROFILE> content and shows a line diff
+ * against the current profile before it is replaced.
+ */
+
+import React, { useMemo } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { parseProfile } from '@/utils/profile-parser';
+import { validateProfile } from '@/utils/profile-validator';
+import { diffLines } from '@/utils/text-utils';
+
+interface ProfileImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Where the profile came from, e.g. "resume.json" */
+  sourceLabel: string;
+  /** Profile currently in the editor */
+  currentContent: string;
+  /** Converted <PROFILE> content */
+  importedContent: string;
+  /** Replace the profile with the imported content */
+  onConfirm: () => void;
+}
+
+export const ProfileImportModal: React.FC<ProfileImportModalProps> = ({
+  isOpen,
+  onClose,
+  sourceLabel,
+  currentContent,
+  importedContent,
+  onConfirm,
+}) => {
+  const validation = useMemo(
+    () => validateProfile(parseProfile(importedContent)),
+    [importedContent]
+  );
+
+  const hasCurrent = currentContent.trim().length > 0;
+
+  // With no current profile, the preview is just the imported text
+  const diff = useMemo(
+    () =>
+      hasCurrent
+        ? diffLines(currentContent.trim(), importedContent.trim())
+        : importedContent
+            .trim()
+            .split('\n')
+            .map((text) => ({ type: 'unchanged' as const, text })),
+    [hasCurrent, currentContent, importedContent]
+  );
+  const problems = [...validation.errors, ...validation.warnings];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import Profile"
+      className="max-w-4xl"
+    >
+      <div className="flex flex-col gap-4 py-1">
+        <p className="text-sm text-muted-foreground">
+          {hasCurrent
+            ? `Review the profile read from ${sourceLabel}. Importing replaces the current profile; the current version stays in the profile history.`
+            : `Review the profile read from ${sourceLabel}.`}
+        </p>
+
+        {problems.length > 0 && (
+          <div className="rounded-md bg-muted px-3 py-2 text-sm">
+            <div className="font-medium text-foreground">
+              {validation.errors.length} error(s), {validation.warnings.length}{' '}
+              warning(s)
+            </div>
+            <ul className="mt-1 list-disc pl-5 text-muted-foreground">
+              {problems.slice(0, 5).map((problem, index) => (
+                <li key={index}>{problem.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {hasCurrent && (
+          <span className="text-xs text-muted-foreground">
+            <span className="text-destructive">−</span> only in current profile
+            {'  '}
+            <span className="text-success">+</span> only in imported profile
+          </span>
+        )}
+        <pre className="h-[50vh] overflow-auto rounded-md border border-border bg-muted p-2 text-xs font-mono whitespace-pre-wrap">
+          {diff.map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                line.type === 'added' && 'bg-success/15 text-success',
+                line.type === 'removed' && 'bg-destructive/15 text-destructive'
+              )}
+            >
+              {hasCurrent &&
+                (line.type === 'added'
+                  ? '+ '
+                  : line.type === 'removed'
+                    ? '− '
+                    : '  ')}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="subtle" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={onConfirm}>
+            {hasCurrent ? 'Replace Profile' : 'Import'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,287 @@
+/**
+ * ProfileSwitcher
+ *
+ * Picks the profile being edited and manages the named profiles: create,
+ * clone, rename, set as default and delete. Names are entered in a small
+ * modal; deleting asks for confirmation.
+ */
+
+import React, { useState } from 'react';
+import { MoreVertical } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+} from '@/components/ui/Dropdown';
+import { useConfirmDialog } from '@/hooks/useConfirmDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button-variants';
+import type { NamedProfile } from '@/utils/storage';
+import {
+  createProfile,
+  cloneProfile,
+  renameProfile,
+  setDefaultProfile,
+  deleteProfile,
+  resolveProfile,
+} from '@/utils/profiles';
+
+type NameAction = 'new' | 'clone' | 'rename';
+
+const NAME_MODAL_TITLES: Record<NameAction, string> = {
+  new: 'New Profile',
+  clone: 'Clone Profile',
+  rename: 'Rename Profile',
+};
+
+interface ProfileSwitcherProps {
+  /** Profiles sorted by name */
+  profiles: NamedProfile[];
+  defaultProfileId: string | null;
+  activeProfileId: string | null;
+  /** Open a profile in the editor */
+  onSelect: (profileId: string) => void;
+  onError?: (message: string) => void;
+  disabled?: boolean;
+}
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  defaultProfileId,
+  activeProfileId,
+  onSelect,
+  onError,
+  disabled = false,
+}) => {
+  const [nameAction, setNameAction] = useState<NameAction | null>(null);
+  const [name, setName] = useState('');
+  const {
+    dialogState: confirmState,
+    confirm,
+    closeDialog: closeConfirm,
+  } = useConfirmDialog();
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+  const isDefault = activeProfileId === defaultProfileId;
+
+  const openNameModal = (action: NameAction) => {
+    setNameAction(action);
+    setName(
+      action === 'rename'
+        ? (activeProfile?.name ?? '')
+        : action === 'clone' && activeProfile
+          ? `${activeProfile.name} (copy)`
+          : ''
+    );
+  };
+
+  const closeNameModal = () => {
+    setNameAction(null);
+    setName('');
+  };
+
+  const handleSaveName = async () => {
+    if (!nameAction || !name.trim()) return;
+
+    try {
+      if (nameAction === 'new') {
+        onSelect((await createProfile(name)).id);
+      } else if (nameAction === 'clone' && activeProfileId) {
+        const copy = await cloneProfile(activeProfileId, name);
+        if (copy) onSelect(copy.id);
+      } else if (nameAction === 'rename' && activeProfileId) {
+        await renameProfile(activeProfileId, name);
+      }
+      closeNameModal();
+    } catch (error) {
+      console.error('[ProfileSwitcher] Failed to save profile:', error);
+      onError?.('Failed to save profile');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeProfile) return;
+
+    const confirmed = await confirm({
+      title: 'Delete Profile',
+      description: `Delete "${activeProfile.name}"? Jobs that use it switch to the default profile. This cannot be undone.`,
+      confirmLabel: 'Delete',
+      variant: 'destructive',
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteProfile(activeProfile.id);
+      const remaining = Object.fromEntries(
+        profiles.filter((p) => p.id !== activeProfile.id).map((p) => [p.id, p])
+      );
+      const next = resolveProfile(
+        remaining,
+        isDefault ? null : defaultProfileId
+      );
+      if (next) onSelect(next.id);
+    } catch (error) {
+      console.error('[ProfileSwitcher] Failed to delete profile:', error);
+      onError?.((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={activeProfileId ?? undefined}
+        onValueChange={onSelect}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-48" aria-label="Profile">
+          <SelectValue placeholder="Select a profile" />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.id === defaultProfileId
+                ? `${profile.name} (default)`
+                : profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
+            disabled={disabled}
+            title="Profile actions"
+          >
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onClick={() => openNameModal('new')}>
+            New Profile
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => openNameModal('clone')}
+            disabled={!activeProfile}
+          >
+            Clone
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => openNameModal('rename')}
+            disabled={!activeProfile}
+          >
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() =>
+              activeProfileId && setDefaultProfile(activeProfileId)
+            }
+            disabled={!activeProfile || isDefault}
+          >
+            Set as Default
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            variant="danger"
+            onClick={handleDelete}
+            disabled={!activeProfile || profiles.length <= 1}
+          >
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Profile name modal (new, clone, rename) */}
+      <Modal
+        isOpen={nameAction !== null}
+        onClose={closeNameModal}
+        title={nameAction ? NAME_MODAL_TITLES[nameAction] : ''}
+      >
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Profile Name
+            </label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Engineering Manager"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleSaveName();
+                }
+              }}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={closeNameModal}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleSaveName}
+              disabled={!name.trim()}
+            >
+              {nameAction === 'rename' ? 'Rename' : 'Create'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Confirmation Dialog */}
+      <AlertDialog
+        open={confirmState.isOpen}
+        onOpenChange={(open) => !open && closeConfirm()}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmState.title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmState.description}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={closeConfirm}>
+              {confirmState.cancelLabel}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmState.onConfirm}
+              className={
+                confirmState.variant === 'destructive'
+                  ? buttonVariants({ variant: 'danger' })
+                  : undefined
+              }
+            >
+              {confirmState.confirmLabel}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import * as ToggleGroupPrimitive from '@radix-ui/react-toggle-group';
-import { statusOrder, getStatusColor } from '@/config';
+import { getStatusOrder, getStatusColor } from '@/config';
 import { cn } from '@/lib/utils';
 import {
   Tooltip,
@@ -42,7 +42,7 @@ export function StatusFilterDots({
       className="flex items-center justify-center gap-1.5 py-1"
       aria-label="Filter by status"
     >
-      {statusOrder.map((status) => {
+      {getStatusOrder().map((status) => {
         const color = getStatusColor(status);
         const isFilled = isAllSelected || selectedStatuses.includes(status);
 
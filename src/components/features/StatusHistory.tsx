@@ -0,0 +1,87 @@
+import React from 'react';
+import { getStatusColor } from '@/config';
+import { Input } from '../ui/input';
+import { formatDuration } from '@/utils/date-utils';
+import { getStatusPeriods } from '@/utils/status-history';
+import type { Job } from '@/entrypoints/job-details/hooks';
+
+interface StatusHistoryProps {
+  job: Job;
+  /** Save a note on the transition at the given index in job.statusHistory */
+  onSaveNote?: (transitionIndex: number, note: string) => void;
+}
+
+/**
+ * StatusHistory - Timeline of the statuses a job has moved through
+ *
+ * Shows when each status was entered, how long the job stayed there, and
+ * an optional note per transition (editable when onSaveNote is provided).
+ */
+export const StatusHistory: React.FC<StatusHistoryProps> = ({
+  job,
+  onSaveNote,
+}) => {
+  const periods = getStatusPeriods(job);
+
+  return (
+    <ol className="flex flex-col">
+      {periods.map((period, index) => {
+        const transition =
+          period.transitionIndex !== null
+            ? job.statusHistory?.[period.transitionIndex]
+            : undefined;
+
+        return (
+          <li
+            key={`${period.status}-${period.enteredAt}`}
+            className="flex gap-3 pb-4 last:pb-0"
+          >
+            <div className="flex flex-col items-center">
+              <span
+                className="w-2.5 h-2.5 rounded-full mt-1.5"
+                style={{ backgroundColor: getStatusColor(period.status) }}
+              />
+              {index < periods.length - 1 && (
+                <span className="w-px flex-1 bg-border mt-1" />
+              )}
+            </div>
+            <div className="flex flex-col gap-1 flex-1 min-w-0">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-sm font-medium text-foreground">
+                  {period.status}
+                </span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {new Date(period.enteredAt).toLocaleDateString()} ·{' '}
+                  {formatDuration(period.durationMs)}
+                  {period.exitedAt === null && ' so far'}
+                </span>
+              </div>
+              {transition &&
+                period.transitionIndex !== null &&
+                (onSaveNote ? (
+                  <Input
+                    key={`${job.id}-${period.transitionIndex}`}
+                    defaultValue={transition.note || ''}
+                    onBlur={(e) => {
+                      const note = e.target.value.trim();
+                      if (note !== (transition.note || '')) {
+                        onSaveNote(period.transitionIndex!, note);
+                      }
+                    }}
+                    className="h-8 text-xs"
+                    placeholder="Add a note about this change..."
+                  />
+                ) : (
+                  transition.note && (
+                    <span className="text-xs text-muted-foreground">
+                      {transition.note}
+                    </span>
+                  )
+                ))}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,267 @@
+/**
+ * TrashModal
+ *
+ * Lists deleted jobs with the days left before they are purged. Jobs can be
+ * restored (the background re-focuses them) or deleted permanently, and the
+ * retention period can be changed.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import {
+  Tooltip,
+  TooltipTrigger,
+  TooltipContent,
+} from '@/components/ui/tooltip';
+import { useConfirmDialog } from '@/hooks/useConfirmDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button-variants';
+import {
+  trashStorage,
+  trashRetentionDaysStorage,
+  type TrashedJob,
+} from '@/utils/storage';
+import {
+  TRASH_RETENTION_OPTIONS,
+  deleteFromTrash,
+  getDaysUntilPurge,
+  purgeExpiredTrash,
+} from '@/utils/trash-utils';
+import {
+  parseJobTemplate,
+  getJobTitle,
+  getCompanyName,
+} from '@/utils/job-parser';
+import { formatSaveTime } from '@/utils/date-utils';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after a job was restored (e.g., to leave the board view) */
+  onRestored?: (jobId: string) => void;
+}
+
+export const TrashModal: React.FC<TrashModalProps> = ({
+  isOpen,
+  onClose,
+  onRestored,
+}) => {
+  const [trash, setTrash] = useState<Record<string, TrashedJob>>({});
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+  const {
+    dialogState: confirmState,
+    confirm,
+    closeDialog: closeConfirm,
+  } = useConfirmDialog();
+
+  // Purge expired jobs, then load and watch the trash while open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    purgeExpiredTrash()
+      .catch((err) => console.error('[TrashModal] Failed to purge:', err))
+      .finally(() => {
+        trashStorage.getValue().then(setTrash);
+        trashRetentionDaysStorage.getValue().then(setRetentionDays);
+      });
+
+    const unwatchTrash = trashStorage.watch((value) => setTrash(value ?? {}));
+    const unwatchRetention = trashRetentionDaysStorage.watch((value) =>
+      setRetentionDays(value ?? 30)
+    );
+    return () => {
+      unwatchTrash();
+      unwatchRetention();
+    };
+  }, [isOpen]);
+
+  // Most recently deleted first
+  const entries = useMemo(
+    () =>
+      Object.entries(trash).sort(([, a], [, b]) =>
+        b.deletedAt.localeCompare(a.deletedAt)
+      ),
+    [trash]
+  );
+
+  const handleRestore = async (jobId: string) => {
+    setError(null);
+    try {
+      const response = await browser.runtime.sendMessage({
+        action: 'restoreJob',
+        jobId,
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Restore failed');
+      }
+      onRestored?.(jobId);
+    } catch (err) {
+      console.error('[TrashModal] Failed to restore job:', err);
+      setError('Failed to restore job. Please try again.');
+    }
+  };
+
+  const handleDelete = async (jobId: string, label: string) => {
+    const confirmed = await confirm({
+      title: 'Delete Permanently',
+      description: `Permanently delete "${label}"? This cannot be undone.`,
+      confirmLabel: 'Delete',
+      variant: 'destructive',
+    });
+    if (confirmed) await deleteFromTrash([jobId]);
+  };
+
+  const handleEmptyTrash = async () => {
+    const confirmed = await confirm({
+      title: 'Empty Trash',
+      description: `Permanently delete all ${entries.length} jobs in the trash? This cannot be undone.`,
+      confirmLabel: 'Empty Trash',
+      variant: 'destructive',
+    });
+    if (confirmed) await deleteFromTrash();
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    await trashRetentionDaysStorage.setValue(days);
+    await purgeExpiredTrash();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Trash"
+      className="max-w-2xl"
+    >
+      <div className="flex flex-col gap-4 py-1">
+        <div className="flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Delete jobs permanently after
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            >
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+            </select>
+          </label>
+          <Button
+            variant="danger"
+            size="sm"
+            onClick={handleEmptyTrash}
+            disabled={entries.length === 0}
+          >
+            Empty Trash
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            The trash is empty.
+          </p>
+        ) : (
+          <ul className="flex flex-col divide-y divide-border border border-border rounded-md">
+            {entries.map(([jobId, entry]) => {
+              const parsed = parseJobTemplate(entry.job.content || '');
+              const title = getJobTitle(parsed) || 'Untitled';
+              const company = getCompanyName(parsed) || 'Unknown company';
+              const daysLeft = getDaysUntilPurge(entry, retentionDays);
+
+              return (
+                <li key={jobId} className="flex items-center gap-3 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-foreground truncate">
+                      {title}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {company} · Deleted{' '}
+                      {formatSaveTime(new Date(entry.deletedAt))} ·{' '}
+                      {daysLeft === 1 ? '1 day' : `${daysLeft} days`} left
+                    </div>
+                  </div>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore(jobId)}
+                        aria-label="Restore job"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Restore</TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(jobId, title)}
+                        aria-label="Delete permanently"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Delete permanently</TooltipContent>
+                  </Tooltip>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Confirmation Dialog */}
+      <AlertDialog
+        open={confirmState.isOpen}
+        onOpenChange={(open) => !open && closeConfirm()}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmState.title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmState.description}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={closeConfirm}>
+              {confirmState.cancelLabel}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmState.onConfirm}
+              className={
+                confirmState.variant === 'destructive'
+                  ? buttonVariants({ variant: 'danger' })
+                  : undefined
+              }
+            >
+              {confirmState.confirmLabel}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Modal>
+  );
+};
@@ -1,8 +1,9 @@
 import * as React from 'react';
-import { statusOrder, getStatusConfig, getStatusColor } from '@/config';
+import { getStatusConfig, getStatusColor } from '@/config';
 import { cn } from '@/lib/utils';
 
-export type ApplicationStatus = (typeof statusOrder)[number];
+// Statuses are user-configurable (see config.ts pipeline)
+export type ApplicationStatus = string;
 
 export interface StatusBadgeProps
   extends React.HTMLAttributes<HTMLSpanElement> {
@@ -14,11 +14,12 @@ export type {
 // =============================================================================
 // Status Configuration (Single Source of Truth)
 // =============================================================================
-// All status-related data in one place. To add a new status:
-// 1. Add entry to `statuses` array below
-// 2. Add CSS variable in globals.css (--status-{kebab-name})
-// 3. Add navigation buttons in getNavigationButtons() if needed
-// 4. Add checklist items in checklistTemplates if needed
+// The application pipeline is user-configurable (see PipelineEditorModal) and
+// stored in pipelineStorage. `statuses`, `defaultNavigation` and
+// `defaultChecklistTemplates` below define the default pipeline; all helpers
+// read from the active pipeline, which usePipeline() loads from storage.
+// Default statuses get theme-aware colors from CSS (--status-{kebab-name});
+// custom statuses carry their own color.
 
 export interface StatusConfig {
   name: string;
@@ -26,6 +27,31 @@ export interface StatusConfig {
   terminal: boolean; // Whether this is an end state
 }
 
+/**
+ * Navigation button target (label shown on the button, status to move to)
+ */
+export interface StatusNavigation {
+  label: string;
+  target: string;
+}
+
+/**
+ * A status in the user-configurable application pipeline
+ */
+export interface PipelineStatus extends StatusConfig {
+  color?: string; // CSS color; omitted to use the theme's --status-* variable
+  back: StatusNavigation | null; // "go back" button
+  forward: StatusNavigation[]; // Allowed forward transitions
+  checklist: string[]; // Checklist template items
+}
+
+/**
+ * Ordered list of statuses making up the application pipeline
+ */
+export interface Pipeline {
+  statuses: PipelineStatus[];
+}
+
 export const statuses: readonly StatusConfig[] = [
   { name: 'Researching', fill: 0, terminal: false },
   { name: 'Drafting', fill: 15, terminal: false },
@@ -37,40 +63,161 @@ export const statuses: readonly StatusConfig[] = [
   { name: 'Withdrawn', fill: 100, terminal: true },
 ] as const;
 
+// Default navigation buttons for each status (v0.3.0)
+const defaultNavigation: Record<
+  string,
+  { back: StatusNavigation | null; forward: StatusNavigation[] }
+> = {
+  Researching: {
+    back: null,
+    forward: [{ label: 'Draft Documents', target: 'Drafting' }],
+  },
+  Drafting: {
+    back: { label: 'Researching', target: 'Researching' },
+    forward: [{ label: 'Apply', target: 'Awaiting Review' }],
+  },
+  'Awaiting Review': {
+    back: { label: 'Drafting', target: 'Drafting' },
+    forward: [{ label: 'Begin Interviewing', target: 'Interviewing' }],
+  },
+  Interviewing: {
+    back: { label: 'Awaiting Review', target: 'Awaiting Review' },
+    forward: [{ label: 'Received Offer', target: 'Deciding' }],
+  },
+  Deciding: {
+    back: { label: 'Interviewing', target: 'Interviewing' },
+    forward: [
+      { label: 'Accepted', target: 'Accepted' },
+      { label: 'Rejected', target: 'Rejected' },
+    ],
+  },
+  Accepted: {
+    back: { label: 'Deciding', target: 'Deciding' },
+    forward: [],
+  },
+  Rejected: {
+    back: { label: 'Deciding', target: 'Deciding' },
+    forward: [],
+  },
+  Withdrawn: {
+    // Replaced by the real previous status when the job has history
+    back: { label: 'Previous', target: 'Researching' },
+    forward: [],
+  },
+};
+
+// Default checklist templates for each status
+const defaultChecklistTemplates: Record<string, string[]> = {
+  Researching: [
+    'Review job description thoroughly',
+    'Research company culture and values',
+    'Create narrative strategy',
+  ],
+  Drafting: [
+    'Create tailored resume/CV',
+    'Write cover letter',
+    'Prepare all required documents',
+    'Review application for errors',
+  ],
+  'Awaiting Review': [
+    'Confirm application submitted',
+    'Connect with a team member',
+    'Follow up if needed',
+  ],
+  Interviewing: [
+    'Research interviewer backgrounds',
+    'Prepare STAR responses',
+    'Prepare questions to ask',
+    'Send thank you notes',
+  ],
+  Deciding: [
+    'Review offer details',
+    'Analyze total compensation',
+    'Negotiate if appropriate',
+    'Compare with other offers',
+  ],
+  Accepted: [
+    'Sign offer letter',
+    'Complete onboarding paperwork',
+    'Withdraw from other applications',
+  ],
+  Rejected: ['Request feedback if appropriate'],
+  Withdrawn: [],
+};
+
+/**
+ * Default pipeline (used until a custom pipeline is saved)
+ */
+export const defaultPipeline: Pipeline = {
+  statuses: statuses.map((status) => ({
+    ...status,
+    back: defaultNavigation[status.name]?.back ?? null,
+    forward: defaultNavigation[status.name]?.forward ?? [],
+    checklist: defaultChecklistTemplates[status.name] ?? [],
+  })),
+};
+
+// Active pipeline - replaced by setActivePipeline() once storage is loaded
+let activePipeline: Pipeline = defaultPipeline;
+
+/**
+ * Get the active pipeline
+ */
+export const getPipeline = (): Pipeline => activePipeline;
+
+/**
+ * Replace the active pipeline (falls back to the default when empty)
+ */
+export const setActivePipeline = (pipeline: Pipeline | null): void => {
+  activePipeline =
+    pipeline && pipeline.statuses.length > 0 ? pipeline : defaultPipeline;
+};
+
 // Utility: convert status name to kebab-case for CSS variable lookup
 const toKebabCase = (s: string): string => s.toLowerCase().replace(/\s+/g, '-');
 
-// Utility: normalize status name (capitalize each word)
-const normalizeStatus = (status: string): string =>
-  status
-    .split(' ')
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join(' ');
+/**
+ * Get status names in pipeline order
+ */
+export const getStatusOrder = (): string[] =>
+  activePipeline.statuses.map((s) => s.name);
 
-// Derived arrays (backward compatible exports)
-export const statusOrder = statuses.map((s) => s.name);
-export const terminalStates = statuses
-  .filter((s) => s.terminal)
-  .map((s) => s.name);
+/**
+ * Get names of terminal (end) statuses
+ */
+export const getTerminalStates = (): string[] =>
+  activePipeline.statuses.filter((s) => s.terminal).map((s) => s.name);
 
-// Default status config (fallback)
-const defaultStatus = statuses[0];
+/**
+ * Check whether a status exists in the active pipeline
+ */
+export const isKnownStatus = (status: string): boolean =>
+  activePipeline.statuses.some((s) => s.name === status);
 
 /**
- * Get full status configuration by name
+ * Get full status configuration by name (case-insensitive)
+ * Unknown statuses fall back to the first status in the pipeline
  */
-export const getStatusConfig = (status: string): StatusConfig => {
-  const normalized = normalizeStatus(status);
-  return statuses.find((s) => s.name === normalized) ?? defaultStatus;
+export const getStatusConfig = (status: string): PipelineStatus => {
+  const lower = (status || '').toLowerCase();
+  return (
+    activePipeline.statuses.find((s) => s.name === status) ??
+    activePipeline.statuses.find((s) => s.name.toLowerCase() === lower) ??
+    activePipeline.statuses[0]
+  );
 };
 
 /**
- * Get status color as CSS variable reference
- * Returns: 'var(--status-researching)', 'var(--status-awaiting-review)', etc.
+ * Get status color as a CSS color
+ * Returns the custom color if set, otherwise the theme variable:
+ * 'var(--status-researching)', 'var(--status-awaiting-review)', etc.
  */
 export const getStatusColor = (status: string): string => {
   const config = getStatusConfig(status);
-  return `var(--status-${toKebabCase(config.name)})`;
+  return (
+    config.color ||
+    `var(--status-${toKebabCase(config.name)}, var(--color-muted-foreground))`
+  );
 };
 
 /**
@@ -94,64 +241,53 @@ export const getStatusBackgroundHover = (status: string): string => {
   return `color-mix(in srgb, ${getStatusColor(status)} 65%, hsl(var(--card)))`;
 };
 
-// Navigation button configuration for each status (v0.3.0)
-export function getNavigationButtons(status: string) {
+/**
+ * Get checklist templates for every status in the pipeline
+ */
+export const getChecklistTemplates = (): Record<
+  string,
+  { text: string; order: number }[]
+> =>
+  Object.fromEntries(
+    activePipeline.statuses.map((s) => [
+      s.name,
+      s.checklist.map((text, order) => ({ text, order })),
+    ])
+  );
+
+// Navigation buttons for a status, read from the active pipeline
+// previousStatus comes from the job's status history and is used to "go back"
+// from terminal states to wherever the job actually was
+export function getNavigationButtons(
+  status: string,
+  previousStatus?: string | null
+) {
+  const config = getStatusConfig(status);
   const buttons: {
-    left: { label: string; target: string } | null;
-    right: { label: string; target: string }[];
-  } = { left: null, right: [] };
-
-  switch (status) {
-    case 'Researching':
-      buttons.right = [{ label: 'Draft Documents', target: 'Drafting' }];
-      break;
-
-    case 'Drafting':
-      buttons.left = { label: 'Researching', target: 'Researching' };
-      buttons.right = [{ label: 'Apply', target: 'Awaiting Review' }];
-      break;
-
-    case 'Awaiting Review':
-      buttons.left = { label: 'Drafting', target: 'Drafting' };
-      buttons.right = [{ label: 'Begin Interviewing', target: 'Interviewing' }];
-      break;
-
-    case 'Interviewing':
-      buttons.left = { label: 'Awaiting Review', target: 'Awaiting Review' };
-      buttons.right = [{ label: 'Received Offer', target: 'Deciding' }];
-      break;
-
-    case 'Deciding':
-      buttons.left = { label: 'Interviewing', target: 'Interviewing' };
-      buttons.right = [
-        { label: 'Accepted', target: 'Accepted' },
-        { label: 'Rejected', target: 'Rejected' },
-      ];
-      break;
-
-    case 'Accepted':
-      buttons.left = { label: 'Deciding', target: 'Deciding' };
-      break;
-
-    case 'Rejected':
-      buttons.left = { label: 'Deciding', target: 'Deciding' };
-      break;
-
-    case 'Withdrawn':
-      // For withdrawn, we need to figure out the previous state from history
-      buttons.left = { label: 'Previous', target: 'Researching' }; // Default fallback
-      break;
-
-    default:
-      // Default case: treat as 'Researching'
-      buttons.right = [{ label: 'Draft Documents', target: 'Drafting' }];
+    left: StatusNavigation | null;
+    right: StatusNavigation[];
+  } = { left: config.back, right: [...config.forward] };
+
+  if (config.terminal) {
+    // Return to the real previous status instead of the fixed fallback
+    if (
+      previousStatus &&
+      isKnownStatus(previousStatus) &&
+      !getStatusConfig(previousStatus).terminal
+    ) {
+      buttons.left = { label: previousStatus, target: previousStatus };
+    }
+  } else if (
+    isKnownStatus('Withdrawn') &&
+    !buttons.right.some((button) => button.target === 'Withdrawn')
+  ) {
+    // Any active application can be withdrawn
+    buttons.right.push({ label: 'Withdraw', target: 'Withdrawn' });
   }
 
   return buttons;
 }
 
-// Terminal states - now derived from statuses array above
-
 // DOM element IDs
 export const domIds = {
   jobsList: 'jobsList',
@@ -238,44 +374,20 @@ export const llmConfig: LLMConfig = {
   synthesis: synthesis,
 };
 
-// Checklist templates for each status
-export const checklistTemplates = {
-  Researching: [
-    { text: 'Review job description thoroughly', order: 0 },
-    { text: 'Research company culture and values', order: 1 },
-    { text: 'Create narrative strategy', order: 2 },
-  ],
-  Drafting: [
-    { text: 'Create tailored resume/CV', order: 0 },
-    { text: 'Write cover letter', order: 1 },
-    { text: 'Prepare all required documents', order: 2 },
-    { text: 'Review application for errors', order: 3 },
-  ],
-  'Awaiting Review': [
-    { text: 'Confirm application submitted', order: 0 },
-    { text: 'Connect with a team member', order: 1 },
-    { text: 'Follow up if needed', order: 2 },
-  ],
-  Interviewing: [
-    { text: 'Research interviewer backgrounds', order: 0 },
-    { text: 'Prepare STAR responses', order: 1 },
-    { text: 'Prepare questions to ask', order: 2 },
-    { text: 'Send thank you notes', order: 3 },
-  ],
-  Deciding: [
-    { text: 'Review offer details', order: 0 },
-    { text: 'Analyze total compensation', order: 1 },
-    { text: 'Negotiate if appropriate', order: 2 },
-    { text: 'Compare with other offers', order: 3 },
-  ],
-  Accepted: [
-    { text: 'Sign offer letter', order: 0 },
-    { text: 'Complete onboarding paperwork', order: 1 },
-    { text: 'Withdraw from other applications', order: 2 },
-  ],
-  Rejected: [
-    { text: 'Request feedback if appropriate', order: 0 },
-    { text: 'Update notes with learnings', order: 1 },
-  ],
-  Withdrawn: [],
-};
+// Interview round options (Interviewing panel)
+export const interviewFormats = [
+  'Phone',
+  'Video',
+  'On-site',
+  'Take-home',
+  'Panel',
+  'Other',
+] as const;
+
+export const interviewOutcomes = [
+  'Scheduled',
+  'Completed',
+  'Advanced',
+  'Not selected',
+  'Cancelled',
+] as const;
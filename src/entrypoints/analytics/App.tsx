@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from 'react';
+import { browser } from 'wxt/browser';
+import { ArrowLeft, Download } from 'lucide-react';
+
+import { jobsStorage } from '@/utils/storage';
+import {
+  analyticsToCsvRows,
+  computeJobAnalytics,
+  formatRate,
+} from '@/utils/analytics';
+import { exportCsv } from '@/utils/export-utils';
+import { getStatusColor } from '@/config';
+import { useTheme } from '@/hooks/useTheme';
+import { usePipeline } from '@/hooks/usePipeline';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/card';
+import type { Job } from '../job-details/hooks';
+
+/**
+ * Analytics page - job search funnel, time in status, response rates and
+ * weekly application volume, computed locally from jobsStorage
+ */
+export default function App() {
+  // Initialize theme and the configured pipeline (status order/colors)
+  useTheme();
+  usePipeline();
+
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load jobs and keep them in sync with other tabs
+  useEffect(() => {
+    jobsStorage.getValue().then((stored) => {
+      setJobs(Object.values(stored || {}));
+      setIsLoaded(true);
+    });
+
+    const unwatch = jobsStorage.watch((newValue) => {
+      setJobs(Object.values(newValue || {}));
+    });
+    return unwatch;
+  }, []);
+
+  const analytics = useMemo(() => computeJobAnalytics(jobs), [jobs]);
+  const maxFunnelCount = Math.max(1, ...analytics.funnel.map((s) => s.count));
+  const maxWeeklyCount = Math.max(
+    1,
+    ...analytics.applicationsPerWeek.map((w) => w.count)
+  );
+
+  const goBack = () => {
+    window.location.href = browser.runtime.getURL('/job-details.html');
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().split('T')[0];
+    exportCsv(`sir-hires-analytics-${date}`, analyticsToCsvRows(analytics));
+  };
+
+  return (
+    <div className="flex min-h-screen w-full flex-col bg-muted">
+      {/* Header - matches job-details header */}
+      <header className="flex justify-between items-center py-3 px-6 border-b border-border bg-background shrink-0">
+        <Button
+          variant="ghost"
+          className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center gap-1.5"
+          onClick={goBack}
+          title="Back to Jobs"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span className="hidden sm:inline">Jobs</span>
+        </Button>
+        <h1 className="text-lg font-semibold text-foreground">Analytics</h1>
+        <Button
+          variant="ghost"
+          className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center gap-1.5"
+          onClick={handleExport}
+          disabled={jobs.length === 0}
+          title="Export CSV"
+        >
+          <Download className="h-4 w-4" />
+          <span className="hidden sm:inline">CSV</span>
+        </Button>
+      </header>
+
+      {isLoaded && jobs.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
+          No jobs yet. Extract a job to start tracking your search.
+        </div>
+      ) : (
+        <main className="grid gap-4 p-6 max-w-5xl mx-auto w-full md:grid-cols-2">
+          <Card className="md:col-span-2">
+            <CardContent className="pt-6">
+              <h2 className="text-base font-semibold text-foreground mb-3">
+                Funnel
+              </h2>
+              <div className="flex flex-col gap-2">
+                {analytics.funnel.map((stage) => (
+                  <div
+                    key={stage.status}
+                    className="grid grid-cols-[9rem_1fr_3rem_4rem] items-center gap-3 text-sm"
+                  >
+                    <span className="text-foreground truncate">
+                      {stage.status}
+                    </span>
+                    <div className="h-4 rounded bg-background overflow-hidden">
+                      <div
+                        className="h-full rounded"
+                        style={{
+                          width: `${(stage.count / maxFunnelCount) * 100}%`,
+                          backgroundColor: getStatusColor(stage.status),
+                        }}
+                      />
+                    </div>
+                    <span className="text-right font-medium text-foreground">
+                      {stage.count}
+                    </span>
+                    <span
+                      className="text-right text-muted-foreground"
+                      title="Conversion from the previous stage"
+                    >
+                      {formatRate(stage.conversionRate)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <h2 className="text-base font-semibold text-foreground mb-3">
+                Median days in status
+              </h2>
+              <table className="w-full text-sm">
+                <tbody>
+                  {analytics.statusDurations.map((duration) => (
+                    <tr
+                      key={duration.status}
+                      className="border-b border-border last:border-0"
+                    >
+                      <td className="py-1.5 text-foreground">
+                        {duration.status}
+                      </td>
+                      <td className="py-1.5 text-right font-medium text-foreground">
+                        {duration.medianDays === null
+                          ? '—'
+                          : duration.medianDays.toFixed(1)}
+                      </td>
+                      <td className="py-1.5 text-right text-muted-foreground">
+                        {duration.sampleSize}{' '}
+                        {duration.sampleSize === 1 ? 'job' : 'jobs'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <h2 className="text-base font-semibold text-foreground mb-3">
+                Response rate by source
+              </h2>
+              {analytics.responseRates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No applications submitted yet.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-left text-muted-foreground">
+                      <th className="py-1.5 font-medium">Source</th>
+                      <th className="py-1.5 font-medium text-right">Applied</th>
+                      <th className="py-1.5 font-medium text-right">
+                        Responded
+                      </th>
+                      <th className="py-1.5 font-medium text-right">Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.responseRates.map((rate) => (
+                      <tr
+                        key={rate.source}
+                        className="border-b border-border last:border-0"
+                      >
+                        <td className="py-1.5 text-foreground">
+                          {rate.source}
+                        </td>
+                        <td className="py-1.5 text-right">{rate.applied}</td>
+                        <td className="py-1.5 text-right">{rate.responded}</td>
+                        <td className="py-1.5 text-right font-medium text-foreground">
+                          {formatRate(rate.responseRate)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-2">
+            <CardContent className="pt-6">
+              <h2 className="text-base font-semibold text-foreground mb-3">
+                Applications per week
+              </h2>
+              {analytics.applicationsPerWeek.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No applications submitted yet.
+                </p>
+              ) : (
+                <div className="flex items-end gap-2 h-40 overflow-x-auto">
+                  {analytics.applicationsPerWeek.map((week) => (
+                    <div
+                      key={week.weekStart}
+                      className="flex flex-col items-center justify-end gap-1 h-full min-w-12"
+                      title={`Week of ${week.weekStart}: ${week.count}`}
+                    >
+                      <span className="text-xs font-medium text-foreground">
+                        {week.count}
+                      </span>
+                      <div
+                        className="w-8 rounded-t bg-primary"
+                        style={{
+                          height: `${(week.count / maxWeeklyCount) * 100}%`,
+                        }}
+                      />
+                      <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                        {week.weekStart.slice(5)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      )}
+    </div>
+  );
+}
@@ -3,12 +3,13 @@
 // Central coordination point for the extension. Handles:
 // - Extension lifecycle (installation, context menus)
 // - LLM API calls (non-streaming, for content scripts)
-// - Cross-component state management (jobInFocus, job deletion)
+// - Cross-component state management (jobInFocus, job deletion and restore)
+// - Scheduled automatic backups (browser.alarms)
 // - Message routing between content scripts and UI components (sidepanel, job-details)
 //
 // Architecture:
 // - Uses hybrid event-driven pattern (see AGENTS.md)
-// - Rule 2: Manages cross-component state (jobInFocus, deletion)
+// - Rule 2: Manages cross-component state (jobInFocus, deletion, restore)
 // - Rule 3: Simple mutations handled directly by components
 //
 // Note: LLM streaming extraction is now handled directly by components using
@@ -17,7 +18,23 @@
 
 import type { Browser } from 'wxt/browser';
 import { llmConfig } from '../config';
-import { jobsStorage, extractionTriggerStorage } from '../utils/storage';
+import {
+  jobsStorage,
+  extractionTriggerStorage,
+  autoBackupSettingsStorage,
+  type AutoBackupRecord,
+} from '../utils/storage';
+import { runMigrations } from '../utils/migrations';
+import {
+  moveJobToTrash,
+  purgeExpiredTrash,
+  restoreJobFromTrash,
+} from '../utils/trash-utils';
+import {
+  AUTO_BACKUP_ALARM,
+  scheduleAutoBackup,
+  writeAutoBackup,
+} from '../utils/auto-backup';
 
 // Message Type Definitions
 // These types define the contract between components and the background script
@@ -73,24 +90,77 @@ interface DeleteJobMessage extends BaseMessage {
   jobId: string;
 }
 
+interface RestoreJobMessage extends BaseMessage {
+  action: 'restoreJob';
+  jobId: string;
+}
+
 interface FetchModelsMessage extends BaseMessage {
   action: 'fetchModels';
   endpoint: string;
   apiKey?: string;
 }
 
+interface WriteAutoBackupMessage extends BaseMessage {
+  action: 'writeAutoBackup';
+  reason: AutoBackupRecord['reason'];
+}
+
+interface RunMigrationsMessage extends BaseMessage {
+  action: 'runMigrations';
+}
+
 type RuntimeMessage =
   | GetJobsMessage
   | SaveJobMessage
   | CallLLMMessage
   | SetJobInFocusMessage
   | DeleteJobMessage
-  | FetchModelsMessage;
+  | RestoreJobMessage
+  | FetchModelsMessage
+  | WriteAutoBackupMessage
+  | RunMigrationsMessage;
 
 export default defineBackground(() => {
+  // Upgrade stored data on every service worker start (no-op when current)
+  runMigrations().catch((error) => {
+    console.error('Error migrating data:', error);
+  });
+
+  // Drop trashed jobs past their retention period
+  purgeExpiredTrash()
+    .then((count) => {
+      if (count > 0) console.info(`[Background] Purged ${count} trashed jobs`);
+    })
+    .catch((error) => {
+      console.error('Error purging trash:', error);
+    });
+
+  // Keep the automatic backup alarm in sync with the settings
+  const rescheduleAutoBackup = () =>
+    scheduleAutoBackup().catch((error) => {
+      console.error('Error scheduling automatic backups:', error);
+    });
+  rescheduleAutoBackup();
+  autoBackupSettingsStorage.watch(rescheduleAutoBackup);
+
+  browser.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== AUTO_BACKUP_ALARM) return;
+    writeAutoBackup('scheduled').catch((error) => {
+      console.error('Error writing automatic backup:', error);
+    });
+  });
+
   browser.runtime.onInstalled.addListener(async () => {
     console.info('Sir Hires extension installed');
 
+    // Upgrade stored data before anything else reads it
+    try {
+      await runMigrations();
+    } catch (error) {
+      console.error('Error migrating data:', error);
+    }
+
     // Initialize storage if needed
     const jobs = await jobsStorage.getValue();
     if (!jobs || Object.keys(jobs).length === 0) {
@@ -306,13 +376,12 @@ export default defineBackground(() => {
       }
 
       if (request.action === 'saveJob') {
-        jobsStorage.getValue().then((jobsObj) => {
-          const jobs = jobsObj || {};
-          jobs[request.job.id] = request.job;
-          jobsStorage.setValue(jobs).then(() => {
-            sendResponse({ success: true, count: Object.keys(jobs).length });
+        jobsStorage
+          .setJob(request.job)
+          .then(() => jobsStorage.getJobIds())
+          .then((jobIds) => {
+            sendResponse({ success: true, count: jobIds.length });
           });
-        });
         return true;
       }
 
@@ -426,18 +495,16 @@ export default defineBackground(() => {
             const { jobInFocusStorage } = await import('../utils/storage');
 
             // Get current jobs and determine the next job to focus
-            const jobs = await jobsStorage.getValue();
-            const jobIds = Object.keys(jobs);
+            const jobIds = await jobsStorage.getJobIds();
             const currentIndex = jobIds.indexOf(jobId);
 
-            // Delete job from storage
-            delete jobs[jobId];
-            await jobsStorage.setValue(jobs);
+            // Move job to the trash (restorable until purged)
+            await moveJobToTrash(jobId);
 
             // Update jobInFocus if the deleted job was focused
             const currentFocus = await jobInFocusStorage.getValue();
             if (currentFocus === jobId) {
-              const remainingJobIds = Object.keys(jobs);
+              const remainingJobIds = jobIds.filter((id) => id !== jobId);
               if (remainingJobIds.length === 0) {
                 // No jobs left, clear focus
                 await jobInFocusStorage.setValue(null);
@@ -465,6 +532,59 @@ export default defineBackground(() => {
         return true;
       }
 
+      if (request.action === 'restoreJob') {
+        // Handle job restore from the trash
+        // Background coordinates restore so every open view re-focuses the job
+        const { jobId } = request;
+        console.info('[Background] Restoring job:', jobId);
+
+        restoreJobFromTrash(jobId)
+          .then((job) => {
+            sendResponse(
+              job
+                ? { success: true }
+                : { success: false, error: 'Job not found in trash' }
+            );
+          })
+          .catch((error: unknown) => {
+            console.error('[Background] Failed to restore job:', error);
+            const err = error as Error;
+            sendResponse({ success: false, error: err.message });
+          });
+
+        return true;
+      }
+
+      if (request.action === 'writeAutoBackup') {
+        // Backups are written here so history updates never race
+        writeAutoBackup(request.reason)
+          .then((record) => {
+            sendResponse({ success: true, record });
+          })
+          .catch((error: unknown) => {
+            console.error('[Background] Failed to write backup:', error);
+            const err = error as Error;
+            sendResponse({ success: false, error: err.message });
+          });
+
+        return true;
+      }
+
+      if (request.action === 'runMigrations') {
+        // Pages wait for this before reading storage; only the background
+        // migrates so two contexts never apply the same migration
+        runMigrations()
+          .then((result) => {
+            sendResponse({ success: true, result });
+          })
+          .catch((error: unknown) => {
+            const err = error as Error;
+            sendResponse({ success: false, error: err.message });
+          });
+
+        return true;
+      }
+
       return false;
     }
   );
@@ -1,4 +1,5 @@
 import type { Browser } from 'wxt/browser';
+import { getSourceFromHostname } from '../utils/shared-utils';
 
 // Content script that runs on all pages and extracts job data when requested
 
@@ -47,18 +48,7 @@ export default defineContentScript({
 });
 
 function extractSource() {
-  const hostname = window.location.hostname;
-  if (hostname.includes('linkedin.com')) return 'LinkedIn';
-  if (hostname.includes('indeed.com')) return 'Indeed';
-  if (hostname.includes('glassdoor.com')) return 'Glassdoor';
-  if (hostname.includes('monster.com')) return 'Monster';
-  if (hostname.includes('ziprecruiter.com')) return 'ZipRecruiter';
-  if (hostname.includes('dice.com')) return 'Dice';
-  if (hostname.includes('stackoverflow.com')) return 'Stack Overflow';
-  if (hostname.includes('greenhouse.io')) return 'Greenhouse';
-  if (hostname.includes('lever.co')) return 'Lever';
-  if (hostname.includes('workday.com')) return 'Workday';
-  return hostname;
+  return getSourceFromHostname(window.location.hostname);
 }
 
 /**
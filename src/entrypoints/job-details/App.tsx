@@ -1,8 +1,12 @@
-import React, { useEffect, useCallback, useState } from 'react';
+import React, { useEffect, useCallback, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/Button';
 import { buttonVariants } from '@/components/ui/button-variants';
 import { ResearchingView } from './views/ResearchingView';
 import { DraftingView } from './views/DraftingView';
+import { AwaitingReviewView } from './views/AwaitingReviewView';
+import { InterviewingView } from './views/InterviewingView';
+import { DecidingView } from './views/DecidingView';
+import { OutcomeView } from './views/OutcomeView';
 import { useJobStore, useFitScore } from './hooks';
 import { useLLMSettings } from '@/hooks/useLLMSettings';
 import { JobViewRouter } from '../../components/features/JobViewRouter';
@@ -12,11 +16,29 @@ import {
   useGetParsedJob,
 } from '../../components/features/ParsedJobProvider';
 import { JobSelector } from '../../components/features/JobSelector';
+import { JobBoard } from '../../components/features/JobBoard';
 import { initDevModeValidation } from '../../utils/dev-validators';
+import { getPreviousStatus } from '../../utils/status-history';
 import { Dropdown } from '../../components/ui/Dropdown';
 import { ThemeModal } from '../../components/features/ThemeModal';
+import { PipelineEditorModal } from '../../components/features/PipelineEditorModal';
+import { TrashModal } from '../../components/features/TrashModal';
+import { AutoBackupModal } from '../../components/features/AutoBackupModal';
+import { ImportExportModal } from '../../components/features/ImportExportModal';
+import { BackupMergeModal } from '../../components/features/BackupMergeModal';
+import { BackupReportModal } from '../../components/features/BackupReportModal';
+import { PassphraseDialog } from '../../components/features/PassphraseDialog';
 import { LLMSettingsForm } from '../../components/features/LLMSettingsForm';
-import { PanelLeft, User, Wifi, WifiOff, X } from 'lucide-react';
+import {
+  PanelLeft,
+  Redo2,
+  SquareKanban,
+  Undo2,
+  User,
+  Wifi,
+  WifiOff,
+  X,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
   AlertDialog,
@@ -29,12 +51,19 @@ import {
   AlertDialogTitle,
 } from '../../components/ui/alert-dialog';
 import { useConfirmDialog, useAlertDialog } from '../../hooks/useConfirmDialog';
+import { usePipeline } from '../../hooks/usePipeline';
+import { useProfiles } from '../../hooks/useProfiles';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
+import { useBackupRestore } from '../sidepanel/hooks/useBackupRestore';
+import { usePassphraseDialog } from '../../hooks/usePassphraseDialog';
+import { createBackup } from '../../utils/backup-schema';
+import { encryptBackup } from '../../utils/backup-crypto';
+import { requestAutoBackup } from '../../utils/auto-backup';
 import {
-  getAllStorageData,
   restoreStorageFromBackup,
   clearAllStorage,
   sidebarCollapsedStorage,
-  userProfileStorage,
+  jobsStorage,
 } from '../../utils/storage';
 import { defaults } from '@/config';
 import type { JobStore } from './hooks/useJobStore';
@@ -53,10 +82,14 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
 
   const [error, _setError] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [isBoardView, setIsBoardView] = useState(false);
   const [isThemeModalOpen, setIsThemeModalOpen] = useState(false);
+  const [isPipelineModalOpen, setIsPipelineModalOpen] = useState(false);
+  const [isTrashModalOpen, setIsTrashModalOpen] = useState(false);
+  const [isAutoBackupModalOpen, setIsAutoBackupModalOpen] = useState(false);
+  const [isImportExportModalOpen, setIsImportExportModalOpen] = useState(false);
   const [isLLMSettingsOpen, setIsLLMSettingsOpen] = useState(false);
   const [llmOverlayDismissed, setLLMOverlayDismissed] = useState(false);
-  const [hasProfile, setHasProfile] = useState(false);
 
   // LLM settings for overlay
   const llmSettings = useLLMSettings();
@@ -68,6 +101,12 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
     closeDialog: closeConfirm,
   } = useConfirmDialog();
   const { alertState, alert: showAlert, closeAlert } = useAlertDialog();
+  const {
+    passphraseState,
+    requestPassphrase,
+    submitPassphrase,
+    closePassphrase,
+  } = usePassphraseDialog();
 
   // Get the current job for fit score calculation
   const currentJob = store.jobs[store.selectedJobIndex];
@@ -77,6 +116,7 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
     useFitScore({
       jobContent: currentJob?.content,
       jobId: currentJob?.id,
+      profileId: currentJob?.profileId,
     });
 
   // Load sidebar open state from storage on mount (stored as "collapsed")
@@ -86,20 +126,9 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
     });
   }, []);
 
-  // Load and watch profile state for animation trigger
-  useEffect(() => {
-    // Initial load
-    userProfileStorage.getValue().then((profile) => {
-      setHasProfile(!!profile?.content?.trim());
-    });
-
-    // Watch for changes
-    const unwatch = userProfileStorage.watch((profile) => {
-      setHasProfile(!!profile?.content?.trim());
-    });
-
-    return unwatch;
-  }, []);
+  // Any profile with content stops the "create a profile" animation
+  const { profiles } = useProfiles();
+  const hasProfile = profiles.some((profile) => profile.content.trim());
 
   // Handle sidebar open change with storage persistence
   const handleSidebarOpenChange = useCallback((open: boolean) => {
@@ -116,7 +145,7 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
    * Handle save field event (generic field updates)
    */
   const handleSaveField = useCallback(
-    async (jobId: string, fieldName: string, value: string) => {
+    async (jobId: string, fieldName: string, value: unknown) => {
       await store.updateJobField(jobId, fieldName, value);
       console.info(`[App] Updated ${fieldName} for job ${jobId}`);
     },
@@ -130,7 +159,8 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
     async (jobId: string) => {
       const confirmed = await confirm({
         title: 'Delete Job',
-        description: 'Are you sure you want to delete this job?',
+        description:
+          'Move this job to the trash? You can restore it from Trash in the dashboard menu.',
         confirmLabel: 'Delete',
         variant: 'destructive',
       });
@@ -192,6 +222,17 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
     [store]
   );
 
+  /**
+   * Handle a card dropped on another board column
+   */
+  const handleMoveJob = useCallback(
+    async (jobId: string, targetStatus: string) => {
+      await store.updateJobField(jobId, 'applicationStatus', targetStatus);
+      console.info(`[App] Moved job ${jobId} to ${targetStatus}`);
+    },
+    [store]
+  );
+
   /**
    * Handle delete document (Drafting view)
    */
@@ -248,101 +289,86 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
   }, []);
 
   /**
-   * Create backup and download as JSON file
+   * Open analytics.html in the current tab
    */
-  const handleCreateBackup = useCallback(async () => {
-    try {
-      const data = await getAllStorageData();
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `sir-hires-backup-${timestamp}.json`;
-
-      // Wrap with metadata for validation
-      const backup = {
-        version: '1.0',
-        exportDate: new Date().toISOString(),
-        data: data,
-      };
-
-      const json = JSON.stringify(backup, null, 2);
-      const blob = new Blob([json], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-
-      // Trigger download
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      console.info(`Backup created: ${filename}`);
-    } catch (err) {
-      console.error('Error creating backup:', err);
-      showAlert({
-        title: 'Backup Failed',
-        description: 'Failed to create backup. See console for details.',
-      });
-    }
-  }, [showAlert]);
+  const handleAnalyticsClick = useCallback(() => {
+    window.location.href = '/analytics.html';
+  }, []);
 
   /**
-   * Restore backup from uploaded JSON file
+   * Create backup and download as JSON file
+   * @param encrypt - Ask for a passphrase and encrypt the backup
    */
-  const handleRestoreBackup = useCallback(() => {
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = '.json';
-
-    input.onchange = async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (!file) return;
-
+  const handleCreateBackup = useCallback(
+    async (encrypt = false) => {
       try {
-        const text = await file.text();
-        const backup = JSON.parse(text);
-
-        // Support both new format (with metadata) and legacy format (raw data)
-        const data = backup.version && backup.data ? backup.data : backup;
-
-        console.info('Backup format detected:', {
-          hasVersion: !!backup.version,
-          hasData: !!backup.data,
-          keys: Object.keys(backup).slice(0, 10),
-        });
-
-        const confirmed = await confirm({
-          title: 'Restore Backup',
-          description:
-            'This will overwrite all current data. Are you sure you want to restore this backup?',
-          confirmLabel: 'Restore',
-          variant: 'destructive',
-        });
-        if (!confirmed) return;
+        let passphrase: string | null = null;
+        if (encrypt) {
+          passphrase = await requestPassphrase({
+            title: 'Create Encrypted Backup',
+            description:
+              'Choose a passphrase to encrypt this backup. It cannot be restored without it, and the passphrase cannot be recovered.',
+            submitLabel: 'Create Backup',
+            requireConfirmation: true,
+          });
+          if (passphrase === null) return;
+        }
 
-        await restoreStorageFromBackup(data);
-        console.info('Backup restored successfully');
-        showAlert({
-          title: 'Backup Restored',
-          description: 'Backup restored! The page will now reload.',
-        });
-        setTimeout(() => window.location.reload(), 1500);
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const filename = passphrase
+          ? `sir-hires-backup-${timestamp}.encrypted.json`
+          : `sir-hires-backup-${timestamp}.json`;
+
+        // Versioned envelope (see utils/backup-schema.ts)
+        const backup = await createBackup();
+        const json = JSON.stringify(
+          passphrase ? await encryptBackup(backup, passphrase) : backup,
+          null,
+          2
+        );
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        // Trigger download
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+
+        console.info(`Backup created: ${filename}`);
       } catch (err) {
-        console.error('Error restoring backup:', err);
-        console.error('Error details:', {
-          message: err instanceof Error ? err.message : String(err),
-          fileName: file.name,
-        });
+        console.error('Error creating backup:', err);
         showAlert({
-          title: 'Restore Failed',
-          description:
-            'Failed to restore backup. Check the console for details. Make sure the file is a valid JSON backup.',
+          title: 'Backup Failed',
+          description: 'Failed to create backup. See console for details.',
         });
       }
-    };
+    },
+    [showAlert, requestPassphrase]
+  );
 
-    input.click();
-  }, [confirm, showAlert]);
+  /**
+   * Restore (overwrite) or merge a backup; both validate the file first
+   */
+  const backupStorageAdapter = useMemo(
+    () => ({
+      restoreBackup: restoreStorageFromBackup,
+      createSafetyBackup: async (reason: 'before-restore' | 'before-merge') => {
+        await requestAutoBackup(reason);
+      },
+      getJobs: () => jobsStorage.getValue(),
+      saveJobs: (jobs: Record<string, Job>) => jobsStorage.setValue(jobs),
+    }),
+    []
+  );
+  const backupDialogs = useMemo(
+    () => ({ confirm, alert: showAlert, requestPassphrase }),
+    [confirm, showAlert, requestPassphrase]
+  );
+  const backup = useBackupRestore(backupStorageAdapter, backupDialogs);
 
   /**
    * Delete all storage data (with double confirmation)
@@ -366,6 +392,20 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
     });
     if (!secondConfirmed) return;
 
+    // Safety backup to the downloads folder; without it, ask again
+    try {
+      await requestAutoBackup('before-clear');
+    } catch (err) {
+      console.error('Error creating safety backup:', err);
+      const deleteAnyway = await confirm({
+        title: 'Safety Backup Failed',
+        description: `A backup of your data could not be saved: ${(err as Error).message}. Delete everything anyway?`,
+        confirmLabel: 'Delete Anyway',
+        variant: 'destructive',
+      });
+      if (!deleteAnyway) return;
+    }
+
     try {
       await clearAllStorage();
       console.info('All storage cleared');
@@ -436,10 +476,16 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
         job={job}
         ResearchingView={ResearchingView}
         DraftingView={DraftingView}
+        AwaitingReviewView={AwaitingReviewView}
+        InterviewingView={InterviewingView}
+        DecidingView={DecidingView}
+        OutcomeView={OutcomeView}
+        allJobs={store.jobs}
         onDeleteJob={handleDeleteJob}
         onSaveField={handleSaveField}
         onSaveDocument={handleSaveDocument}
         onDeleteDocument={handleDeleteDocument}
+        historyRevision={store.historyRevision}
         emptyStateMessage={
           store.jobs.length === 0 ? 'No jobs yet' : 'No job selected'
         }
@@ -519,6 +565,41 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
           >
             {isCalculatingFit ? fitSpinnerChar : ''}
           </span>
+          {/* Undo / redo job changes */}
+          <Button
+            variant="ghost"
+            className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
+            onClick={store.undo}
+            disabled={!store.undoLabel}
+            title={store.undoLabel ? `Undo: ${store.undoLabel}` : 'Undo'}
+            aria-label="Undo"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
+            onClick={store.redo}
+            disabled={!store.redoLabel}
+            title={store.redoLabel ? `Redo: ${store.redoLabel}` : 'Redo'}
+            aria-label="Redo"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          {/* Board / detail view toggle */}
+          <Button
+            variant="ghost"
+            className={cn(
+              'p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center',
+              isBoardView && 'bg-muted text-foreground'
+            )}
+            onClick={() => setIsBoardView(!isBoardView)}
+            title={isBoardView ? 'Show job details' : 'Show board'}
+            aria-label={isBoardView ? 'Show job details' : 'Show board'}
+            aria-pressed={isBoardView}
+          >
+            <SquareKanban className="h-4 w-4" />
+          </Button>
           {/* LLM Connection Status Indicator */}
           <Button
             variant="ghost"
@@ -558,13 +639,41 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
                 label: 'Theme',
                 onClick: () => setIsThemeModalOpen(true),
               },
+              {
+                label: 'Pipeline',
+                onClick: () => setIsPipelineModalOpen(true),
+              },
+              {
+                label: 'Analytics',
+                onClick: handleAnalyticsClick,
+              },
+              {
+                label: 'Trash',
+                onClick: () => setIsTrashModalOpen(true),
+              },
               {
                 label: 'Create Backup',
-                onClick: handleCreateBackup,
+                onClick: () => handleCreateBackup(),
+              },
+              {
+                label: 'Create Encrypted Backup',
+                onClick: () => handleCreateBackup(true),
+              },
+              {
+                label: 'Automatic Backups',
+                onClick: () => setIsAutoBackupModalOpen(true),
               },
               {
                 label: 'Restore Backup',
-                onClick: handleRestoreBackup,
+                onClick: backup.handleRestoreBackup,
+              },
+              {
+                label: 'Merge Backup',
+                onClick: backup.handleMergeBackup,
+              },
+              {
+                label: 'Import & Export',
+                onClick: () => setIsImportExportModalOpen(true),
               },
               {
                 label: 'Delete All',
@@ -624,8 +733,28 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
         </div>
       )}
 
+      {/* Board view - replaces the selector and detail panel */}
+      {isBoardView && (
+        <JobBoard
+          jobs={store.jobs}
+          selectedJobId={store.jobs[store.selectedJobIndex]?.id ?? null}
+          onSelectJob={(jobId) => {
+            selectJob(jobId);
+            setIsBoardView(false);
+          }}
+          onDeleteJob={handleDeleteJob}
+          onMoveJob={handleMoveJob}
+          getParsedJob={getParsedJob}
+        />
+      )}
+
       {/* Main content area */}
-      <div className="flex flex-1 overflow-hidden relative">
+      <div
+        className={cn(
+          'flex flex-1 overflow-hidden relative',
+          isBoardView && 'hidden'
+        )}
+      >
         {/* Job Selector (sidebar) */}
         <JobSelector
           jobs={store.jobs}
@@ -650,6 +779,7 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
           {currentJob && (
             <JobFooter
               status={currentJob.applicationStatus || defaults.status}
+              previousStatus={getPreviousStatus(currentJob)}
               checklist={currentJob.checklist}
               jobId={currentJob.id}
               isChecklistExpanded={store.checklistExpanded}
@@ -716,6 +846,57 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
         isOpen={isThemeModalOpen}
         onClose={() => setIsThemeModalOpen(false)}
       />
+
+      {/* Pipeline Editor Modal */}
+      <PipelineEditorModal
+        isOpen={isPipelineModalOpen}
+        onClose={() => setIsPipelineModalOpen(false)}
+      />
+
+      {/* Trash Modal */}
+      <TrashModal
+        isOpen={isTrashModalOpen}
+        onClose={() => setIsTrashModalOpen(false)}
+        onRestored={() => {
+          setIsTrashModalOpen(false);
+          setIsBoardView(false);
+        }}
+      />
+
+      {/* Automatic Backups Modal */}
+      <AutoBackupModal
+        isOpen={isAutoBackupModalOpen}
+        onClose={() => setIsAutoBackupModalOpen(false)}
+        requestPassphrase={requestPassphrase}
+      />
+
+      {/* Import & Export Modal (Markdown folders, CSV) */}
+      <ImportExportModal
+        isOpen={isImportExportModalOpen}
+        onClose={() => setIsImportExportModalOpen(false)}
+        onImportJobs={backup.mergeImportedJobs}
+      />
+
+      {/* Backup Report Modal - shown when a backup has invalid records */}
+      <BackupReportModal
+        pendingReport={backup.pendingReport}
+        onContinue={backup.continueWithValidData}
+        onCancel={backup.cancelReport}
+      />
+
+      {/* Passphrase prompt for encrypted backups */}
+      <PassphraseDialog
+        state={passphraseState}
+        onSubmit={submitPassphrase}
+        onClose={closePassphrase}
+      />
+
+      {/* Backup Merge Modal */}
+      <BackupMergeModal
+        pendingMerge={backup.pendingMerge}
+        onCommit={backup.commitMerge}
+        onCancel={backup.cancelMerge}
+      />
     </div>
   );
 };
@@ -738,6 +919,12 @@ const AppContent: React.FC<AppContentProps> = ({ store }) => {
 export const App: React.FC = () => {
   const store = useJobStore();
 
+  // Load the configured pipeline (re-renders status helpers when it changes)
+  usePipeline();
+
+  // Ctrl+Z / Ctrl+Shift+Z for job changes (outside text fields)
+  useUndoRedoShortcuts(store.undo, store.redo);
+
   return (
     <ParsedJobProvider jobs={store.jobs}>
       <AppContent store={store} />
@@ -1,6 +1,6 @@
 import React from 'react';
 import * as CollapsiblePrimitive from '@radix-ui/react-collapsible';
-import { statusOrder, getStatusColor } from '@/config';
+import { getStatusOrder, getStatusColor } from '@/config';
 import { cn } from '@/lib/utils';
 import type { ChecklistItem } from '../hooks';
 
@@ -29,6 +29,7 @@ export const Checklist: React.FC<ChecklistProps> = ({
   onToggleItem,
 }) => {
   // Calculate next status color for styling
+  const statusOrder = getStatusOrder();
   const currentIndex = statusOrder.indexOf(status);
   const nextStatus =
     currentIndex >= 0 && currentIndex < statusOrder.length - 1
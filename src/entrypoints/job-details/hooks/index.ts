@@ -19,6 +19,10 @@ export type {
   Job,
   JobDocument,
   ChecklistItem,
+  FollowUp,
+  InterviewRound,
+  JobOutcome,
+  StatusTransition,
   Filters,
   JobState,
   StorageChanges,
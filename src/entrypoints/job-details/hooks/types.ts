@@ -17,9 +17,24 @@ export interface Job {
   id: string;
   content?: string; // Raw MarkdownDB template (source of truth)
   url: string;
+  source?: string; // Job board recorded at extraction (e.g., 'LinkedIn')
   applicationStatus: string;
+  statusHistory?: StatusTransition[]; // Every status change, oldest first
   checklist?: Record<string, ChecklistItem[]>;
   documents?: Record<string, JobDocument>;
+  // Awaiting Review data (set when the application is submitted)
+  appliedAt?: string; // ISO timestamp of submission
+  submittedDocuments?: Record<string, JobDocument>; // Frozen copies of sent documents
+  followUps?: FollowUp[];
+  followUpDraft?: string;
+  // Interviewing data
+  interviewRounds?: InterviewRound[];
+  // Deciding data
+  offer?: string; // Raw <OFFER> MarkdownDB template
+  // Outcome data (Accepted / Rejected / Withdrawn)
+  outcome?: JobOutcome;
+  // Profile used for this job instead of the default profile
+  profileId?: string;
   updatedAt: string;
   createdAt: string;
   // Transient extraction state (not persisted)
@@ -27,6 +42,16 @@ export interface Job {
   extractionError?: string;
 }
 
+/**
+ * Represents a single change of applicationStatus
+ */
+export interface StatusTransition {
+  from: string | null; // null when the job was created
+  to: string;
+  at: string; // ISO timestamp
+  note?: string;
+}
+
 /**
  * Represents a document associated with a job (resume, cover letter, etc.)
  */
@@ -37,6 +62,41 @@ export interface JobDocument {
   order: number;
 }
 
+/**
+ * Represents a follow-up message sent after applying
+ */
+export interface FollowUp {
+  id: string;
+  text: string;
+  sentAt: string;
+}
+
+/**
+ * Represents a single interview round (phone screen, technical, on-site, etc.)
+ */
+export interface InterviewRound {
+  id: string;
+  name: string;
+  scheduledAt: string | null; // ISO timestamp
+  format: string; // One of interviewFormats in config
+  interviewers: string[];
+  prepNotes: string;
+  debriefNotes: string; // How the round went, questions asked
+  outcome: string; // One of interviewOutcomes in config
+  thankYouSent: boolean;
+}
+
+/**
+ * Retrospective data recorded when an application reaches a terminal status
+ */
+export interface JobOutcome {
+  decidedAt: string | null; // ISO timestamp the outcome was reached
+  stage: string; // Pipeline status the application was in (e.g., 'Interviewing')
+  reason: string; // Stated reason (rejection reason, why withdrawn/accepted)
+  feedback: string; // Feedback received from the employer
+  lessonsLearned: string;
+}
+
 /**
  * Represents a checklist item for tracking job application progress
  */
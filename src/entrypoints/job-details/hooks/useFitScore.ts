@@ -1,7 +1,7 @@
 /**
  * useFitScore Hook
  *
- * Calculates fit score when jobInFocus or profile content changes.
+ * Calculates fit score when jobInFocus or the job's profile content changes.
  * Features:
  * - 2s debounce before calculation starts
  * - Cancels previous calculation if inputs change
@@ -13,7 +13,9 @@ import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { fitCalculation } from '@/tasks/fit-calculation';
 import { runTask, startKeepalive } from '@/utils/llm-task-runner';
 import { LLMClient } from '@/utils/llm-client';
-import { llmSettingsStorage, userProfileStorage } from '@/utils/storage';
+import { llmSettingsStorage } from '@/utils/storage';
+import { useJobProfile } from '@/hooks/useProfiles';
+import { recordProfileFitScore } from '@/utils/profile-revisions';
 
 // Braille spinner frames for unicode animation
 const BRAILLE_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
@@ -24,6 +26,8 @@ export interface UseFitScoreOptions {
   jobContent: string | undefined;
   /** Job ID for tracking changes */
   jobId: string | undefined;
+  /** Profile assigned to the job (undefined for the default profile) */
+  profileId?: string;
 }
 
 export interface UseFitScoreResult {
@@ -41,7 +45,7 @@ export interface UseFitScoreResult {
  * Hook to calculate fit score with debouncing and cancellation
  */
 export function useFitScore(options: UseFitScoreOptions): UseFitScoreResult {
-  const { jobContent, jobId } = options;
+  const { jobContent, jobId, profileId } = options;
 
   // State
   const [fitScore, setFitScore] = useState<number | null>(null);
@@ -56,25 +60,10 @@ export function useFitScore(options: UseFitScoreOptions): UseFitScoreResult {
     null
   );
 
-  // Profile content from storage (watched for changes)
-  const [profileContent, setProfileContent] = useState<string | null>(null);
-
-  // Load and watch profile content
-  useEffect(() => {
-    // Initial load
-    userProfileStorage.getValue().then((profile) => {
-      setProfileContent(profile?.content || null);
-    });
-
-    // Watch for changes
-    const unwatch = userProfileStorage.watch((newProfile) => {
-      setProfileContent(newProfile?.content || null);
-    });
-
-    return () => {
-      unwatch();
-    };
-  }, []);
+  // Profile for the job (watched for changes)
+  const jobProfile = useJobProfile(profileId);
+  const jobProfileId = jobProfile?.id;
+  const profileContent = jobProfile?.content || null;
 
   // Spinner animation effect
   useEffect(() => {
@@ -120,7 +109,7 @@ export function useFitScore(options: UseFitScoreOptions): UseFitScoreResult {
     setError(null);
 
     // Skip if missing required inputs
-    if (!jobContent || !profileContent || !jobId) {
+    if (!jobContent || !profileContent || !jobId || !jobProfileId) {
       return;
     }
 
@@ -182,6 +171,15 @@ export function useFitScore(options: UseFitScoreOptions): UseFitScoreResult {
         } else {
           setFitScore(score);
           console.info('[useFitScore] Fit score calculated:', score);
+          // Keep the score with the profile revision it was computed against
+          recordProfileFitScore(
+            jobProfileId,
+            profileContent,
+            jobId,
+            score
+          ).catch((err) =>
+            console.error('[useFitScore] Failed to record fit score:', err)
+          );
         }
       } catch (err) {
         // Don't set error if cancelled
@@ -207,7 +205,7 @@ export function useFitScore(options: UseFitScoreOptions): UseFitScoreResult {
     return () => {
       cancelCalculation();
     };
-  }, [jobContent, profileContent, jobId, cancelCalculation]);
+  }, [jobContent, profileContent, jobProfileId, jobId, cancelCalculation]);
 
   // Memoize spinner character
   const spinnerChar = useMemo(
@@ -1,5 +1,5 @@
 import { useCallback, useMemo } from 'react';
-import { statusOrder, terminalStates } from '@/config';
+import { getPipeline } from '@/config';
 import type { Job, Filters } from './types';
 import {
   parseJobTemplate,
@@ -38,12 +38,16 @@ export interface StatusStats {
  * Replaces the JobService class with React hooks and memoization
  */
 export function useJobService() {
+  // Recomputed whenever the active pipeline is replaced (see usePipeline)
+  const pipeline = getPipeline();
   const config: JobServiceConfig = useMemo(
     () => ({
-      statusOrder,
-      terminalStates,
+      statusOrder: pipeline.statuses.map((s) => s.name),
+      terminalStates: pipeline.statuses
+        .filter((s) => s.terminal)
+        .map((s) => s.name),
     }),
-    []
+    [pipeline]
   );
 
   // ===== Filtering =====
@@ -11,6 +11,8 @@
  * - Functional state updates (avoids stale closures)
  * - Echo cancellation (ignores storage events from our own saves)
  * - Automatic merge of external changes
+ * - Undo/redo of status changes, field edits, checklist toggles and
+ *   document deletions
  *
  * @see docs/refactors/unified-optimistic-store.md for architecture details
  */
@@ -22,17 +24,33 @@ import {
   jobInFocusStorage,
   viewerFiltersStorage,
   checklistExpandedStorage,
+  getJobStorageChange,
   type ViewerFilters,
 } from '../../../utils/storage';
 import { mergeJobs, cleanupRecentSaves } from '../../../utils/job-merge';
-import type { Job, JobDocument, ChecklistItem, Filters } from './types';
-import { checklistTemplates } from '@/config';
+import { recordDocumentSave } from '../../../utils/document-revisions';
+import {
+  createChecklistToggleEntry,
+  createDocumentDeletionEntry,
+  createFieldChangeEntry,
+  pushHistoryEntry,
+  recordHistoryEntry,
+  type JobHistoryEntry,
+} from '../../../utils/job-history';
+import type { Job, JobDocument, Filters } from './types';
+import { getTerminalStates } from '@/config';
 import {
   parseJobTemplate,
   getJobTitle,
   getCompanyName,
 } from '../../../utils/job-parser';
-import { generateJobId, generateItemId } from '../../../utils/shared-utils';
+import { generateJobId } from '../../../utils/shared-utils';
+import { createDefaultChecklist } from '../../../utils/job-import';
+import {
+  freezeDocuments,
+  createOutcome,
+} from '../../../utils/application-utils';
+import { createStatusTransition } from '../../../utils/status-history';
 
 // ============================================================================
 // Types
@@ -53,6 +71,13 @@ export interface JobStoreState {
 
   // Filter state
   filters: Filters;
+
+  // Undo/redo availability (labels describe the next undo/redo)
+  undoLabel: string | null;
+  redoLabel: string | null;
+  // Bumped on every undo/redo so views holding local copies of job fields
+  // can re-read them
+  historyRevision: number;
 }
 
 export interface JobStoreActions {
@@ -106,6 +131,10 @@ export interface JobStoreActions {
   getDocument: (jobId: string, documentKey: string) => JobDocument | undefined;
   getDocumentKeys: (jobId: string) => string[];
 
+  // Undo/redo (status changes, field edits, checklist toggles, document deletions)
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+
   // Reload (for manual refresh)
   reload: () => Promise<void>;
 }
@@ -202,23 +231,64 @@ function createDefaultDocuments(job: Job): Record<string, JobDocument> {
 }
 
 /**
- * Create default checklist for all statuses
+ * Move a job to a new status, applying any status entry side effects
+ * Every change is appended to statusHistory. Entering Awaiting Review for the first time records the submission date
+ * and freezes copies of the documents that were sent. Entering a terminal
+ * status records when the outcome was reached and the stage it was reached at.
  */
-function createDefaultChecklist(): Record<string, ChecklistItem[]> {
-  const checklist: Record<string, ChecklistItem[]> = {};
-
-  Object.keys(checklistTemplates).forEach((status) => {
-    const template =
-      checklistTemplates[status as keyof typeof checklistTemplates];
-    checklist[status] = template.map((item, index) => ({
-      id: generateItemId(status, index),
-      text: item.text,
-      checked: false,
-      order: item.order,
-    }));
-  });
+function applyStatusTransition(job: Job, newStatus: string): Job {
+  if (newStatus === job.applicationStatus) return job;
+
+  const updatedJob: Job = {
+    ...job,
+    applicationStatus: newStatus,
+    statusHistory: [
+      ...(job.statusHistory || []),
+      createStatusTransition(job.applicationStatus, newStatus),
+    ],
+  };
+
+  if (newStatus === 'Awaiting Review' && !job.appliedAt) {
+    updatedJob.appliedAt = new Date().toISOString();
+    updatedJob.submittedDocuments = freezeDocuments(job.documents);
+  }
 
-  return checklist;
+  const terminalStates = getTerminalStates();
+  const wasTerminal = terminalStates.includes(job.applicationStatus);
+  if (terminalStates.includes(newStatus) && !wasTerminal) {
+    // Keep any retrospective already written (e.g., re-opened then closed again)
+    const outcome = createOutcome(job.applicationStatus);
+    updatedJob.outcome = job.outcome
+      ? { ...job.outcome, decidedAt: outcome.decidedAt }
+      : outcome;
+  }
+
+  return updatedJob;
+}
+
+/**
+ * Apply per-job storage changes to a jobs array
+ * Changed jobs are replaced in place, removed jobs (null) are dropped and
+ * unknown jobs are appended
+ */
+function applyJobChanges(
+  jobs: Job[],
+  changedJobs: Record<string, Job | null>
+): Job[] {
+  const seen = new Set<string>();
+  const updated: Job[] = [];
+  for (const job of jobs) {
+    seen.add(job.id);
+    if (!(job.id in changedJobs)) {
+      updated.push(job);
+    } else if (changedJobs[job.id]) {
+      updated.push(changedJobs[job.id]!);
+    }
+  }
+  for (const [id, job] of Object.entries(changedJobs)) {
+    if (job && !seen.has(id)) updated.push(job);
+  }
+  return updated;
 }
 
 // ============================================================================
@@ -238,11 +308,24 @@ export function useJobStore(): JobStore {
     isLoading: true,
     checklistExpanded: false,
     filters: DEFAULT_FILTERS,
+    undoLabel: null,
+    redoLabel: null,
+    historyRevision: 0,
   });
 
   // Track recent saves for echo cancellation
   const recentSavesRef = useRef<Map<string, number>>(new Map());
 
+  // Undo/redo stacks (newest entry last)
+  const undoStackRef = useRef<JobHistoryEntry[]>([]);
+  const redoStackRef = useRef<JobHistoryEntry[]>([]);
+
+  // Latest jobs, for building history entries outside state updaters
+  const jobsRef = useRef<Job[]>([]);
+  useEffect(() => {
+    jobsRef.current = state.jobs;
+  }, [state.jobs]);
+
   // Track if initial load is complete
   const isInitializedRef = useRef(false);
 
@@ -255,15 +338,39 @@ export function useJobStore(): JobStore {
    */
   const persistJob = useCallback(async (job: Job) => {
     try {
-      const jobsObj = await jobsStorage.getValue();
-      jobsObj[job.id] = job;
-      await jobsStorage.setValue(jobsObj);
+      await jobsStorage.setJob(job);
     } catch (error) {
       console.error('[useJobStore] Failed to persist job:', error);
       // TODO: Could implement retry logic or error state here
     }
   }, []);
 
+  /**
+   * Publish the current undo/redo labels to state
+   */
+  const syncHistoryState = useCallback(() => {
+    const undoStack = undoStackRef.current;
+    const redoStack = redoStackRef.current;
+    setState((prev) => ({
+      ...prev,
+      undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+      redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+    }));
+  }, []);
+
+  /**
+   * Record an undoable mutation (a new mutation clears the redo stack)
+   */
+  const recordHistory = useCallback(
+    (entry: JobHistoryEntry | null) => {
+      if (!entry) return;
+      undoStackRef.current = recordHistoryEntry(undoStackRef.current, entry);
+      redoStackRef.current = [];
+      syncHistoryState();
+    },
+    [syncHistoryState]
+  );
+
   /**
    * Update state with new jobs array, recalculating filtered jobs
    */
@@ -341,24 +448,38 @@ export function useJobStore(): JobStore {
     async (jobId: string, fieldName: string, value: unknown) => {
       // For content field, use optimistic update (called frequently during typing)
       if (fieldName === 'content') {
-        updateJob(jobId, { [fieldName]: value } as Partial<Job>);
+        const job = jobsRef.current.find((j) => j.id === jobId);
+        if (job) {
+          recordHistory(
+            createFieldChangeEntry(
+              'Edit job posting',
+              job,
+              { ...job, content: value as string },
+              `${jobId}:content`
+            )
+          );
+        }
+        updateJob(jobId, { content: value as string });
         return;
       }
 
       // For other fields, read fresh data first to avoid overwriting content changes
       // made by useImmediateSave (which updates storage directly)
       try {
-        const jobsObj = await jobsStorage.getValue();
-        const freshJob = jobsObj[jobId];
+        const freshJob = await jobsStorage.getJob(jobId);
 
         if (!freshJob) {
           console.error('[useJobStore] updateJobField: Job not found:', jobId);
           return;
         }
 
+        const changedJob: Job =
+          fieldName === 'applicationStatus'
+            ? applyStatusTransition(freshJob, value as string)
+            : { ...freshJob, [fieldName]: value };
+
         const updatedJob: Job = {
-          ...freshJob,
-          [fieldName]: value,
+          ...changedJob,
           updatedAt: new Date().toISOString(),
         };
 
@@ -366,8 +487,21 @@ export function useJobStore(): JobStore {
         recentSavesRef.current.set(jobId, Date.now());
 
         // Update storage
-        jobsObj[jobId] = updatedJob;
-        await jobsStorage.setValue(jobsObj);
+        await jobsStorage.setJob(updatedJob);
+
+        recordHistory(
+          createFieldChangeEntry(
+            fieldName === 'applicationStatus'
+              ? `Change status to ${value}`
+              : `Edit ${fieldName}`,
+            freshJob,
+            updatedJob,
+            // Views save these fields on every keystroke
+            fieldName === 'applicationStatus'
+              ? undefined
+              : `${jobId}:${fieldName}`
+          )
+        );
 
         // Update local state
         setState((prev) => {
@@ -387,7 +521,7 @@ export function useJobStore(): JobStore {
         console.error('[useJobStore] Failed to update job field:', error);
       }
     },
-    [updateJob]
+    [updateJob, recordHistory]
   );
 
   /**
@@ -593,6 +727,15 @@ export function useJobStore(): JobStore {
    */
   const toggleChecklistItem = useCallback(
     async (jobId: string, status: string, itemId: string) => {
+      const item = jobsRef.current
+        .find((j) => j.id === jobId)
+        ?.checklist?.[status]?.find((i) => i.id === itemId);
+      if (item) {
+        recordHistory(
+          createChecklistToggleEntry(jobId, status, itemId, !item.checked)
+        );
+      }
+
       setState((prev) => {
         const jobIndex = prev.jobs.findIndex((j) => j.id === jobId);
         if (jobIndex === -1) return prev;
@@ -627,7 +770,7 @@ export function useJobStore(): JobStore {
         };
       });
     },
-    [persistJob]
+    [persistJob, recordHistory]
   );
 
   /**
@@ -738,8 +881,12 @@ export function useJobStore(): JobStore {
         // Mark as recently saved
         recentSavesRef.current.set(jobId, Date.now());
 
-        // Persist
+        // Persist, and version the text in document history (throttled)
         persistJob(updatedJob);
+        const savedDocument = updatedDocuments[documentKey];
+        if (savedDocument.text !== undefined) {
+          recordDocumentSave(jobId, documentKey, savedDocument);
+        }
 
         return {
           ...prev,
@@ -756,6 +903,15 @@ export function useJobStore(): JobStore {
    */
   const deleteDocument = useCallback(
     async (jobId: string, documentKey: string) => {
+      const document = jobsRef.current.find((j) => j.id === jobId)?.documents?.[
+        documentKey
+      ];
+      if (document) {
+        recordHistory(
+          createDocumentDeletionEntry(jobId, documentKey, document)
+        );
+      }
+
       setState((prev) => {
         const jobIndex = prev.jobs.findIndex((j) => j.id === jobId);
         if (jobIndex === -1) return prev;
@@ -794,7 +950,7 @@ export function useJobStore(): JobStore {
         };
       });
     },
-    [persistJob]
+    [persistJob, recordHistory]
   );
 
   /**
@@ -831,6 +987,89 @@ export function useJobStore(): JobStore {
     [state.jobs]
   );
 
+  // ---------------------------------------------------------------------------
+  // Undo / Redo
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Apply a history operation to the freshest stored copy of its job
+   * Marked as a recent save like any other mutation, so the storage echo is
+   * ignored by mergeJobs and cannot bounce the job back to the old version.
+   * @returns false if the job no longer exists (e.g., moved to the trash)
+   */
+  const applyHistoryOperation = useCallback(
+    async (jobId: string, operation: (job: Job) => Job): Promise<boolean> => {
+      const freshJob = await jobsStorage.getJob(jobId);
+      if (!freshJob) return false;
+
+      const updatedJob: Job = {
+        ...operation(freshJob),
+        updatedAt: new Date().toISOString(),
+      };
+
+      recentSavesRef.current.set(jobId, Date.now());
+      await jobsStorage.setJob(updatedJob);
+
+      setState((prev) => {
+        const jobIndex = prev.jobs.findIndex((j) => j.id === jobId);
+        if (jobIndex === -1) return prev;
+
+        const newJobs = [...prev.jobs];
+        newJobs[jobIndex] = updatedJob;
+
+        return {
+          ...prev,
+          jobs: newJobs,
+          filteredJobs: applyFilters(newJobs, prev.filters),
+          historyRevision: prev.historyRevision + 1,
+        };
+      });
+      return true;
+    },
+    []
+  );
+
+  /**
+   * Undo the most recent mutation
+   * Entries whose job no longer exists are discarded.
+   */
+  const undo = useCallback(async () => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry) return;
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+
+    try {
+      if (await applyHistoryOperation(entry.jobId, entry.undo)) {
+        redoStackRef.current = pushHistoryEntry(redoStackRef.current, entry);
+      } else {
+        console.warn('[useJobStore] undo: Job not found:', entry.jobId);
+      }
+    } catch (error) {
+      console.error('[useJobStore] Failed to undo:', error);
+    }
+    syncHistoryState();
+  }, [applyHistoryOperation, syncHistoryState]);
+
+  /**
+   * Redo the most recently undone mutation
+   */
+  const redo = useCallback(async () => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!entry) return;
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+
+    try {
+      if (await applyHistoryOperation(entry.jobId, entry.redo)) {
+        undoStackRef.current = pushHistoryEntry(undoStackRef.current, entry);
+      } else {
+        console.warn('[useJobStore] redo: Job not found:', entry.jobId);
+      }
+    } catch (error) {
+      console.error('[useJobStore] Failed to redo:', error);
+    }
+    syncHistoryState();
+  }, [applyHistoryOperation, syncHistoryState]);
+
   // ---------------------------------------------------------------------------
   // Reload
   // ---------------------------------------------------------------------------
@@ -885,20 +1124,25 @@ export function useJobStore(): JobStore {
       namespace: string
     ) => {
       if (namespace !== 'local') return;
-      if (!changes.jobs && !changes.jobInFocus) return;
+      const jobChange = getJobStorageChange(changes);
+      if (!jobChange && !changes.jobInFocus) return;
 
       // Clean up old entries from recent saves
       cleanupRecentSaves(recentSavesRef.current, CLEANUP_INTERVAL_MS);
 
       try {
+        // Only re-read every job when jobs were added or removed; otherwise
+        // the event already carries the few jobs that changed
         const [jobsObj, focusId] = await Promise.all([
-          jobsStorage.getValue(),
+          jobChange?.indexChanged ? jobsStorage.getValue() : null,
           jobInFocusStorage.getValue(),
         ]);
 
-        const remoteJobs = Object.values(jobsObj);
-
         setState((currentState) => {
+          const remoteJobs = jobsObj
+            ? Object.values(jobsObj)
+            : applyJobChanges(currentState.jobs, jobChange?.changedJobs ?? {});
+
           // Use merge logic with echo cancellation
           const mergedJobs = mergeJobs(
             currentState.jobs,
@@ -979,6 +1223,10 @@ export function useJobStore(): JobStore {
     getDocument,
     getDocumentKeys,
 
+    // Undo/redo
+    undo,
+    redo,
+
     // Reload
     reload,
   };
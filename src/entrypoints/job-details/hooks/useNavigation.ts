@@ -1,5 +1,5 @@
 import { useCallback } from 'react';
-import { statusOrder, defaults } from '@/config';
+import { getStatusOrder as getPipelineOrder, defaults } from '@/config';
 import type { Job } from './types';
 
 export interface NavigationHookParams {
@@ -29,7 +29,7 @@ export function useNavigation(params: NavigationHookParams) {
    * Get the order index of a status
    */
   const getStatusOrder = useCallback((status: string): number => {
-    const index = statusOrder.indexOf(status);
+    const index = getPipelineOrder().indexOf(status);
     return index === -1 ? 0 : index;
   }, []);
 
@@ -49,6 +49,7 @@ export function useNavigation(params: NavigationHookParams) {
   const getNextStatus = useCallback(
     (currentStatus: string): string | null => {
       const currentIndex = getStatusOrder(currentStatus);
+      const statusOrder = getPipelineOrder();
       if (currentIndex < statusOrder.length - 1) {
         return statusOrder[currentIndex + 1];
       }
@@ -64,7 +65,7 @@ export function useNavigation(params: NavigationHookParams) {
     (currentStatus: string): string | null => {
       const currentIndex = getStatusOrder(currentStatus);
       if (currentIndex > 0) {
-        return statusOrder[currentIndex - 1];
+        return getPipelineOrder()[currentIndex - 1];
       }
       return null;
     },
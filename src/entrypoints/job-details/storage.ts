@@ -1,11 +1,10 @@
 // Storage operations module - handles all browser.storage.local interactions
 
-import { checklistTemplates } from '@/config';
+import { getChecklistTemplates, getStatusOrder } from '@/config';
 import type { Job, JobDocument, ChecklistItem, Filters } from './hooks';
 import { generateJobId, generateItemId } from '../../utils/shared-utils';
-
-// Type for checklist templates
-type ChecklistTemplateStatus = keyof typeof checklistTemplates;
+import { jobsStorage, type NamedProfile } from '../../utils/storage';
+import { getProfileForJob, saveProfileContent } from '../../utils/profiles';
 
 // Storage change callback type
 export type StorageChangeCallback = (
@@ -42,29 +41,28 @@ export class StorageService {
     documentData: { title?: string; text?: string }
   ): Promise<void> {
     try {
-      const result = await browser.storage.local.get('jobs');
-      const jobsObj: Record<string, Job> = result.jobs || {};
+      const job = await jobsStorage.getJob(jobId);
 
-      if (!jobsObj[jobId]) {
+      if (!job) {
         throw new Error(`Job ${jobId} not found`);
       }
 
       // Initialize empty documents object if needed (no default documents)
-      if (!jobsObj[jobId].documents) {
-        jobsObj[jobId].documents = {};
+      if (!job.documents) {
+        job.documents = {};
       }
 
       // Update the document
-      jobsObj[jobId].documents![documentKey] = {
-        ...jobsObj[jobId].documents![documentKey],
+      job.documents[documentKey] = {
+        ...job.documents[documentKey],
         ...documentData,
         lastEdited: new Date().toISOString(),
       };
 
       // Update job timestamp
-      jobsObj[jobId].updatedAt = new Date().toISOString();
+      job.updatedAt = new Date().toISOString();
 
-      await browser.storage.local.set({ jobs: jobsObj });
+      await jobsStorage.setJob(job);
     } catch (error) {
       console.error('Failed to save document:', error);
       throw error;
@@ -98,10 +96,7 @@ export class StorageService {
     const checklist: Record<string, ChecklistItem[]> = {};
 
     // Create checklist arrays for each status
-    Object.keys(checklistTemplates).forEach((status) => {
-      const template =
-        checklistTemplates[status as ChecklistTemplateStatus] || [];
-
+    Object.entries(getChecklistTemplates()).forEach(([status, template]) => {
       // Create checklist items with unique IDs
       checklist[status] = template.map(
         (templateItem: { text: string; order: number }, index: number) => ({
@@ -120,9 +115,11 @@ export class StorageService {
    * Initialize checklist for a specific status (used for adding missing statuses)
    */
   initializeChecklistForStatus(status: string): ChecklistItem[] {
+    const checklistTemplates = getChecklistTemplates();
     const template =
-      checklistTemplates[status as ChecklistTemplateStatus] ||
-      checklistTemplates['Researching'];
+      checklistTemplates[status] ||
+      checklistTemplates[getStatusOrder()[0]] ||
+      [];
 
     // Create checklist items with unique IDs
     return template.map(
@@ -142,8 +139,7 @@ export class StorageService {
    */
   async getAllJobs(): Promise<Job[]> {
     try {
-      const result = await browser.storage.local.get('jobs');
-      const jobsObj: Record<string, Job> = result.jobs || {};
+      const jobsObj = await jobsStorage.getValue();
 
       // Convert object to array and ensure all jobs have an ID
       const jobsArray = Object.values(jobsObj).map((job: Job) => {
@@ -177,7 +173,7 @@ export class StorageService {
         }
       });
 
-      await browser.storage.local.set({ jobs: jobsObj });
+      await jobsStorage.setValue(jobsObj);
     } catch (error) {
       console.error('Failed to save jobs:', error);
       throw error;
@@ -189,12 +185,7 @@ export class StorageService {
    */
   async updateJob(jobId: string, jobData: Job): Promise<void> {
     try {
-      const result = await browser.storage.local.get('jobs');
-      const jobsObj: Record<string, Job> = result.jobs || {};
-
-      jobsObj[jobId] = jobData;
-
-      await browser.storage.local.set({ jobs: jobsObj });
+      await jobsStorage.setJob({ ...jobData, id: jobId });
     } catch (error) {
       console.error('Failed to update job:', error);
       throw error;
@@ -206,12 +197,7 @@ export class StorageService {
    */
   async deleteJob(jobId: string): Promise<void> {
     try {
-      const result = await browser.storage.local.get('jobs');
-      const jobsObj: Record<string, Job> = result.jobs || {};
-
-      delete jobsObj[jobId];
-
-      await browser.storage.local.set({ jobs: jobsObj });
+      await jobsStorage.removeJob(jobId);
     } catch (error) {
       console.error('Failed to delete job:', error);
       throw error;
@@ -267,12 +253,11 @@ export class StorageService {
   // ===== Master Resume Operations =====
 
   /**
-   * Get master resume from storage
+   * Get master resume (the default profile) from storage
    */
-  async getMasterResume(): Promise<Record<string, unknown> | null> {
+  async getMasterResume(): Promise<NamedProfile | null> {
     try {
-      const result = await browser.storage.local.get('userProfile');
-      return result.userProfile || null;
+      return await getProfileForJob();
     } catch (error) {
       console.error('Failed to load user profile:', error);
       return null;
@@ -280,11 +265,12 @@ export class StorageService {
   }
 
   /**
-   * Set/save master resume to storage
+   * Set/save master resume (the default profile) to storage
    */
-  async setMasterResume(resumeData: Record<string, unknown>): Promise<void> {
+  async setMasterResume(content: string): Promise<void> {
     try {
-      await browser.storage.local.set({ userProfile: resumeData });
+      const profile = await getProfileForJob();
+      if (profile) await saveProfileContent(profile.id, content);
     } catch (error) {
       console.error('Failed to save user profile:', error);
       throw error;
@@ -0,0 +1,318 @@
+import React, { useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { useParsedJob } from '@/components/features/ParsedJobProvider';
+import { useImmediateSave } from '@/hooks/useImmediateSave';
+import { getJobTitle, getCompanyName } from '@/utils/job-parser';
+import { countWords } from '@/utils/text-utils';
+import { exportMarkdown } from '@/utils/export-utils';
+import {
+  FOLLOW_UP_REMINDER_DAYS,
+  buildFollowUpDraft,
+  freezeDocuments,
+  fromDateInputValue,
+  getDaysSince,
+  toDateInputValue,
+} from '@/utils/application-utils';
+import { Copy, FileDown, Send, Snowflake, Undo2 } from 'lucide-react';
+import type { Job, FollowUp } from '../hooks';
+
+interface AwaitingReviewViewProps {
+  job: Job;
+  onDeleteJob: (jobId: string) => void;
+  onSaveField: (
+    jobId: string,
+    fieldName: string,
+    value: unknown
+  ) => void | Promise<void>;
+  /** Changes on undo/redo */
+  historyRevision?: number;
+  onSaveDocument: (
+    jobId: string,
+    documentKey: string,
+    documentData: { title: string; text: string }
+  ) => void;
+}
+
+/**
+ * AwaitingReviewView - Content-only view for submitted applications
+ *
+ * Shows the submission date, days since applying, the frozen copies of the
+ * documents that were sent, and a follow-up composer.
+ * Header and footer are handled by JobViewRouter.
+ */
+export const AwaitingReviewView: React.FC<AwaitingReviewViewProps> = ({
+  job,
+  onSaveField,
+  onSaveDocument,
+  historyRevision = 0,
+}) => {
+  // Parse job content on-read (MarkdownDB pattern) using cached provider
+  const parsed = useParsedJob(job.id);
+  const jobTitle = (parsed && getJobTitle(parsed)) || 'open';
+  const company = (parsed && getCompanyName(parsed)) || 'your company';
+
+  const daysSinceApplied = getDaysSince(job.appliedAt);
+  const followUps = useMemo(() => job.followUps || [], [job.followUps]);
+  const lastFollowUp = followUps[followUps.length - 1];
+  const daysSinceContact = getDaysSince(lastFollowUp?.sentAt ?? job.appliedAt);
+  const isFollowUpDue =
+    daysSinceContact !== null && daysSinceContact >= FOLLOW_UP_REMINDER_DAYS;
+
+  // Sent documents sorted by their original tab order
+  const submittedKeys = useMemo(() => {
+    const docs = job.submittedDocuments || {};
+    return Object.keys(docs).sort(
+      (a, b) => (docs[a]?.order ?? 999) - (docs[b]?.order ?? 999)
+    );
+  }, [job.submittedDocuments]);
+
+  const hasDrafts = useMemo(
+    () => Object.keys(freezeDocuments(job.documents)).length > 0,
+    [job.documents]
+  );
+
+  // Immediate-save hook for the follow-up draft
+  // Uses resetKey to re-initialize only when switching jobs or undoing (not on storage reload)
+  const { value: draft, setValue: setDraft } = useImmediateSave({
+    initialValue:
+      job.followUpDraft ?? buildFollowUpDraft(jobTitle, company, job.appliedAt),
+    onSave: (value) => onSaveField(job.id, 'followUpDraft', value),
+    resetKey: `${job.id}:${historyRevision}`,
+  });
+
+  const handleAppliedDateChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const iso = fromDateInputValue(e.target.value);
+      if (iso) {
+        onSaveField(job.id, 'appliedAt', iso);
+      }
+    },
+    [job.id, onSaveField]
+  );
+
+  // Legacy jobs moved to Awaiting Review before snapshots existed
+  // Sequential: each save reads and rewrites the stored job, so concurrent
+  // saves would drop one of the fields
+  const handleFreezeDocuments = useCallback(async () => {
+    await onSaveField(
+      job.id,
+      'submittedDocuments',
+      freezeDocuments(job.documents)
+    );
+    if (!job.appliedAt) {
+      await onSaveField(job.id, 'appliedAt', new Date().toISOString());
+    }
+  }, [job.id, job.documents, job.appliedAt, onSaveField]);
+
+  const handleRestoreToDrafts = useCallback(
+    (documentKey: string) => {
+      const doc = job.submittedDocuments?.[documentKey];
+      if (!doc) return;
+      onSaveDocument(job.id, documentKey, { title: doc.title, text: doc.text });
+    },
+    [job.id, job.submittedDocuments, onSaveDocument]
+  );
+
+  const handleResetDraft = useCallback(() => {
+    setDraft(buildFollowUpDraft(jobTitle, company, job.appliedAt));
+  }, [setDraft, jobTitle, company, job.appliedAt]);
+
+  const handleCopyDraft = useCallback(async () => {
+    try {
+      await window.navigator.clipboard.writeText(draft);
+    } catch (error) {
+      console.error('[AwaitingReviewView] Failed to copy follow-up:', error);
+    }
+  }, [draft]);
+
+  // Clearing the draft saves it too: wait for the follow-up to land first
+  const handleMarkSent = useCallback(async () => {
+    if (!draft.trim()) return;
+
+    const followUp: FollowUp = {
+      id: `followup_${Date.now()}`,
+      text: draft.trim(),
+      sentAt: new Date().toISOString(),
+    };
+    await onSaveField(job.id, 'followUps', [...followUps, followUp]);
+    setDraft('');
+  }, [draft, followUps, job.id, onSaveField, setDraft]);
+
+  return (
+    <div className="flex flex-col h-full gap-4 overflow-y-auto p-4">
+      {/* Submission summary */}
+      <Card>
+        <CardContent className="flex items-center justify-between gap-6 pt-6">
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor="appliedAt"
+              className="text-sm font-medium text-muted-foreground"
+            >
+              Applied on
+            </label>
+            <Input
+              id="appliedAt"
+              type="date"
+              className="w-44"
+              value={toDateInputValue(job.appliedAt)}
+              onChange={handleAppliedDateChange}
+            />
+          </div>
+          <div className="text-right">
+            <div className="text-3xl font-semibold text-foreground">
+              {daysSinceApplied ?? '—'}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {daysSinceApplied === 1 ? 'day' : 'days'} since applying
+            </div>
+          </div>
+        </CardContent>
+        {isFollowUpDue && (
+          <div className="px-6 pb-4 text-sm text-primary">
+            It&apos;s been {daysSinceContact} days without a response. Consider
+            sending a follow-up.
+          </div>
+        )}
+      </Card>
+
+      {/* Documents that were sent */}
+      <Card>
+        <CardContent className="pt-6">
+          <h3 className="text-base font-semibold text-foreground mb-2">
+            Sent Documents
+          </h3>
+          {submittedKeys.length === 0 ? (
+            <div className="flex flex-col items-start gap-3 text-sm text-muted-foreground">
+              <p>
+                No documents were recorded for this application. Freeze your
+                current drafts to keep a copy of what you sent.
+              </p>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleFreezeDocuments}
+                disabled={!hasDrafts}
+              >
+                <Snowflake className="h-4 w-4" />
+                Freeze Current Drafts
+              </Button>
+            </div>
+          ) : (
+            <Accordion type="multiple">
+              {submittedKeys.map((key) => {
+                const doc = job.submittedDocuments![key];
+                return (
+                  <AccordionItem key={key} value={key}>
+                    <AccordionTrigger>
+                      <span className="flex-1 text-left">{doc.title}</span>
+                      <span className="text-sm font-normal text-muted-foreground mr-2">
+                        {countWords(doc.text)} words
+                      </span>
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <pre className="whitespace-pre-wrap font-mono text-sm bg-muted rounded p-3 max-h-80 overflow-y-auto">
+                        {doc.text}
+                      </pre>
+                      <div className="flex gap-2 mt-3">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => exportMarkdown(doc)}
+                        >
+                          <FileDown className="h-4 w-4" />
+                          Export
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRestoreToDrafts(key)}
+                          title="Replace the current draft with the version that was sent"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                          Restore to Drafts
+                        </Button>
+                      </div>
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Follow-up composer */}
+      <Card>
+        <CardContent className="pt-6 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold text-foreground">
+              Follow-up
+            </h3>
+            <Button variant="link" size="sm" onClick={handleResetDraft}>
+              Use template
+            </Button>
+          </div>
+          <Textarea
+            id="followUpEditor"
+            data-job-id={job.id}
+            className="min-h-48 font-mono text-sm"
+            placeholder="Write a follow-up message..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleCopyDraft}
+              disabled={!draft.trim()}
+            >
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleMarkSent}
+              disabled={!draft.trim()}
+            >
+              <Send className="h-4 w-4" />
+              Mark as Sent
+            </Button>
+          </div>
+
+          {followUps.length > 0 && (
+            <div className="flex flex-col gap-2 border-t border-border pt-3">
+              <div className="text-sm font-medium text-muted-foreground">
+                Sent follow-ups
+              </div>
+              {[...followUps].reverse().map((followUp) => (
+                <details key={followUp.id} className="text-sm">
+                  <summary className="cursor-pointer text-foreground">
+                    {new Date(followUp.sentAt).toLocaleDateString()}
+                    <span className="text-muted-foreground">
+                      {' '}
+                      — {followUp.text.split('\n').find((l) => l.trim()) || ''}
+                    </span>
+                  </summary>
+                  <pre className="whitespace-pre-wrap font-mono text-sm bg-muted rounded p-3 mt-2">
+                    {followUp.text}
+                  </pre>
+                </details>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { useImmediateSave } from '@/hooks/useImmediateSave';
+import { useDebounce } from '../hooks';
+import { ValidatedEditor } from '@/components/ui/ValidatedEditor';
+import { Card, CardContent } from '@/components/ui/card';
+import { useGetParsedJob } from '@/components/features/ParsedJobProvider';
+import { getJobTitle, getCompanyName } from '@/utils/job-parser';
+import {
+  OFFER_TEMPLATE,
+  calculateTotalCompensation,
+  formatCompensation,
+  getOfferField,
+  parseOfferTemplate,
+  type CompensationBreakdown,
+} from '@/utils/offer-parser';
+import {
+  validateOfferTemplate,
+  type OfferValidationResult,
+} from '@/utils/offer-validator';
+import type { ValidationFix } from '@/utils/validation-types';
+import { applyFix, setCursorAndScroll } from '@/utils/profile-utils';
+import { cn } from '@/lib/utils';
+import type { Job } from '../hooks';
+
+interface DecidingViewProps {
+  job: Job;
+  allJobs: Job[];
+  onDeleteJob: (jobId: string) => void;
+  onSaveField: (jobId: string, fieldName: string, value: unknown) => void;
+  /** Changes on undo/redo */
+  historyRevision?: number;
+}
+
+/**
+ * Statuses whose offers are included in the comparison table
+ */
+const COMPARED_STATUSES = ['Deciding', 'Accepted'];
+
+interface OfferComparisonRow {
+  jobId: string;
+  label: string;
+  status: string;
+  startDate: string | null;
+  compensation: CompensationBreakdown;
+}
+
+/**
+ * DecidingView - Content-only view for evaluating offers
+ *
+ * Renders an <OFFER> MarkdownDB editor with validation, the annualized total
+ * compensation for this offer, and a side-by-side comparison with every other
+ * job in Deciding or Accepted.
+ * Header and footer are handled by JobViewRouter.
+ */
+export const DecidingView: React.FC<DecidingViewProps> = ({
+  job,
+  allJobs,
+  onSaveField,
+  historyRevision = 0,
+}) => {
+  const getParsedJob = useGetParsedJob();
+
+  // Immediate-save hook: saves to storage on every change
+  // Uses resetKey to re-initialize only when switching jobs or undoing (not on storage reload)
+  const { value: offerContent, setValue: setOfferContent } = useImmediateSave({
+    initialValue: job.offer ?? OFFER_TEMPLATE,
+    onSave: (value) => onSaveField(job.id, 'offer', value),
+    resetKey: `${job.id}:${historyRevision}`,
+  });
+
+  // Debounced validation (matches the job editor)
+  const [validation, setValidation] = useState<OfferValidationResult | null>(
+    () => validateOfferTemplate(parseOfferTemplate(offerContent))
+  );
+  useDebounce(
+    () => {
+      setValidation(validateOfferTemplate(parseOfferTemplate(offerContent)));
+    },
+    500,
+    [offerContent]
+  );
+
+  const compensation = useMemo(
+    () => calculateTotalCompensation(parseOfferTemplate(offerContent)),
+    [offerContent]
+  );
+
+  // Build comparison rows from every job with an offer in a compared status
+  // Uses the live editor content for the current job so the table updates as you type
+  const comparisonRows = useMemo(() => {
+    const rows: OfferComparisonRow[] = [];
+
+    for (const candidate of allJobs) {
+      if (!COMPARED_STATUSES.includes(candidate.applicationStatus)) continue;
+
+      const content = candidate.id === job.id ? offerContent : candidate.offer;
+      if (!content) continue;
+
+      const parsedOffer = parseOfferTemplate(content);
+      const rowCompensation = calculateTotalCompensation(parsedOffer);
+      if (!rowCompensation) continue;
+
+      const parsedJob = getParsedJob(candidate.id);
+      const title =
+        (parsedJob && getJobTitle(parsedJob)) || 'Untitled Position';
+      const company =
+        (parsedJob && getCompanyName(parsedJob)) || 'Unknown Company';
+
+      rows.push({
+        jobId: candidate.id,
+        label: `${company} — ${title}`,
+        status: candidate.applicationStatus,
+        startDate: getOfferField(parsedOffer, 'START_DATE'),
+        compensation: rowCompensation,
+      });
+    }
+
+    return rows.sort(
+      (a, b) => b.compensation.annualTotal - a.compensation.annualTotal
+    );
+  }, [allJobs, job.id, offerContent, getParsedJob]);
+
+  // Ref for the textarea element (for cursor positioning after fix)
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const handleApplyFix = useCallback(
+    (fix: ValidationFix) => {
+      const result = applyFix(fix, offerContent, undefined, 'OFFER');
+      if (result) {
+        setOfferContent(result.newContent);
+        // Set cursor position after React re-renders
+        requestAnimationFrame(() => {
+          if (textareaRef.current) {
+            setCursorAndScroll(
+              textareaRef.current,
+              result.newContent,
+              result.cursorPosition
+            );
+          }
+        });
+      }
+    },
+    [offerContent, setOfferContent]
+  );
+
+  // Build validation messages for ValidatedEditor (with fix support)
+  const validationMessages = [
+    ...(validation?.errors.map((e) => ({
+      type: 'error' as const,
+      message: e.message,
+      fix: e.fix,
+    })) || []),
+    ...(validation?.warnings.map((w) => ({
+      type: 'warning' as const,
+      message: w.message,
+      fix: w.fix,
+    })) || []),
+  ];
+
+  return (
+    <div className="flex flex-col h-full gap-4 overflow-y-auto p-4">
+      {compensation && (
+        <Card>
+          <CardContent className="grid grid-cols-2 sm:grid-cols-5 gap-4 pt-6 text-sm">
+            <CompensationStat
+              label="Base"
+              value={formatCompensation(
+                compensation.base,
+                compensation.currency
+              )}
+            />
+            <CompensationStat
+              label="Bonus"
+              value={formatCompensation(
+                compensation.bonus,
+                compensation.currency
+              )}
+            />
+            <CompensationStat
+              label="Equity / yr"
+              value={formatCompensation(
+                compensation.equityPerYear,
+                compensation.currency
+              )}
+            />
+            <CompensationStat
+              label="Signing"
+              value={formatCompensation(
+                compensation.signingBonus,
+                compensation.currency
+              )}
+            />
+            <CompensationStat
+              label="Total / yr"
+              value={formatCompensation(
+                compensation.annualTotal,
+                compensation.currency
+              )}
+              emphasized
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <ValidatedEditor
+        ref={textareaRef}
+        id="offerEditor"
+        data-job-id={job.id}
+        value={offerContent}
+        onChange={setOfferContent}
+        isValid={validation?.valid}
+        hasErrors={(validation?.errors?.length ?? 0) > 0}
+        validationMessages={validationMessages}
+        onApplyFix={handleApplyFix}
+        minHeight="300px"
+      />
+
+      {comparisonRows.length > 1 && (
+        <Card>
+          <CardContent className="pt-6 overflow-x-auto">
+            <h3 className="text-base font-semibold text-foreground mb-3">
+              Offer Comparison
+            </h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Offer</th>
+                  <th className="py-2 pr-4 font-medium text-right">Base</th>
+                  <th className="py-2 pr-4 font-medium text-right">Bonus</th>
+                  <th className="py-2 pr-4 font-medium text-right">
+                    Equity / yr
+                  </th>
+                  <th className="py-2 pr-4 font-medium text-right">Signing</th>
+                  <th className="py-2 pr-4 font-medium text-right">
+                    Total / yr
+                  </th>
+                  <th className="py-2 font-medium">Start</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparisonRows.map((row) => {
+                  const { currency } = row.compensation;
+                  return (
+                    <tr
+                      key={row.jobId}
+                      className={cn(
+                        'border-b border-border last:border-0',
+                        row.jobId === job.id && 'bg-muted font-medium'
+                      )}
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="text-foreground">{row.label}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.status}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCompensation(row.compensation.base, currency)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCompensation(row.compensation.bonus, currency)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCompensation(
+                          row.compensation.equityPerYear,
+                          currency
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCompensation(
+                          row.compensation.signingBonus,
+                          currency
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-semibold text-foreground">
+                        {formatCompensation(
+                          row.compensation.annualTotal,
+                          currency
+                        )}
+                      </td>
+                      <td className="py-2 text-muted-foreground">
+                        {row.startDate || '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Single labeled value in the compensation summary
+ */
+const CompensationStat: React.FC<{
+  label: string;
+  value: string;
+  emphasized?: boolean;
+}> = ({ label, value, emphasized }) => (
+  <div className="flex flex-col gap-0.5">
+    <span className="text-muted-foreground">{label}</span>
+    <span
+      className={cn(
+        'text-foreground',
+        emphasized ? 'text-lg font-semibold' : 'font-medium'
+      )}
+    >
+      {value}
+    </span>
+  </div>
+);
@@ -12,12 +12,14 @@ import {
   type DocumentTemplateKey,
 } from '@/components/features/NewDocumentModal';
 import { SaveDocumentTemplateModal } from '@/components/features/SaveDocumentTemplateModal';
+import { DocumentHistoryModal } from '@/components/features/DocumentHistoryModal';
 import { PDFStylePreviewModal } from '@/components/features/PDFStylePreviewModal';
 import { EditorToolbar } from '@/components/features/EditorToolbar';
 import { EditorContentPanel } from '@/components/features/EditorContentPanel';
 import { StreamingTextarea } from '@/components/ui/StreamingTextarea';
 import { EditorFooter } from '@/components/features/EditorFooter';
 import { SynthesisFooter } from '@/components/features/SynthesisFooter';
+import { JobProfileSelect } from '@/components/features/JobProfileSelect';
 import { getRandomTone } from '@/utils/synthesis-utils';
 import { useParsedJob } from '@/components/features/ParsedJobProvider';
 import { getJobTitle, getCompanyName } from '@/utils/job-parser';
@@ -27,11 +29,12 @@ import { countWords } from '@/utils/text-utils';
 import { exportMarkdown, exportPDF } from '@/utils/export-utils';
 import type { PDFStyle } from '@/utils/pdf-styles';
 import { useImmediateSaveMulti } from '@/hooks/useImmediateSave';
+import { saveDocumentRevision } from '@/utils/document-revisions';
 import { useTabState } from '../hooks/useTabState';
 import { useDocumentManager } from '../hooks/useDocumentManager';
 import { useCustomDocumentTemplates } from '@/hooks/useCustomDocumentTemplates';
 import { LLMClient } from '@/utils/llm-client';
-import { userProfileStorage } from '@/utils/storage';
+import { useProfiles, useJobProfile } from '@/hooks/useProfiles';
 import { useLLMSettings } from '@/hooks/useLLMSettings';
 import {
   DEFAULT_MODEL,
@@ -45,7 +48,7 @@ import type { Job } from '../hooks';
 interface DraftingViewProps {
   job: Job;
   onDeleteJob: (_jobId: string) => void;
-  onSaveField: (jobId: string, fieldName: string, value: string) => void;
+  onSaveField: (jobId: string, fieldName: string, value: unknown) => void;
   onSaveDocument: (
     _jobId: string,
     _documentKey: string,
@@ -118,10 +121,13 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
   const [tone, setTone] = useState(() => getRandomTone());
   const [isSynthesizing, setIsSynthesizing] = useState(false);
   const [synthesisError, setSynthesisError] = useState<string | null>(null);
-  const [userProfile, setUserProfile] = useState('');
+
+  // Profile assigned to this job (falls back to the default profile)
+  const { profiles, defaultProfileId } = useProfiles();
+  const userProfile = useJobProfile(job.profileId)?.content || '';
 
   // Derived state
-  const hasProfile = userProfile && userProfile.trim().length > 0;
+  const hasProfile = userProfile.trim().length > 0;
 
   // New document modal state
   const [showNewDocumentModal, setShowNewDocumentModal] = useState(false);
@@ -132,6 +138,9 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
   // PDF style preview modal state
   const [showPDFStyleModal, setShowPDFStyleModal] = useState(false);
 
+  // Document history modal state
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+
   // Delete document modal state
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [documentToDelete, setDocumentToDelete] = useState<string | null>(null);
@@ -186,16 +195,6 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
     [endpoint, modelsEndpoint]
   );
 
-  // Fetch user profile on mount
-  useEffect(() => {
-    const fetchUserProfile = async () => {
-      const userProfileData = await userProfileStorage.getValue();
-      const profile = userProfileData?.content || '';
-      setUserProfile(profile);
-    };
-    fetchUserProfile();
-  }, []);
-
   // Parse job content on-read (MarkdownDB pattern) using cached provider
   const parsed = useParsedJob(job.id);
   const parsedJob = useMemo(
@@ -400,7 +399,7 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
     const template = latestTemplate || job.documents?.[activeTab]?.text || '';
 
     return {
-      profile: userProfile || '',
+      profile: userProfile,
       job: job.content || '',
       template,
       tone: tone,
@@ -429,6 +428,21 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
     // Store original content for rollback on error
     originalContentRef.current = getLatestValue(activeTab) || '';
 
+    // Snapshot the document so the pre-synthesis text stays in history
+    if (originalContentRef.current.trim()) {
+      saveDocumentRevision(
+        job.id,
+        activeTab,
+        {
+          title: job.documents?.[activeTab]?.title,
+          text: originalContentRef.current,
+        },
+        'pre-synthesis'
+      ).catch((error) =>
+        console.error('[DraftingView] Failed to snapshot document:', error)
+      );
+    }
+
     // Create AbortController for cancellation
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
@@ -630,6 +644,19 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
       )}
 
       <div className="flex flex-col h-full gap-4">
+        {/* Per-job profile override (only useful with several profiles) */}
+        {profiles.length > 1 && (
+          <JobProfileSelect
+            profiles={profiles}
+            defaultProfileId={defaultProfileId}
+            profileId={job.profileId}
+            onChange={(profileId) =>
+              onSaveField(job.id, 'profileId', profileId)
+            }
+            disabled={isSynthesizing}
+          />
+        )}
+
         {/* Drafting Editor */}
         <div className="flex-1 flex flex-col border border-border rounded-lg overflow-hidden bg-background">
           {/* Topbar with tabs and actions */}
@@ -651,6 +678,11 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
             onExport={handleExport}
             onSaveAsTemplate={() => setShowSaveTemplateModal(true)}
             canSaveTemplate={canSaveTemplate}
+            onShowHistory={
+              activeTab && !isSynthesizing
+                ? () => setShowHistoryModal(true)
+                : undefined
+            }
           />
 
           {/* Editor wrapper */}
@@ -731,6 +763,19 @@ export const DraftingView: React.FC<DraftingViewProps> = ({
         onSave={handleSaveAsTemplate}
       />
 
+      {/* Document History Modal */}
+      {activeTab && (
+        <DocumentHistoryModal
+          isOpen={showHistoryModal}
+          onClose={() => setShowHistoryModal(false)}
+          jobId={job.id}
+          documentKey={activeTab}
+          documentTitle={getDocument(activeTab).title}
+          currentText={documentContents[activeTab] || ''}
+          onRestore={(text) => updateContent(activeTab, text)}
+        />
+      )}
+
       {/* PDF Style Preview Modal */}
       <PDFStylePreviewModal
         isOpen={showPDFStyleModal}
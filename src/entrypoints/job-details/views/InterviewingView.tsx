@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { interviewFormats, interviewOutcomes } from '@/config';
+import {
+  INTERVIEW_PREP_TEMPLATE,
+  createInterviewRound,
+  fromDateTimeInputValue,
+  getNextInterview,
+  parseInterviewers,
+  toDateTimeInputValue,
+} from '@/utils/application-utils';
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+import type { Job, InterviewRound } from '../hooks';
+
+interface InterviewingViewProps {
+  job: Job;
+  onDeleteJob: (jobId: string) => void;
+  onSaveField: (jobId: string, fieldName: string, value: unknown) => void;
+  /** Changes on undo/redo */
+  historyRevision?: number;
+}
+
+interface InterviewRoundCardProps {
+  round: InterviewRound;
+  onChange: (roundId: string, updates: Partial<InterviewRound>) => void;
+  onDelete: (roundId: string) => void;
+}
+
+/**
+ * InterviewRoundCard - Editable details and prep area for one round
+ */
+const InterviewRoundCard: React.FC<InterviewRoundCardProps> = ({
+  round,
+  onChange,
+  onDelete,
+}) => {
+  const fieldId = (name: string) => `${round.id}-${name}`;
+
+  // Raw text is kept while typing so a trailing comma isn't swallowed by
+  // parsing; it is parsed on blur and re-read when the round changes (undo)
+  const storedInterviewers = round.interviewers.join(', ');
+  const [interviewers, setInterviewers] = useState(storedInterviewers);
+
+  useEffect(() => {
+    setInterviewers(storedInterviewers);
+  }, [storedInterviewers]);
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col gap-3 pt-6">
+        <div className="flex items-center gap-2">
+          <Input
+            value={round.name}
+            onChange={(e) => onChange(round.id, { name: e.target.value })}
+            className="flex-1 font-semibold"
+            placeholder="Round name (e.g., Technical screen)"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onDelete(round.id)}
+            title="Delete round"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor={fieldId('scheduledAt')}
+              className="text-sm font-medium text-muted-foreground"
+            >
+              Date & time
+            </label>
+            <Input
+              id={fieldId('scheduledAt')}
+              type="datetime-local"
+              value={toDateTimeInputValue(round.scheduledAt)}
+              onChange={(e) =>
+                onChange(round.id, {
+                  scheduledAt: fromDateTimeInputValue(e.target.value),
+                })
+              }
+            />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor={fieldId('format')}
+              className="text-sm font-medium text-muted-foreground"
+            >
+              Format
+            </label>
+            <Select
+              value={round.format}
+              onValueChange={(format) => onChange(round.id, { format })}
+            >
+              <SelectTrigger id={fieldId('format')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {interviewFormats.map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {format}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor={fieldId('outcome')}
+              className="text-sm font-medium text-muted-foreground"
+            >
+              Outcome
+            </label>
+            <Select
+              value={round.outcome}
+              onValueChange={(outcome) => onChange(round.id, { outcome })}
+            >
+              <SelectTrigger id={fieldId('outcome')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {interviewOutcomes.map((outcome) => (
+                  <SelectItem key={outcome} value={outcome}>
+                    {outcome}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <label
+            htmlFor={fieldId('interviewers')}
+            className="text-sm font-medium text-muted-foreground"
+          >
+            Interviewers
+          </label>
+          <Input
+            id={fieldId('interviewers')}
+            value={interviewers}
+            onChange={(e) => setInterviewers(e.target.value)}
+            onBlur={(e) => {
+              const parsed = parseInterviewers(e.target.value);
+              setInterviewers(parsed.join(', '));
+              onChange(round.id, { interviewers: parsed });
+            }}
+            placeholder="Comma-separated names"
+          />
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <div className="flex items-center justify-between">
+            <label
+              htmlFor={fieldId('prepNotes')}
+              className="text-sm font-medium text-muted-foreground"
+            >
+              Prep
+            </label>
+            {!round.prepNotes && (
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() =>
+                  onChange(round.id, { prepNotes: INTERVIEW_PREP_TEMPLATE })
+                }
+              >
+                Use prep template
+              </Button>
+            )}
+          </div>
+          <Textarea
+            id={fieldId('prepNotes')}
+            value={round.prepNotes}
+            onChange={(e) => onChange(round.id, { prepNotes: e.target.value })}
+            className="min-h-32 font-mono text-sm"
+            placeholder="Interviewer research, STAR stories, questions to ask..."
+          />
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <label
+            htmlFor={fieldId('debriefNotes')}
+            className="text-sm font-medium text-muted-foreground"
+          >
+            Notes
+          </label>
+          <Textarea
+            id={fieldId('debriefNotes')}
+            value={round.debriefNotes}
+            onChange={(e) =>
+              onChange(round.id, { debriefNotes: e.target.value })
+            }
+            className="min-h-24 font-mono text-sm"
+            placeholder="What was asked, how it went, follow-ups..."
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <Checkbox
+            checked={round.thankYouSent}
+            onCheckedChange={(checked) =>
+              onChange(round.id, { thankYouSent: checked === true })
+            }
+          />
+          Thank-you note sent
+        </label>
+      </CardContent>
+    </Card>
+  );
+};
+
+/**
+ * InterviewingView - Content-only view for the Interviewing phase
+ *
+ * Tracks interview rounds (date/time, format, interviewers, prep, notes,
+ * outcome) stored on the job as `interviewRounds`.
+ * Header and footer are handled by JobViewRouter.
+ */
+export const InterviewingView: React.FC<InterviewingViewProps> = ({
+  job,
+  onSaveField,
+  historyRevision = 0,
+}) => {
+  // Local state + immediate save (Profile pattern): re-initialize only when
+  // switching jobs or undoing, so async storage writes don't fight with typing
+  const [rounds, setRounds] = useState<InterviewRound[]>(
+    () => job.interviewRounds || []
+  );
+  const resetKey = `${job.id}:${historyRevision}`;
+  const prevResetKeyRef = useRef(resetKey);
+
+  useEffect(() => {
+    if (resetKey !== prevResetKeyRef.current) {
+      setRounds(job.interviewRounds || []);
+      prevResetKeyRef.current = resetKey;
+    }
+  }, [resetKey, job.interviewRounds]);
+
+  const saveRounds = useCallback(
+    (newRounds: InterviewRound[]) => {
+      setRounds(newRounds);
+      onSaveField(job.id, 'interviewRounds', newRounds);
+    },
+    [job.id, onSaveField]
+  );
+
+  const handleAddRound = useCallback(() => {
+    saveRounds([...rounds, createInterviewRound(rounds.length + 1)]);
+  }, [rounds, saveRounds]);
+
+  const handleChangeRound = useCallback(
+    (roundId: string, updates: Partial<InterviewRound>) => {
+      saveRounds(
+        rounds.map((round) =>
+          round.id === roundId ? { ...round, ...updates } : round
+        )
+      );
+    },
+    [rounds, saveRounds]
+  );
+
+  const handleDeleteRound = useCallback(
+    (roundId: string) => {
+      saveRounds(rounds.filter((round) => round.id !== roundId));
+    },
+    [rounds, saveRounds]
+  );
+
+  const nextInterview = getNextInterview(rounds);
+
+  return (
+    <div className="flex flex-col h-full gap-4 overflow-y-auto p-4">
+      {nextInterview && (
+        <div className="flex items-center gap-2 rounded-md border border-border bg-card px-4 py-3 text-sm">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          <span className="text-muted-foreground">Next up:</span>
+          <span className="font-medium text-foreground">
+            {nextInterview.name}
+          </span>
+          <span className="text-muted-foreground">
+            {new Date(nextInterview.scheduledAt!).toLocaleString(undefined, {
+              weekday: 'short',
+              month: 'short',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+          </span>
+        </div>
+      )}
+
+      {rounds.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+          <div className="text-sm mb-4">
+            No interview rounds yet. Add one to start preparing.
+          </div>
+        </div>
+      ) : (
+        rounds.map((round) => (
+          <InterviewRoundCard
+            key={round.id}
+            round={round}
+            onChange={handleChangeRound}
+            onDelete={handleDeleteRound}
+          />
+        ))
+      )}
+
+      <Button
+        variant="secondary"
+        onClick={handleAddRound}
+        className="self-start"
+      >
+        <Plus className="h-4 w-4" />
+        Add Round
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getStatusOrder, getTerminalStates } from '@/config';
+import { createOutcome, getDaysSince } from '@/utils/application-utils';
+import { StatusHistory } from '@/components/features/StatusHistory';
+import type { Job, JobOutcome } from '../hooks';
+
+interface OutcomeViewProps {
+  job: Job;
+  onDeleteJob: (jobId: string) => void;
+  onSaveField: (jobId: string, fieldName: string, value: unknown) => void;
+  /** Changes on undo/redo */
+  historyRevision?: number;
+}
+
+/**
+ * Per-status copy for the retrospective form
+ */
+const OUTCOME_COPY: Record<
+  string,
+  {
+    heading: string;
+    stageLabel: string;
+    reasonLabel: string;
+    reasonPlaceholder: string;
+    showFeedback: boolean;
+  }
+> = {
+  Accepted: {
+    heading: 'Offer accepted',
+    stageLabel: 'Accepted from',
+    reasonLabel: 'Why this offer',
+    reasonPlaceholder: 'Compensation, team, growth, location...',
+    showFeedback: false,
+  },
+  Rejected: {
+    heading: 'Application rejected',
+    stageLabel: 'Rejected at stage',
+    reasonLabel: 'Stated reason',
+    reasonPlaceholder: 'What the employer said, if anything...',
+    showFeedback: true,
+  },
+  Withdrawn: {
+    heading: 'Application withdrawn',
+    stageLabel: 'Withdrew at stage',
+    reasonLabel: 'Why you withdrew',
+    reasonPlaceholder: 'Accepted elsewhere, compensation, role fit...',
+    showFeedback: true,
+  },
+};
+
+/**
+ * OutcomeView - Content-only view for terminal statuses
+ *
+ * Records structured retrospective data (stage, reason, feedback, lessons
+ * learned) on the job as `outcome` so it can be aggregated across jobs.
+ * Header and footer are handled by JobViewRouter.
+ */
+export const OutcomeView: React.FC<OutcomeViewProps> = ({
+  job,
+  onSaveField,
+  historyRevision = 0,
+}) => {
+  const copy = OUTCOME_COPY[job.applicationStatus] ?? OUTCOME_COPY.Rejected;
+
+  // Pipeline stages an application can end at (all non-terminal statuses)
+  const terminalStates = getTerminalStates();
+  const outcomeStages = getStatusOrder().filter(
+    (status) => !terminalStates.includes(status)
+  );
+
+  // Local state + immediate save (Profile pattern): re-initialize only when
+  // switching jobs or undoing, so async storage writes don't fight with typing
+  // Jobs closed before outcomes existed get a blank outcome on first edit
+  const [outcome, setOutcome] = useState<JobOutcome>(
+    () => job.outcome ?? { ...createOutcome(''), decidedAt: null }
+  );
+  const resetKey = `${job.id}:${historyRevision}`;
+  const prevResetKeyRef = useRef(resetKey);
+
+  useEffect(() => {
+    if (resetKey !== prevResetKeyRef.current) {
+      setOutcome(job.outcome ?? { ...createOutcome(''), decidedAt: null });
+      prevResetKeyRef.current = resetKey;
+    }
+  }, [resetKey, job.outcome]);
+
+  const handleChange = useCallback(
+    (updates: Partial<JobOutcome>) => {
+      const newOutcome = { ...outcome, ...updates };
+      setOutcome(newOutcome);
+      onSaveField(job.id, 'outcome', newOutcome);
+    },
+    [outcome, job.id, onSaveField]
+  );
+
+  const handleSaveTransitionNote = useCallback(
+    (transitionIndex: number, note: string) => {
+      const history = [...(job.statusHistory || [])];
+      const { note: _previousNote, ...transition } = history[transitionIndex];
+      history[transitionIndex] = note ? { ...transition, note } : transition;
+      onSaveField(job.id, 'statusHistory', history);
+    },
+    [job.id, job.statusHistory, onSaveField]
+  );
+
+  const daysSinceDecided = getDaysSince(outcome.decidedAt ?? undefined);
+  const daysInPipeline =
+    outcome.decidedAt && job.createdAt
+      ? Math.max(
+          0,
+          Math.round(
+            (new Date(outcome.decidedAt).getTime() -
+              new Date(job.createdAt).getTime()) /
+              (1000 * 60 * 60 * 24)
+          )
+        )
+      : null;
+
+  return (
+    <div className="flex flex-col h-full gap-4 overflow-y-auto p-4">
+      <Card>
+        <CardContent className="flex items-center justify-between gap-6 pt-6">
+          <div>
+            <div className="text-lg font-semibold text-foreground">
+              {copy.heading}
+            </div>
+            {outcome.decidedAt && (
+              <div className="text-sm text-muted-foreground">
+                {new Date(outcome.decidedAt).toLocaleDateString()}
+                {daysSinceDecided !== null &&
+                  daysSinceDecided > 0 &&
+                  ` · ${daysSinceDecided} ${daysSinceDecided === 1 ? 'day' : 'days'} ago`}
+              </div>
+            )}
+          </div>
+          {daysInPipeline !== null && (
+            <div className="text-right">
+              <div className="text-3xl font-semibold text-foreground">
+                {daysInPipeline}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {daysInPipeline === 1 ? 'day' : 'days'} from saved to outcome
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6">
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor="outcomeStage"
+              className="text-sm font-medium text-muted-foreground"
+            >
+              {copy.stageLabel}
+            </label>
+            <Select
+              value={outcome.stage || undefined}
+              onValueChange={(stage) => handleChange({ stage })}
+            >
+              <SelectTrigger id="outcomeStage" className="w-60">
+                <SelectValue placeholder="Select a stage" />
+              </SelectTrigger>
+              <SelectContent>
+                {outcomeStages.map((stage) => (
+                  <SelectItem key={stage} value={stage}>
+                    {stage}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor="outcomeReason"
+              className="text-sm font-medium text-muted-foreground"
+            >
+              {copy.reasonLabel}
+            </label>
+            <Input
+              id="outcomeReason"
+              value={outcome.reason}
+              onChange={(e) => handleChange({ reason: e.target.value })}
+              placeholder={copy.reasonPlaceholder}
+            />
+          </div>
+
+          {copy.showFeedback && (
+            <div className="flex flex-col gap-1.5">
+              <label
+                htmlFor="outcomeFeedback"
+                className="text-sm font-medium text-muted-foreground"
+              >
+                Feedback received
+              </label>
+              <Textarea
+                id="outcomeFeedback"
+                value={outcome.feedback}
+                onChange={(e) => handleChange({ feedback: e.target.value })}
+                className="min-h-24 text-sm"
+                placeholder="Any feedback from recruiters or interviewers..."
+              />
+            </div>
+          )}
+
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor="outcomeLessons"
+              className="text-sm font-medium text-muted-foreground"
+            >
+              Lessons learned
+            </label>
+            <Textarea
+              id="outcomeLessons"
+              value={outcome.lessonsLearned}
+              onChange={(e) => handleChange({ lessonsLearned: e.target.value })}
+              className="min-h-32 text-sm"
+              placeholder="What would you do differently next time?"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {(job.statusHistory?.length ?? 0) > 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            <h3 className="text-base font-semibold text-foreground mb-3">
+              Journey
+            </h3>
+            <StatusHistory job={job} onSaveNote={handleSaveTransitionNote} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -22,6 +22,8 @@ interface ResearchingViewProps {
   job: Job;
   onDeleteJob: (jobId: string) => void;
   onSaveField: (jobId: string, fieldName: string, value: string) => void;
+  /** Changes on undo/redo */
+  historyRevision?: number;
 }
 
 /**
@@ -34,15 +36,16 @@ export const ResearchingView: React.FC<ResearchingViewProps> = ({
   job,
   onDeleteJob,
   onSaveField,
+  historyRevision = 0,
 }) => {
   // Immediate-save hook: saves to storage on every change
-  // Uses resetKey to re-initialize only when switching jobs (not on storage reload)
+  // Uses resetKey to re-initialize only when switching jobs or undoing (not on storage reload)
   const { value: editorContent, setValue: setEditorContent } = useImmediateSave(
     {
       initialValue: job.content || '',
       onSave: (value) => onSaveField(job.id, 'content', value),
       disabled: job.isExtracting || !!job.extractionError,
-      resetKey: job.id, // Re-initialize when switching jobs
+      resetKey: `${job.id}:${historyRevision}`,
     }
   );
 
@@ -3,18 +3,43 @@ import { browser } from 'wxt/browser';
 
 // Import WXT storage
 import {
-  userProfileStorage,
+  LEGACY_PROFILE_NAME,
   profileTemplatePanelStorage,
   profileSuggestionsPanelStorage,
   llmSettingsStorage,
   jobsStorage,
   jobInFocusStorage,
   chivalryPointsStorage,
+  type NamedProfile,
 } from '@/utils/storage';
+import {
+  createProfile,
+  getProfileForJob,
+  saveProfileContent,
+} from '@/utils/profiles';
 
 // Import utilities
 import { formatSaveTime } from '@/utils/date-utils';
-import { exportMarkdown as exportMarkdownUtil } from '@/utils/export-utils';
+import {
+  exportMarkdown as exportMarkdownUtil,
+  exportJson,
+} from '@/utils/export-utils';
+import {
+  isJsonResume,
+  jsonResumeToProfile,
+  profileContentToJsonResume,
+} from '@/utils/json-resume';
+import { parseLinkedInArchive } from '@/utils/linkedin-import';
+import { readZip } from '@/utils/zip-utils';
+import { extractResumeText, RESUME_FILE_ACCEPT } from '@/utils/resume-file';
+import { ProfileImportModal } from '@/components/features/ProfileImportModal';
+import { ProfileSwitcher } from '@/components/features/ProfileSwitcher';
+import { ProfileHistoryModal } from '@/components/features/ProfileHistoryModal';
+import {
+  recordProfileSave,
+  saveProfileRevision,
+  type ProfileRevisionReason,
+} from '@/utils/profile-revisions';
 import {
   setCursorAndScroll,
   findNextEntryId,
@@ -31,6 +56,7 @@ import { DEFAULT_TASK_SETTINGS, simplifyLLMError } from '@/utils/llm-utils';
 // Import hooks
 import { useProfileValidation } from './hooks/useProfileValidation';
 import { useTheme } from '@/hooks/useTheme';
+import { useProfiles } from '@/hooks/useProfiles';
 import { useFitScore } from '../job-details/hooks';
 import type { ValidationFix } from '@/utils/validation-types';
 
@@ -39,6 +65,7 @@ import { EditorFooter } from '@/components/features/EditorFooter';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { ValidatedEditor } from '@/components/ui/ValidatedEditor';
+import { ProfileFormEditor } from '@/components/features/ProfileFormEditor';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
 import {
   ArrowLeft,
@@ -48,7 +75,14 @@ import {
   ScrollText,
   RefreshCw,
   HardDriveDownload,
+  History,
   BookDashed,
+  FileJson,
+  FileUp,
+  Linkedin,
+  FileText,
+  Code,
+  ListChecks,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -98,6 +132,18 @@ const isProgressMessage = (text: string): boolean =>
 /** Tailwind xl breakpoint for wide screen detection */
 const XL_BREAKPOINT = 1280;
 
+// Snapshot a profile before it is replaced (errors only logged)
+const snapshotProfile = (
+  profileId: string | null,
+  text: string,
+  reason: ProfileRevisionReason
+) => {
+  if (!profileId) return;
+  saveProfileRevision(profileId, text, reason).catch((error) =>
+    console.error('[Profile] Failed to snapshot profile:', error)
+  );
+};
+
 export default function App() {
   // State
   const [content, setContent] = useState('');
@@ -127,6 +173,25 @@ export default function App() {
   const [isExtracting, setIsExtracting] = useState(false);
   const [extractionError, setExtractionError] = useState<string | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  // Text read from a resume file, extracted instead of the editor content
+  const [resumeFile, setResumeFile] = useState<{
+    fileName: string;
+    text: string;
+  } | null>(null);
+  // Profile converted from an imported file, waiting for the user to confirm
+  const [pendingImport, setPendingImport] = useState<{
+    content: string;
+    sourceLabel: string;
+  } | null>(null);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  // Raw text or structured form; extraction always streams into the text
+  const [editorMode, setEditorMode] = useState<'raw' | 'form'>('raw');
+  const showForm = editorMode === 'form' && !isExtracting;
+
+  // Profile being edited (see utils/profiles)
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const activeProfileIdRef = useRef<string | null>(null);
+  const { profiles, profilesById, defaultProfileId, isLoaded } = useProfiles();
 
   // State for current job (for fit score calculation)
   const [currentJobContent, setCurrentJobContent] = useState<
@@ -171,6 +236,7 @@ export default function App() {
   } = useFitScore({
     jobContent: currentJobContent,
     jobId: currentJobId,
+    profileId: activeProfileId ?? undefined,
   });
 
   // Derive job title and company from current job content
@@ -256,6 +322,9 @@ export default function App() {
       optimizationAbortRef.current.abort();
     }
 
+    // Keep the profile as it was before the suggestions get applied
+    snapshotProfile(activeProfileIdRef.current, content, 'pre-optimization');
+
     // Reset state
     setIsOptimizing(true);
     setOptimizationContent('');
@@ -354,13 +423,14 @@ export default function App() {
   // Immediate save callback - saves to storage on every change
   const saveProfile = useCallback(async (newContent: string) => {
     try {
-      const profileData = {
-        content: newContent,
-        updatedAt: new Date().toISOString(),
-      };
-
-      await userProfileStorage.setValue(profileData);
-      setLastSavedTime(profileData.updatedAt);
+      const profileId = activeProfileIdRef.current;
+      const saved = profileId
+        ? await saveProfileContent(profileId, newContent)
+        : null;
+      if (!saved) throw new Error('No profile selected');
+      recordProfileSave(saved.id, newContent);
+
+      setLastSavedTime(saved.updatedAt);
       setSaveStatusText(`Last saved ${formatSaveTime(new Date())}`);
 
       // Also save to localStorage as backup
@@ -392,12 +462,13 @@ export default function App() {
   // Helper to save profile directly to storage (for use in extraction callbacks)
   const saveProfileToStorage = async (newContent: string) => {
     try {
-      const profileData = {
-        content: newContent,
-        updatedAt: new Date().toISOString(),
-      };
-      await userProfileStorage.setValue(profileData);
-      setLastSavedTime(profileData.updatedAt);
+      const profileId = activeProfileIdRef.current;
+      const saved = profileId
+        ? await saveProfileContent(profileId, newContent)
+        : null;
+      if (!saved) throw new Error('No profile selected');
+      recordProfileSave(saved.id, newContent);
+      setLastSavedTime(saved.updatedAt);
       setSaveStatusText(`Last saved ${formatSaveTime(new Date())}`);
       localStorage.setItem('userProfileDraft', newContent);
     } catch (error) {
@@ -500,26 +571,66 @@ export default function App() {
     }
   };
 
+  // Show a profile in the editor; suggestions and fit tracking start over
+  const openProfile = (profile: NamedProfile) => {
+    activeProfileIdRef.current = profile.id;
+    setActiveProfileId(profile.id);
+    setContent(profile.content);
+    setLastSavedTime(profile.updatedAt);
+    setSaveStatusText(
+      profile.updatedAt
+        ? `Last saved ${formatSaveTime(new Date(profile.updatedAt))}`
+        : ''
+    );
+    optimizationAbortRef.current?.abort();
+    setOptimizationContent('');
+    setOptimizationError(null);
+    setBaselineFitScore(null);
+    setPendingChivalry(0);
+    setHasImprovedFit(false);
+  };
+
+  const selectProfile = (profileId: string) => {
+    const profile = profilesById[profileId];
+    if (profile) {
+      openProfile(profile);
+    } else {
+      // Just created: not in the watched state yet
+      getProfileForJob(profileId).then((loaded) => {
+        if (loaded) openProfile(loaded);
+      });
+    }
+  };
+
+  // Open another profile if the one being edited was deleted elsewhere
+  // (checked against storage: a profile just created may not be watched yet)
+  useEffect(() => {
+    if (!isLoaded || !activeProfileId || profilesById[activeProfileId]) return;
+    getProfileForJob(activeProfileId).then((profile) => {
+      if (profile && profile.id !== activeProfileIdRef.current) {
+        openProfile(profile);
+      }
+    });
+  }, [isLoaded, activeProfileId, profilesById]);
+
+  // Open the profile of the job in focus (or the default profile); create
+  // the first profile if there is none yet
   const loadProfile = async () => {
     try {
-      const userProfile = await userProfileStorage.getValue();
-
-      if (userProfile && userProfile.content) {
-        const profileContent = userProfile.content;
-        const updatedAt = userProfile.updatedAt;
+      const [jobs, focusId] = await Promise.all([
+        jobsStorage.getValue(),
+        jobInFocusStorage.getValue(),
+      ]);
+      const focusedJob = focusId ? jobs[focusId] : undefined;
+      const profile = await getProfileForJob(focusedJob?.profileId);
 
-        setContent(profileContent);
-        setLastSavedTime(updatedAt);
-        if (updatedAt) {
-          setSaveStatusText(
-            `Last saved ${formatSaveTime(new Date(updatedAt))}`
-          );
-        }
+      if (profile) {
+        openProfile(profile);
       } else {
-        // Check for draft in localStorage
-        const draft = localStorage.getItem('userProfileDraft');
+        // Recover a draft in localStorage into the new profile
+        const draft = localStorage.getItem('userProfileDraft') || '';
+        openProfile(await createProfile(LEGACY_PROFILE_NAME, draft));
         if (draft) {
-          setContent(draft);
           setStatusMessage('Draft recovered');
         }
       }
@@ -572,6 +683,71 @@ export default function App() {
     );
   };
 
+  const exportJsonResume = () => {
+    if (!content.trim()) {
+      showStatusMessage('Profile is empty. Nothing to export.', 'error');
+      return;
+    }
+    exportJson('resume.json', profileContentToJsonResume(content), (message) =>
+      showStatusMessage(message, 'error')
+    );
+  };
+
+  /**
+   * Let the user pick a file, convert it to <PROFILE> content and preview it
+   */
+  const importFromFile = (
+    accept: string,
+    convert: (file: File) => Promise<string>
+  ) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        setPendingImport({
+          content: await convert(file),
+          sourceLabel: `"${file.name}"`,
+        });
+      } catch (error) {
+        console.error('Profile import failed:', error);
+        showStatusMessage(
+          `Could not import "${file.name}": ${(error as Error).message}`,
+          'error'
+        );
+      }
+    };
+
+    input.click();
+  };
+
+  const importJsonResume = () =>
+    importFromFile('application/json,.json', async (file) => {
+      const resume: unknown = JSON.parse(await file.text());
+      if (!isJsonResume(resume)) {
+        throw new Error('Not a JSON Resume file');
+      }
+      return jsonResumeToProfile(resume);
+    });
+
+  const importLinkedInArchive = () =>
+    importFromFile(
+      'application/zip,.zip',
+      async (file) => parseLinkedInArchive(await readZip(file)).content
+    );
+
+  const handleConfirmImport = () => {
+    if (pendingImport === null) return;
+    snapshotProfile(activeProfileIdRef.current, content, 'pre-import');
+    handleContentChange(pendingImport.content);
+    setPendingImport(null);
+    showStatusMessage('Profile imported', 'success');
+  };
+
   const insertEducationTemplate = () => {
     const newId = findNextEntryId(content, 'EDU_');
     const template = `## EDU_${newId}
@@ -708,10 +884,49 @@ BULLETS:
     }
   };
 
+  const handleExtractFromFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = RESUME_FILE_ACCEPT;
+
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const text = await extractResumeText(file);
+        if (!text) {
+          setExtractionError(
+            `No text found in "${file.name}". Scanned resumes have to be pasted as text.`
+          );
+          return;
+        }
+        console.info(`[Profile] Read ${text.length} chars from "${file.name}"`);
+        setExtractionError(null);
+        setResumeFile({ fileName: file.name, text });
+        setShowConfirmDialog(true);
+      } catch (error) {
+        console.error('[Profile] Reading resume file failed:', error);
+        setExtractionError(
+          `Could not read "${file.name}": ${(error as Error).message}`
+        );
+      }
+    };
+
+    input.click();
+  };
+
+  const handleCancelConfirm = () => {
+    setShowConfirmDialog(false);
+    setResumeFile(null);
+  };
+
   const handleConfirmExtraction = async () => {
     setShowConfirmDialog(false);
 
-    const pastedText = content.trim();
+    // Text read from a file takes the place of pasted text
+    const pastedText = (resumeFile?.text ?? content).trim();
+    setResumeFile(null);
     if (!pastedText) {
       setExtractionError('Please paste resume text first');
       return;
@@ -722,8 +937,14 @@ BULLETS:
     setExtractionError(null);
     progressIndexRef.current = 0;
     hasReceivedContentRef.current = false;
-    // Capture content from editorRef to avoid stale closure
-    originalContentRef.current = editorRef.current?.value || '';
+    // Capture content from editorRef to avoid stale closure (the form
+    // editor has no textarea, so fall back to this render's content)
+    originalContentRef.current = editorRef.current?.value ?? content;
+    snapshotProfile(
+      activeProfileIdRef.current,
+      originalContentRef.current,
+      'pre-extraction'
+    );
     // Hide template during extraction and persist preference
     setIsTemplatePanelVisible(false);
     profileTemplatePanelStorage.setValue(false);
@@ -905,9 +1126,17 @@ BULLETS:
           <span className="hidden sm:inline">Jobs</span>
         </Button>
 
-        {/* Center: Title and status */}
-        <div className="flex items-baseline gap-3">
+        {/* Center: Title, profile switcher and status */}
+        <div className="flex items-center gap-3">
           <h1 className="text-lg font-semibold text-foreground">Profile</h1>
+          <ProfileSwitcher
+            profiles={profiles}
+            defaultProfileId={defaultProfileId}
+            activeProfileId={activeProfileId}
+            onSelect={selectProfile}
+            onError={(message) => showStatusMessage(message, 'error')}
+            disabled={isExtracting}
+          />
           {statusMessage && (
             <span className="text-sm text-warning font-medium truncate">
               {statusMessage}
@@ -963,6 +1192,15 @@ BULLETS:
           >
             <BookDashed className="h-4 w-4" />
           </Button>
+          <Button
+            variant="ghost"
+            className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
+            onClick={() => setShowHistoryModal(true)}
+            disabled={isExtracting || !activeProfileId}
+            title="Profile history"
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
@@ -971,6 +1209,32 @@ BULLETS:
           >
             <HardDriveDownload className="h-4 w-4" />
           </Button>
+          <Button
+            variant="ghost"
+            className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
+            onClick={exportJsonResume}
+            title="Export as JSON Resume"
+          >
+            <FileJson className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
+            onClick={importJsonResume}
+            disabled={isExtracting}
+            title="Import JSON Resume"
+          >
+            <FileUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            className="p-2 min-w-9 min-h-9 text-muted-foreground hover:bg-muted flex items-center justify-center"
+            onClick={importLinkedInArchive}
+            disabled={isExtracting}
+            title="Import LinkedIn data export (.zip)"
+          >
+            <Linkedin className="h-4 w-4" />
+          </Button>
         </div>
       </header>
 
@@ -986,49 +1250,90 @@ BULLETS:
                 <Button
                   variant="ghost"
                   size="sm"
-                  className="text-sm text-muted-foreground hover:text-foreground"
-                  onClick={insertEducationTemplate}
-                  title="Insert education entry"
+                  className="gap-1.5 text-sm text-muted-foreground hover:text-foreground"
+                  onClick={() =>
+                    setEditorMode(editorMode === 'form' ? 'raw' : 'form')
+                  }
+                  disabled={isExtracting}
+                  title={showForm ? 'Edit the profile text' : 'Edit as a form'}
                 >
-                  + Education
+                  {showForm ? (
+                    <Code className="h-3.5 w-3.5" />
+                  ) : (
+                    <ListChecks className="h-3.5 w-3.5" />
+                  )}
+                  {showForm ? 'Text' : 'Form'}
                 </Button>
+                {!showForm && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-sm text-muted-foreground hover:text-foreground"
+                      onClick={insertEducationTemplate}
+                      title="Insert education entry"
+                    >
+                      + Education
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-sm text-muted-foreground hover:text-foreground"
+                      onClick={insertExperienceTemplate}
+                      title="Insert experience entry"
+                    >
+                      + Experience
+                    </Button>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
                 <Button
-                  variant="ghost"
+                  variant="secondary"
                   size="sm"
-                  className="text-sm text-muted-foreground hover:text-foreground"
-                  onClick={insertExperienceTemplate}
-                  title="Insert experience entry"
+                  className="gap-1.5"
+                  onClick={handleExtractFromFile}
+                  disabled={isExtracting}
+                  title="Extract a PDF or DOCX resume (read locally)"
                 >
-                  + Experience
+                  <FileText className="h-3.5 w-3.5" />
+                  From File
+                </Button>
+                <Button
+                  variant={isExtracting ? 'danger' : 'primary'}
+                  size="sm"
+                  className="gap-1.5"
+                  onClick={handleExtractClick}
+                  disabled={isExtracting && !content.trim()}
+                >
+                  <WandSparkles className="h-3.5 w-3.5" />
+                  {isExtracting ? 'Cancel' : 'Extract with LLM'}
                 </Button>
               </div>
-              <Button
-                variant={isExtracting ? 'danger' : 'primary'}
-                size="sm"
-                className="gap-1.5"
-                onClick={handleExtractClick}
-                disabled={isExtracting && !content.trim()}
-              >
-                <WandSparkles className="h-3.5 w-3.5" />
-                {isExtracting ? 'Cancel' : 'Extract with LLM'}
-              </Button>
             </div>
 
-            {/* Editor with inline validation */}
+            {/* Editor with inline validation, or the structured form */}
             <div className="flex-1 flex flex-col p-4 overflow-hidden">
-              <ValidatedEditor
-                ref={editorRef}
-                id="profileEditor"
-                value={content}
-                onChange={handleContentChange}
-                placeholder="Paste your resume text here and click 'Extract with LLM' to convert it to the profile format, or follow the template to write it manually."
-                disabled={isExtracting}
-                isStreaming={isExtracting}
-                isValid={isValid}
-                hasErrors={hasErrors}
-                validationMessages={validationMessages}
-                onApplyFix={applyFix}
-              />
+              {showForm ? (
+                <ProfileFormEditor
+                  content={content}
+                  onChange={handleContentChange}
+                />
+              ) : (
+                <ValidatedEditor
+                  ref={editorRef}
+                  id="profileEditor"
+                  value={content}
+                  onChange={handleContentChange}
+                  placeholder="Paste your resume text here and click 'Extract with LLM' to convert it to the profile format, or follow the template to write it manually."
+                  disabled={isExtracting}
+                  isStreaming={isExtracting}
+                  isValid={isValid}
+                  hasErrors={hasErrors}
+                  validationMessages={validationMessages}
+                  onApplyFix={applyFix}
+                />
+              )}
             </div>
 
             {/* Extraction error display */}
@@ -1260,16 +1565,27 @@ BULLETS:
       {/* Confirmation Dialog */}
       <Modal
         isOpen={showConfirmDialog}
-        onClose={() => setShowConfirmDialog(false)}
+        onClose={handleCancelConfirm}
         title="Confirm Extraction"
       >
         <div className="p-6">
+          {resumeFile && (
+            <div className="flex flex-col gap-2">
+              <p className="text-sm text-foreground">
+                Text read from &quot;{resumeFile.fileName}&quot; (
+                {resumeFile.text.length} characters):
+              </p>
+              <pre className="max-h-48 overflow-auto rounded-md border border-border bg-muted p-2 text-xs font-mono whitespace-pre-wrap">
+                {resumeFile.text}
+              </pre>
+            </div>
+          )}
           <div className="my-4 flex items-start gap-3 rounded-md border border-warning bg-warning/10 p-4">
             <span className="shrink-0 text-2xl text-foreground">!</span>
             <div className="flex-1">
               <p className="text-sm font-medium text-foreground">
                 LLM extraction may have errors. The current content will be
-                replaced. Save a backup first if needed.
+                replaced; it stays available in the profile history.
               </p>
             </div>
           </div>
@@ -1284,10 +1600,7 @@ BULLETS:
             </div>
           </div>
           <div className="mt-6 flex justify-end gap-3 border-t border-border pt-5">
-            <Button
-              variant="secondary"
-              onClick={() => setShowConfirmDialog(false)}
-            >
+            <Button variant="secondary" onClick={handleCancelConfirm}>
               Cancel
             </Button>
             <Button variant="primary" onClick={handleConfirmExtraction}>
@@ -1296,6 +1609,28 @@ BULLETS:
           </div>
         </div>
       </Modal>
+
+      {activeProfileId && (
+        <ProfileHistoryModal
+          isOpen={showHistoryModal}
+          onClose={() => setShowHistoryModal(false)}
+          profileId={activeProfileId}
+          profileName={profilesById[activeProfileId]?.name ?? 'Profile'}
+          currentContent={content}
+          onRestore={handleContentChange}
+        />
+      )}
+
+      {pendingImport && (
+        <ProfileImportModal
+          isOpen
+          onClose={() => setPendingImport(null)}
+          sourceLabel={pendingImport.sourceLabel}
+          currentContent={content}
+          importedContent={pendingImport.content}
+          onConfirm={handleConfirmImport}
+        />
+      )}
     </div>
   );
 }
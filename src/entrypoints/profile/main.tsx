@@ -1,16 +1,23 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { requestMigrations } from '@/utils/migrations';
 import '@/styles/globals.css';
 
 const root = document.getElementById('root');
 
 if (root) {
-  ReactDOM.createRoot(root).render(
-    <React.StrictMode>
-      <App />
-    </React.StrictMode>
-  );
+  // Wait for the background to upgrade stored data before the app reads it
+  // (no-op when already current)
+  requestMigrations()
+    .catch((error) => console.error('Error migrating data:', error))
+    .finally(() => {
+      ReactDOM.createRoot(root).render(
+        <React.StrictMode>
+          <App />
+        </React.StrictMode>
+      );
+    });
 } else {
   console.error('Root element not found');
 }
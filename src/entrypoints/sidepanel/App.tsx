@@ -2,6 +2,10 @@ import React, { useEffect, useCallback, useState, useMemo } from 'react';
 import { browser } from 'wxt/browser';
 import { ResearchingView } from '../job-details/views/ResearchingView';
 import { DraftingView } from '../job-details/views/DraftingView';
+import { AwaitingReviewView } from '../job-details/views/AwaitingReviewView';
+import { InterviewingView } from '../job-details/views/InterviewingView';
+import { DecidingView } from '../job-details/views/DecidingView';
+import { OutcomeView } from '../job-details/views/OutcomeView';
 import { useJobStore } from '../job-details/hooks/useJobStore';
 import { JobViewRouter } from '../../components/features/JobViewRouter';
 import { JobFooter } from '../../components/features/JobFooter';
@@ -11,24 +15,28 @@ import {
 } from '../../components/features/ParsedJobProvider';
 import { JobSelector } from '../../components/features/JobSelector';
 import { SidepanelHeader } from '../../components/features/SidepanelHeader';
-import type { Job, ChecklistItem } from '../job-details/hooks';
+import type { Job } from '../job-details/hooks';
 import { useJobExtraction, useBackupRestore } from './hooks';
 import { EmptyState } from '@/components/features/EmptyState';
 import { ExtractionLoadingView } from '../job-details/components/ExtractionLoadingView';
 import { ErrorState } from '@/components/features/ErrorState';
 import { DuplicateJobModal } from '@/components/features/DuplicateJobModal';
+import { BackupReportModal } from '@/components/features/BackupReportModal';
+import { PassphraseDialog } from '@/components/features/PassphraseDialog';
+import { usePassphraseDialog } from '@/hooks/usePassphraseDialog';
 import { WelcomeView } from '@/components/features/WelcomeView';
 import { LLMSettingsForm } from '@/components/features/LLMSettingsForm';
 import { FirstExtractionBanner } from '@/components/features/FirstExtractionBanner';
-import { checklistTemplates, defaults } from '@/config';
+import { defaults } from '@/config';
 import {
   jobsStorage,
   restoreStorageFromBackup,
   welcomeCompletedStorage,
-  userProfileStorage,
   firstExtractionMessageShownStorage,
 } from '../../utils/storage';
-import { generateItemId } from '../../utils/shared-utils';
+import { createDefaultChecklist } from '../../utils/job-import';
+import { requestAutoBackup } from '../../utils/auto-backup';
+import { getPreviousStatus } from '../../utils/status-history';
 import { buttonVariants } from '@/components/ui/button-variants';
 import {
   AlertDialog,
@@ -42,31 +50,14 @@ import {
 } from '../../components/ui/alert-dialog';
 import { useConfirmDialog, useAlertDialog } from '../../hooks/useConfirmDialog';
 import { useTheme } from '../../hooks/useTheme';
+import { usePipeline } from '../../hooks/usePipeline';
+import { useProfiles } from '../../hooks/useProfiles';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
 import { useLLMSettings } from '../../hooks/useLLMSettings';
 import { runTask, startKeepalive } from '../../utils/llm-task-runner';
 import { jobExtraction } from '../../tasks';
 import { LLMClient } from '../../utils/llm-client';
 
-/**
- * Create default checklist for all statuses (adapter for useJobExtraction)
- */
-function createDefaultChecklist(): Record<string, ChecklistItem[]> {
-  const checklist: Record<string, ChecklistItem[]> = {};
-
-  Object.keys(checklistTemplates).forEach((status) => {
-    const template =
-      checklistTemplates[status as keyof typeof checklistTemplates];
-    checklist[status] = template.map((item, index) => ({
-      id: generateItemId(status, index),
-      text: item.text,
-      checked: false,
-      order: item.order,
-    }));
-  });
-
-  return checklist;
-}
-
 /**
  * Props for SidepanelContent inner component
  */
@@ -176,6 +167,7 @@ function SidepanelContent({
         {currentJob && (
           <JobFooter
             status={currentStatus}
+            previousStatus={getPreviousStatus(currentJob)}
             checklist={currentJob.checklist}
             jobId={currentJob.id}
             isChecklistExpanded={isChecklistExpanded}
@@ -225,6 +217,12 @@ export const App: React.FC = () => {
   // Initialize theme and watch for changes across tabs
   useTheme();
 
+  // Load the configured pipeline (re-renders status helpers when it changes)
+  usePipeline();
+
+  // Ctrl+Z / Ctrl+Shift+Z for job changes (outside text fields)
+  useUndoRedoShortcuts(store.undo, store.redo);
+
   // LLM settings for onboarding (show setup form when not connected)
   const llmSettings = useLLMSettings();
 
@@ -232,7 +230,6 @@ export const App: React.FC = () => {
   const [isInitialLoad, setIsInitialLoad] = useState(true);
   const [selectorOpen, setSelectorOpen] = useState(false);
   const [showWelcome, setShowWelcome] = useState<boolean | null>(null); // null = loading
-  const [hasProfile, setHasProfile] = useState(false);
   const [showFirstExtractionBanner, setShowFirstExtractionBanner] =
     useState(false);
   // Track previous job count to detect first extraction (0 → 1+)
@@ -247,22 +244,9 @@ export const App: React.FC = () => {
     });
   }, []);
 
-  /**
-   * Load and watch profile state for animation trigger
-   */
-  useEffect(() => {
-    // Initial load
-    userProfileStorage.getValue().then((profile) => {
-      setHasProfile(!!profile?.content?.trim());
-    });
-
-    // Watch for changes
-    const unwatch = userProfileStorage.watch((profile) => {
-      setHasProfile(!!profile?.content?.trim());
-    });
-
-    return unwatch;
-  }, []);
+  // Any profile with content stops the "create a profile" animation
+  const { profiles } = useProfiles();
+  const hasProfile = profiles.some((profile) => profile.content.trim());
 
   // Dialog state for confirmations
   const {
@@ -274,6 +258,14 @@ export const App: React.FC = () => {
   // Dialog state for alerts
   const { alertState, alert, closeAlert } = useAlertDialog();
 
+  // Passphrase prompt for restoring encrypted backups
+  const {
+    passphraseState,
+    requestPassphrase,
+    submitPassphrase,
+    closePassphrase,
+  } = usePassphraseDialog();
+
   // Derive current job from store
   const currentJob = useMemo(() => {
     if (!store.jobInFocusId) return null;
@@ -321,6 +313,11 @@ export const App: React.FC = () => {
       }): Promise<void> => {
         await restoreStorageFromBackup(data);
       },
+      createSafetyBackup: async (
+        reason: 'before-restore' | 'before-merge'
+      ): Promise<void> => {
+        await requestAutoBackup(reason);
+      },
     }),
     []
   );
@@ -341,7 +338,11 @@ export const App: React.FC = () => {
   );
 
   // Use backup/restore hook with adapter and dialog callbacks
-  const backup = useBackupRestore(backupStorageAdapter, { confirm, alert });
+  const backup = useBackupRestore(backupStorageAdapter, {
+    confirm,
+    alert,
+    requestPassphrase,
+  });
 
   /**
    * Open job details in full page
@@ -358,7 +359,8 @@ export const App: React.FC = () => {
     if (!currentJob) return;
     const confirmed = await confirm({
       title: 'Delete Job',
-      description: 'Are you sure you want to delete this job?',
+      description:
+        'Move this job to the trash? You can restore it from Trash in the dashboard menu.',
       confirmLabel: 'Delete',
       variant: 'destructive',
     });
@@ -370,7 +372,7 @@ export const App: React.FC = () => {
    * Handle saving a field on a job (ID-based)
    */
   const handleSaveField = useCallback(
-    async (jobId: string, fieldName: string, value: string) => {
+    async (jobId: string, fieldName: string, value: unknown) => {
       // Use updateJobField for persistence
       await store.updateJobField(jobId, fieldName, value);
     },
@@ -454,7 +456,8 @@ export const App: React.FC = () => {
     async (jobId: string) => {
       const confirmed = await confirm({
         title: 'Delete Job',
-        description: 'Are you sure you want to delete this job?',
+        description:
+          'Move this job to the trash? You can restore it from Trash in the dashboard menu.',
         confirmLabel: 'Delete',
         variant: 'destructive',
       });
@@ -512,10 +515,16 @@ export const App: React.FC = () => {
         job={currentJob}
         ResearchingView={ResearchingView}
         DraftingView={DraftingView}
+        AwaitingReviewView={AwaitingReviewView}
+        InterviewingView={InterviewingView}
+        DecidingView={DecidingView}
+        OutcomeView={OutcomeView}
+        allJobs={store.jobs}
         onDeleteJob={handleDeleteJob}
         onSaveField={handleSaveField}
         onSaveDocument={handleSaveDocument}
         onDeleteDocument={handleDeleteDocument}
+        historyRevision={store.historyRevision}
         emptyStateMessage="No job selected"
         showHeader={false}
       />
@@ -704,6 +713,20 @@ export const App: React.FC = () => {
         onDismissFirstExtractionBanner={handleDismissFirstExtractionBanner}
       />
 
+      {/* Backup Report Modal - shown when a backup has invalid records */}
+      <BackupReportModal
+        pendingReport={backup.pendingReport}
+        onContinue={backup.continueWithValidData}
+        onCancel={backup.cancelReport}
+      />
+
+      {/* Passphrase prompt for encrypted backups */}
+      <PassphraseDialog
+        state={passphraseState}
+        onSubmit={submitPassphrase}
+        onClose={closePassphrase}
+      />
+
       {/* Confirmation Dialog */}
       <AlertDialog
         open={confirmState.isOpen}
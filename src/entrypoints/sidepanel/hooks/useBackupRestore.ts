@@ -1,7 +1,35 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
+import type { Job } from '../../job-details/hooks';
+import {
+  analyzeBackupMerge,
+  applyBackupMerge,
+  overlayImportedJobs,
+  type ImportedFields,
+  summarizeBackupMerge,
+  type BackupMergePlan,
+  type MergeResolution,
+} from '../../../utils/backup-merge';
+import {
+  validateBackup,
+  type BackupValidationResult,
+} from '../../../utils/backup-schema';
+import { fitStoredJobsToPipeline } from '../../../utils/pipeline-utils';
+import {
+  checkEncryptedBackup,
+  decryptBackup,
+  isEncryptedBackup,
+} from '../../../utils/backup-crypto';
 
 export interface BackupStorage {
   restoreBackup: (data: Record<string, unknown>) => Promise<void>;
+  /** Back up the current data before it is overwritten (optional) */
+  createSafetyBackup?: (
+    reason: 'before-restore' | 'before-merge'
+  ) => Promise<void>;
+  /** Required for merge mode */
+  getJobs?: () => Promise<Record<string, Job>>;
+  /** Required for merge mode */
+  saveJobs?: (jobs: Record<string, Job>) => Promise<void>;
 }
 
 export interface BackupDialogCallbacks {
@@ -14,54 +42,133 @@ export interface BackupDialogCallbacks {
   }) => Promise<boolean>;
   /** Show an alert dialog */
   alert: (options: { title: string; description: string }) => Promise<void>;
+  /** Ask for a passphrase, returns null if cancelled (needed for encrypted backups) */
+  requestPassphrase?: (options: {
+    title: string;
+    description: string;
+    submitLabel?: string;
+    error?: string | null;
+  }) => Promise<string | null>;
+}
+
+/**
+ * A merge waiting for the user to resolve conflicts
+ */
+export interface PendingBackupMerge {
+  plan: BackupMergePlan;
+  /** Where the incoming jobs come from */
+  kind: 'backup' | 'import';
+  /** Describes the incoming jobs, e.g. "the backup from <date>" */
+  sourceLabel: string;
+}
+
+/**
+ * A backup with validation issues waiting for the user to continue
+ * with the valid subset or cancel
+ */
+export interface PendingBackupReport {
+  mode: 'restore' | 'merge';
+  validation: BackupValidationResult;
+  /** Backup export date, formatted for display */
+  backupDate: string;
+}
+
+/**
+ * Let the user pick a backup file and parse it
+ */
+function pickBackupFile(
+  onLoad: (backup: unknown) => Promise<void>,
+  onError: (error: Error) => Promise<void>
+): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = 'application/json,.json';
+
+  input.onchange = async (e) => {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      await onLoad(JSON.parse(text));
+    } catch (error) {
+      await onError(error as Error);
+    }
+  };
+
+  input.click();
 }
 
+// Jobs whose status was missing from the pipeline (see fitStoredJobsToPipeline)
+const describeMovedJobs = (count: number): string =>
+  count > 0
+    ? ` ${count} job(s) had a status that is not in your pipeline and were moved to its first status.`
+    : '';
+
+const formatBackupDate = (validation: BackupValidationResult): string =>
+  validation.exportDate
+    ? new Date(validation.exportDate).toLocaleString()
+    : 'unknown date';
+
 /**
  * Custom hook for backup restoration functionality
- * Handles file selection, validation, and restoration
+ * Handles file selection, validation, and restoration (overwrite or merge).
+ * Backups with invalid records open a report (pendingReport) first.
  */
 export function useBackupRestore(
   storage: BackupStorage,
   dialogs: BackupDialogCallbacks
 ) {
-  /**
-   * Restore backup from a JSON file (for empty state)
-   */
-  const handleRestoreBackup = useCallback(async () => {
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = 'application/json,.json';
+  const [pendingMerge, setPendingMerge] = useState<PendingBackupMerge | null>(
+    null
+  );
+  const [pendingReport, setPendingReport] =
+    useState<PendingBackupReport | null>(null);
 
-    input.onchange = async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (!file) return;
+  const showError = useCallback(
+    (action: string, error: Error) => {
+      console.error(`[useBackupRestore] Error ${action} backup:`, error);
+      return dialogs.alert({
+        title: 'Error',
+        description: `Error ${action} backup: ` + error.message,
+      });
+    },
+    [dialogs]
+  );
 
+  /**
+   * Write a safety backup; if that fails, ask whether to go on without one
+   * @param action - What happens next, e.g. "Restore"
+   * @returns Whether to continue
+   */
+  const runSafetyBackup = useCallback(
+    async (reason: 'before-restore' | 'before-merge', action: string) => {
+      if (!storage.createSafetyBackup) return true;
       try {
-        const text = await file.text();
-        const backup = JSON.parse(text);
-
-        // Validate backup structure (support both new format with metadata and legacy format)
-        const isNewFormat = backup.version && backup.data !== undefined;
-        const backupData = isNewFormat ? backup.data : backup;
-
-        // Basic validation - check if backup has jobs field
-        if (!backupData || typeof backupData !== 'object') {
-          await dialogs.alert({
-            title: 'Invalid Backup',
-            description: 'Invalid backup file format.',
-          });
-          return;
-        }
-
-        // Confirm overwrite
-        const jobCount = Object.keys(backupData.jobs || {}).length;
-        const backupDate = backup.exportDate
-          ? new Date(backup.exportDate).toLocaleString()
-          : 'unknown date';
+        await storage.createSafetyBackup(reason);
+        return true;
+      } catch (error) {
+        console.error('[useBackupRestore] Safety backup failed:', error);
+        return dialogs.confirm({
+          title: 'Safety Backup Failed',
+          description: `A backup of your current data could not be saved: ${(error as Error).message}. ${action} anyway?`,
+          confirmLabel: `${action} Anyway`,
+          variant: 'destructive',
+        });
+      }
+    },
+    [storage, dialogs]
+  );
 
+  /**
+   * Confirm, then overwrite all data with the validated backup
+   */
+  const restoreValidated = useCallback(
+    async (validation: BackupValidationResult, backupDate: string) => {
+      try {
         const confirmed = await dialogs.confirm({
           title: 'Restore Backup',
-          description: `This will overwrite all your current data with the backup from ${backupDate}. Backup contains ${jobCount} job(s). This cannot be undone.`,
+          description: `This will overwrite all your current data with the backup from ${backupDate}. Backup contains ${validation.validJobCount} job(s). This cannot be undone.`,
           confirmLabel: 'Restore',
           variant: 'destructive',
         });
@@ -70,16 +177,17 @@ export function useBackupRestore(
           return;
         }
 
-        // Pass through all backup data
-        const normalizedData = { ...backupData };
+        // Keep a copy of the data about to be overwritten
+        if (!(await runSafetyBackup('before-restore', 'Restore'))) return;
 
         // Restore all data using storage helper
-        await storage.restoreBackup(normalizedData);
+        await storage.restoreBackup(validation.data as Record<string, unknown>);
+        const movedCount = await fitStoredJobsToPipeline();
 
         console.info('[useBackupRestore] Backup restored successfully');
         await dialogs.alert({
           title: 'Success',
-          description: 'Backup restored successfully! Reloading...',
+          description: `Backup restored successfully!${describeMovedJobs(movedCount)} Reloading...`,
         });
 
         // Reload
@@ -87,18 +195,246 @@ export function useBackupRestore(
           window.location.reload();
         }, 1000);
       } catch (error) {
-        console.error('[useBackupRestore] Error restoring backup:', error);
+        await showError('restoring', error as Error);
+      }
+    },
+    [storage, dialogs, runSafetyBackup, showError]
+  );
+
+  /**
+   * Open the conflict list, or report that there is nothing to merge
+   */
+  const openMerge = useCallback(
+    async (
+      plan: BackupMergePlan,
+      kind: PendingBackupMerge['kind'],
+      sourceLabel: string
+    ) => {
+      if (
+        plan.newJobs.length === 0 &&
+        Object.keys(plan.conflicts).length === 0
+      ) {
         await dialogs.alert({
-          title: 'Error',
-          description: 'Error restoring backup: ' + (error as Error).message,
+          title: 'Nothing to Merge',
+          description: `All ${plan.unchangedCount} job(s) in ${sourceLabel} are already up to date.`,
         });
+        return;
+      }
+
+      setPendingMerge({ plan, kind, sourceLabel });
+    },
+    [dialogs]
+  );
+
+  /**
+   * Compare the validated backup jobs with local jobs and open the conflict list
+   */
+  const mergeValidated = useCallback(
+    async (validation: BackupValidationResult, backupDate: string) => {
+      const { getJobs } = storage;
+      if (!getJobs) return;
+
+      try {
+        const plan = analyzeBackupMerge(
+          await getJobs(),
+          validation.data.jobs ?? {}
+        );
+        await openMerge(plan, 'backup', `the backup from ${backupDate}`);
+      } catch (error) {
+        await showError('reading', error as Error);
+      }
+    },
+    [storage, showError, openMerge]
+  );
+
+  /**
+   * Decrypt the file if needed (asking for the passphrase until it is correct
+   * or the user cancels), then validate it
+   * @returns null when the user cancelled
+   */
+  const readBackup = useCallback(
+    async (backup: unknown): Promise<BackupValidationResult | null> => {
+      if (!isEncryptedBackup(backup)) return validateBackup(backup);
+
+      if (!dialogs.requestPassphrase) {
+        throw new Error('Encrypted backups cannot be restored here.');
+      }
+
+      // A malformed file would fail for every passphrase
+      const structureError = checkEncryptedBackup(backup);
+      if (structureError) throw new Error(structureError);
+
+      let error: string | null = null;
+      for (;;) {
+        const passphrase = await dialogs.requestPassphrase({
+          title: 'Encrypted Backup',
+          description:
+            'This backup is encrypted. Enter the passphrase it was created with.',
+          submitLabel: 'Decrypt',
+          error,
+        });
+        if (passphrase === null) return null;
+
+        try {
+          return validateBackup(await decryptBackup(backup, passphrase));
+        } catch (decryptError) {
+          error = (decryptError as Error).message;
+        }
+      }
+    },
+    [dialogs]
+  );
+
+  /**
+   * Stop on unusable files, show the report when records were skipped,
+   * otherwise continue straight away
+   */
+  const handleValidation = useCallback(
+    async (backup: unknown, mode: 'restore' | 'merge') => {
+      const validation = await readBackup(backup);
+      if (!validation) return;
+
+      const fatalError =
+        validation.fatalError ??
+        (mode === 'merge' && !validation.data.jobs
+          ? 'The backup contains no jobs.'
+          : null);
+
+      if (fatalError) {
+        await dialogs.alert({
+          title: 'Invalid Backup',
+          description: fatalError,
+        });
+        return;
+      }
+
+      const backupDate = formatBackupDate(validation);
+      if (validation.issues.length > 0) {
+        setPendingReport({ mode, validation, backupDate });
+      } else if (mode === 'restore') {
+        await restoreValidated(validation, backupDate);
+      } else {
+        await mergeValidated(validation, backupDate);
+      }
+    },
+    [dialogs, readBackup, restoreValidated, mergeValidated]
+  );
+
+  /**
+   * Restore backup from a JSON file (for empty state)
+   */
+  const handleRestoreBackup = useCallback(async () => {
+    pickBackupFile(
+      (backup) => handleValidation(backup, 'restore'),
+      (error) => showError('restoring', error)
+    );
+  }, [handleValidation, showError]);
+
+  /**
+   * Merge jobs from a backup into the current data
+   * Opens the conflict list (pendingMerge); nothing is written until commitMerge.
+   */
+  const handleMergeBackup = useCallback(async () => {
+    if (!storage.getJobs) return;
+
+    pickBackupFile(
+      (backup) => handleValidation(backup, 'merge'),
+      (error) => showError('reading', error)
+    );
+  }, [storage, handleValidation, showError]);
+
+  /**
+   * Merge jobs rebuilt from import files (e.g., a Markdown folder)
+   * Uses the same conflict list as backups; matched jobs keep every field
+   * the files do not carry.
+   * @param fields - Job fields the import files carry
+   * @param sourceLabel - Describes the files, e.g. the file name
+   */
+  const mergeImportedJobs = useCallback(
+    async (
+      jobs: Record<string, Job>,
+      fields: ImportedFields,
+      sourceLabel: string
+    ) => {
+      const { getJobs } = storage;
+      if (!getJobs) return;
+
+      try {
+        const localJobs = await getJobs();
+        const plan = analyzeBackupMerge(
+          localJobs,
+          overlayImportedJobs(localJobs, jobs, fields)
+        );
+        await openMerge(plan, 'import', sourceLabel);
+      } catch (error) {
+        await showError('importing', error as Error);
+      }
+    },
+    [storage, showError, openMerge]
+  );
+
+  /**
+   * Continue with only the valid records of a backup that had issues
+   */
+  const continueWithValidData = useCallback(async () => {
+    if (!pendingReport) return;
+
+    const { mode, validation, backupDate } = pendingReport;
+    setPendingReport(null);
+
+    if (mode === 'restore') {
+      await restoreValidated(validation, backupDate);
+    } else {
+      await mergeValidated(validation, backupDate);
+    }
+  }, [pendingReport, restoreValidated, mergeValidated]);
+
+  const cancelReport = useCallback(() => setPendingReport(null), []);
+
+  /**
+   * Write the merged jobs using the chosen resolution for each conflict
+   */
+  const commitMerge = useCallback(
+    async (resolutions: Record<string, MergeResolution>) => {
+      const { getJobs, saveJobs } = storage;
+      if (!pendingMerge || !getJobs || !saveJobs) return;
+
+      const { plan, kind } = pendingMerge;
+      setPendingMerge(null);
+
+      try {
+        // Keep a copy of the jobs the merge may overwrite
+        if (!(await runSafetyBackup('before-merge', 'Merge'))) return;
+
+        // Apply to the latest jobs so edits made meanwhile are kept
+        const merged = applyBackupMerge(await getJobs(), plan, resolutions);
+        await saveJobs(merged);
+        const movedCount = await fitStoredJobsToPipeline();
+
+        const summary = summarizeBackupMerge(plan, resolutions);
+        console.info(`[useBackupRestore] ${kind} merged:`, summary);
+        await dialogs.alert({
+          title: kind === 'backup' ? 'Backup Merged' : 'Import Complete',
+          description: `Added ${summary.added} job(s), updated ${summary.updatedFromBackup} from the ${kind === 'backup' ? 'backup' : 'imported files'} and kept ${summary.keptLocal} local version(s).${describeMovedJobs(movedCount)}`,
+        });
+      } catch (error) {
+        await showError('merging', error as Error);
       }
-    };
+    },
+    [storage, dialogs, pendingMerge, runSafetyBackup, showError]
+  );
 
-    input.click();
-  }, [storage, dialogs]);
+  const cancelMerge = useCallback(() => setPendingMerge(null), []);
 
   return {
     handleRestoreBackup,
+    handleMergeBackup,
+    pendingReport,
+    continueWithValidData,
+    cancelReport,
+    mergeImportedJobs,
+    pendingMerge,
+    commitMerge,
+    cancelMerge,
   };
 }
@@ -189,6 +189,7 @@ export function useJobExtraction(
           const newJob: Job = {
             id: jobId,
             url,
+            source,
             applicationStatus: 'Researching',
             content: result.content,
             checklist: storage.initializeAllChecklists(),
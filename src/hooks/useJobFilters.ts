@@ -55,6 +55,7 @@ interface UseJobFiltersOptions<T extends FilterableJob> {
  *
  * Used by:
  * - src/components/features/JobSidebar.tsx (JobListContent)
+ * - src/components/features/JobBoard.tsx
  *
  * Features:
  * - Search by job title or company name
@@ -0,0 +1,89 @@
+import { useState, useCallback, useRef } from 'react';
+
+export interface PassphraseDialogState {
+  isOpen: boolean;
+  title: string;
+  description: string;
+  submitLabel: string;
+  /** Ask for the passphrase twice (when choosing a new one) */
+  requireConfirmation: boolean;
+  /** Shown under the input (e.g., after a wrong passphrase) */
+  error: string | null;
+}
+
+export interface PassphraseDialogOptions {
+  title: string;
+  description: string;
+  submitLabel?: string;
+  requireConfirmation?: boolean;
+  error?: string | null;
+}
+
+const defaultState: PassphraseDialogState = {
+  isOpen: false,
+  title: '',
+  description: '',
+  submitLabel: 'Continue',
+  requireConfirmation: false,
+  error: null,
+};
+
+/**
+ * Hook for managing a passphrase prompt (see PassphraseDialog)
+ *
+ * Usage:
+ * ```tsx
+ * const { passphraseState, requestPassphrase, submitPassphrase, closePassphrase } =
+ *   usePassphraseDialog();
+ *
+ * const passphrase = await requestPassphrase({
+ *   title: 'Encrypted Backup',
+ *   description: 'Enter the passphrase for this backup.',
+ * });
+ * if (passphrase === null) return; // cancelled
+ * ```
+ */
+export function usePassphraseDialog() {
+  const [passphraseState, setPassphraseState] =
+    useState<PassphraseDialogState>(defaultState);
+  const resolveRef = useRef<((value: string | null) => void) | null>(null);
+
+  const settle = useCallback((value: string | null) => {
+    setPassphraseState((prev) => ({ ...prev, isOpen: false }));
+    if (resolveRef.current) {
+      resolveRef.current(value);
+      resolveRef.current = null;
+    }
+  }, []);
+
+  const closePassphrase = useCallback(() => settle(null), [settle]);
+
+  const submitPassphrase = useCallback(
+    (passphrase: string) => settle(passphrase),
+    [settle]
+  );
+
+  const requestPassphrase = useCallback(
+    (options: PassphraseDialogOptions): Promise<string | null> => {
+      return new Promise((resolve) => {
+        resolveRef.current = resolve;
+        setPassphraseState({
+          isOpen: true,
+          title: options.title,
+          description: options.description,
+          submitLabel: options.submitLabel ?? 'Continue',
+          requireConfirmation: options.requireConfirmation ?? false,
+          error: options.error ?? null,
+        });
+      });
+    },
+    []
+  );
+
+  return {
+    passphraseState,
+    requestPassphrase,
+    submitPassphrase,
+    closePassphrase,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * usePipeline Hook
+ *
+ * Loads the user-configured application pipeline from storage and makes it
+ * the active pipeline for the status helpers in config.ts.
+ * Components that call this re-render when the pipeline changes, so
+ * getStatusConfig/getStatusColor/getNavigationButtons pick up the new values.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { defaultPipeline, setActivePipeline, type Pipeline } from '../config';
+import { jobsStorage, pipelineStorage } from '../utils/storage';
+import { migrateJobsToPipeline } from '../utils/pipeline-utils';
+
+export interface UsePipelineReturn {
+  /** Active pipeline (default pipeline until a custom one is saved) */
+  pipeline: Pipeline;
+  /** Whether a custom pipeline is stored */
+  isCustom: boolean;
+  /**
+   * Save a pipeline and migrate jobs onto it
+   * @param renames - Old status name → new status name
+   * @returns Number of jobs that were migrated
+   */
+  savePipeline: (
+    pipeline: Pipeline,
+    renames?: Record<string, string>
+  ) => Promise<number>;
+  /** Restore the default pipeline (jobs in removed statuses are migrated) */
+  resetPipeline: () => Promise<number>;
+  /** Whether the pipeline has been loaded from storage */
+  isLoaded: boolean;
+}
+
+/**
+ * Hook for reading and editing the application pipeline
+ *
+ * @example
+ * ```tsx
+ * const { pipeline, savePipeline } = usePipeline();
+ * ```
+ */
+export function usePipeline(): UsePipelineReturn {
+  const [stored, setStored] = useState<Pipeline | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load initial pipeline from storage
+  useEffect(() => {
+    pipelineStorage.getValue().then((value) => {
+      setActivePipeline(value);
+      setStored(value);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Watch for storage changes (sync across tabs/windows)
+  useEffect(() => {
+    const unwatch = pipelineStorage.watch((newValue) => {
+      setActivePipeline(newValue);
+      setStored(newValue);
+    });
+
+    return () => {
+      unwatch();
+    };
+  }, []);
+
+  const applyPipeline = useCallback(
+    async (
+      pipeline: Pipeline | null,
+      renames: Record<string, string> = {}
+    ): Promise<number> => {
+      // Migrate jobs first so no job is ever in a status the pipeline lacks
+      const jobs = await jobsStorage.getValue();
+      const { jobs: migratedJobs, migratedCount } = migrateJobsToPipeline(
+        jobs,
+        pipeline ?? defaultPipeline,
+        renames
+      );
+      if (migratedCount > 0) {
+        await jobsStorage.setValue(migratedJobs);
+      }
+
+      setActivePipeline(pipeline);
+      setStored(pipeline);
+      await pipelineStorage.setValue(pipeline);
+      return migratedCount;
+    },
+    []
+  );
+
+  const savePipeline = useCallback(
+    (pipeline: Pipeline, renames?: Record<string, string>) =>
+      applyPipeline(pipeline, renames),
+    [applyPipeline]
+  );
+
+  const resetPipeline = useCallback(() => applyPipeline(null), [applyPipeline]);
+
+  return {
+    pipeline: stored ?? defaultPipeline,
+    isCustom: stored !== null,
+    savePipeline,
+    resetPipeline,
+    isLoaded,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * useProfiles Hook
+ *
+ * Loads the named profiles and the default profile ID from storage and keeps
+ * them in sync across tabs. useJobProfile() resolves the profile a job uses
+ * (its own profile, else the default).
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  profilesStorage,
+  defaultProfileIdStorage,
+  type NamedProfile,
+} from '../utils/storage';
+import { resolveProfile, sortProfiles } from '../utils/profiles';
+
+export interface UseProfilesReturn {
+  /** Profiles sorted by name */
+  profiles: NamedProfile[];
+  profilesById: Record<string, NamedProfile>;
+  defaultProfileId: string | null;
+  /** Whether profiles have been loaded from storage */
+  isLoaded: boolean;
+}
+
+/**
+ * Hook for reading the named profiles
+ *
+ * @example
+ * ```tsx
+ * const { profiles, defaultProfileId } = useProfiles();
+ * ```
+ */
+export function useProfiles(): UseProfilesReturn {
+  const [profilesById, setProfilesById] = useState<
+    Record<string, NamedProfile>
+  >({});
+  const [defaultProfileId, setDefaultProfileId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load initial values from storage
+  useEffect(() => {
+    Promise.all([
+      profilesStorage.getValue(),
+      defaultProfileIdStorage.getValue(),
+    ]).then(([profiles, defaultId]) => {
+      setProfilesById(profiles ?? {});
+      setDefaultProfileId(defaultId);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Watch for storage changes (sync across tabs/windows)
+  useEffect(() => {
+    const unwatchProfiles = profilesStorage.watch((value) =>
+      setProfilesById(value ?? {})
+    );
+    const unwatchDefault = defaultProfileIdStorage.watch((value) =>
+      setDefaultProfileId(value ?? null)
+    );
+
+    return () => {
+      unwatchProfiles();
+      unwatchDefault();
+    };
+  }, []);
+
+  const profiles = useMemo(() => sortProfiles(profilesById), [profilesById]);
+
+  return { profiles, profilesById, defaultProfileId, isLoaded };
+}
+
+/**
+ * Profile used for a job
+ * @param profileId - The job's profileId (undefined for the default)
+ * @returns The resolved profile, or null if there are no profiles
+ */
+export function useJobProfile(profileId?: string): NamedProfile | null {
+  const { profilesById, defaultProfileId } = useProfiles();
+  return useMemo(
+    () => resolveProfile(profilesById, defaultProfileId, profileId),
+    [profilesById, defaultProfileId, profileId]
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * useUndoRedoShortcuts Hook
+ *
+ * Binds Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo), or Cmd on macOS, to
+ * job store history. Shortcuts are ignored while typing in text fields so
+ * the browser's native text undo keeps working there.
+ */
+
+import { useEffect, useRef } from 'react';
+
+/**
+ * Whether a key event comes from an element with its own text undo
+ */
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  const tag = target.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT';
+}
+
+/**
+ * Listen for undo/redo shortcuts on the window
+ *
+ * @example
+ * ```tsx
+ * useUndoRedoShortcuts(store.undo, store.redo);
+ * ```
+ */
+export function useUndoRedoShortcuts(
+  undo: () => void | Promise<void>,
+  redo: () => void | Promise<void>
+): void {
+  // Refs so the listener is registered once
+  const undoRef = useRef(undo);
+  const redoRef = useRef(redo);
+
+  useEffect(() => {
+    undoRef.current = undo;
+    redoRef.current = redo;
+  }, [undo, redo]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoRef.current();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -7,7 +7,7 @@
 // Storage-backed: fetched from storage by runTask()
 // Runtime: passed directly to runTask() as parameters
 export type StorageContextType =
-  | 'profile' // User profile content from userProfileStorage
+  | 'profile' // Content of the profile assigned to the job (utils/profiles)
   | 'job' // Job content from jobInFocus (or explicit jobId)
   | 'jobTemplate' // Empty job template for extraction
   | 'profileTemplate'; // Empty profile template for extraction
@@ -0,0 +1,297 @@
+/**
+ * Job search analytics for sir-hires Chrome extension
+ * Everything is computed locally from stored jobs and their status history
+ */
+
+import { getStatusOrder, getTerminalStates } from '../config';
+import type { Job } from '../entrypoints/job-details/hooks';
+import { getJobSource } from './shared-utils';
+import { getTimeByStatus } from './status-history';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Status that marks an application as submitted (sets Job.appliedAt)
+ */
+const APPLIED_STATUS = 'Awaiting Review';
+
+/**
+ * Terminal status that does not count as a response from the employer
+ */
+const NO_RESPONSE_TERMINAL_STATUS = 'Withdrawn';
+
+/**
+ * One stage of the funnel
+ */
+export interface FunnelStage {
+  status: string;
+  /** Jobs that reached this status at any point */
+  count: number;
+  /** Share of the previous stage that reached this one (null for the first) */
+  conversionRate: number | null;
+}
+
+/**
+ * Median time spent in a status
+ */
+export interface StatusDuration {
+  status: string;
+  medianDays: number | null;
+  /** Jobs that spent time in this status */
+  sampleSize: number;
+}
+
+/**
+ * Response rate for one job source
+ */
+export interface SourceResponseRate {
+  source: string;
+  applied: number;
+  responded: number;
+  responseRate: number | null;
+}
+
+/**
+ * Applications submitted in one week
+ */
+export interface WeeklyApplications {
+  /** Monday of the week (YYYY-MM-DD) */
+  weekStart: string;
+  count: number;
+}
+
+/**
+ * Full analytics summary
+ */
+export interface JobAnalytics {
+  totalJobs: number;
+  funnel: FunnelStage[];
+  statusDurations: StatusDuration[];
+  responseRates: SourceResponseRate[];
+  applicationsPerWeek: WeeklyApplications[];
+}
+
+/**
+ * Get every status a job has been in (current status plus history)
+ */
+function getVisitedStatuses(job: Job): Set<string> {
+  const visited = new Set<string>([job.applicationStatus]);
+  for (const transition of job.statusHistory || []) {
+    if (transition.from) visited.add(transition.from);
+    visited.add(transition.to);
+  }
+  return visited;
+}
+
+/**
+ * Get the statuses a job has reached
+ * Reaching a pipeline stage implies every earlier non-terminal stage, so jobs
+ * saved before status history existed still count toward earlier stages
+ */
+function getReachedStatuses(job: Job): Set<string> {
+  const order = getStatusOrder();
+  const terminal = getTerminalStates();
+  const visited = getVisitedStatuses(job);
+
+  let furthest = -1;
+  visited.forEach((status) => {
+    const index = order.indexOf(status);
+    if (index > furthest && !terminal.includes(status)) furthest = index;
+  });
+
+  const reached = new Set(visited);
+  order.forEach((status, index) => {
+    if (index <= furthest && !terminal.includes(status)) reached.add(status);
+  });
+  return reached;
+}
+
+/**
+ * Get when a job was submitted
+ * @returns ISO timestamp, or null if the job was never submitted
+ */
+function getAppliedAt(job: Job): string | null {
+  if (job.appliedAt) return job.appliedAt;
+  const transition = job.statusHistory?.find((t) => t.to === APPLIED_STATUS);
+  return transition?.at ?? null;
+}
+
+/**
+ * Whether the employer responded to a submitted application
+ * Any move past the applied stage (or a rejection/acceptance) counts
+ */
+function hasResponse(reached: Set<string>): boolean {
+  const order = getStatusOrder();
+  const appliedIndex = order.indexOf(APPLIED_STATUS);
+  const terminal = getTerminalStates();
+
+  return [...reached].some((status) => {
+    if (terminal.includes(status)) {
+      return status !== NO_RESPONSE_TERMINAL_STATUS;
+    }
+    return appliedIndex >= 0 && order.indexOf(status) > appliedIndex;
+  });
+}
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+/**
+ * Get the Monday starting the week of a date (local time)
+ * @returns Date formatted as YYYY-MM-DD
+ */
+function getWeekStart(isoString: string): string {
+  const date = new Date(isoString);
+  const day = (date.getDay() + 6) % 7; // Monday = 0
+  date.setDate(date.getDate() - day);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const dayOfMonth = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${dayOfMonth}`;
+}
+
+/**
+ * Compute analytics for a set of jobs
+ * @param jobs - All stored jobs
+ * @returns Funnel, time-in-status, response rates and weekly applications
+ */
+export function computeJobAnalytics(jobs: Job[]): JobAnalytics {
+  const order = getStatusOrder();
+  const reachedByJob = jobs.map((job) => getReachedStatuses(job));
+
+  // Funnel: conversion is measured against the previous non-terminal stage
+  const terminal = getTerminalStates();
+  let previousCount: number | null = null;
+  const funnel: FunnelStage[] = order.map((status) => {
+    const count = reachedByJob.filter((reached) => reached.has(status)).length;
+    const stage: FunnelStage = {
+      status,
+      count,
+      conversionRate:
+        previousCount === null
+          ? null
+          : previousCount > 0
+            ? count / previousCount
+            : 0,
+    };
+    if (!terminal.includes(status)) previousCount = count;
+    return stage;
+  });
+
+  // Median days per status across the jobs that spent time there
+  const durationsByStatus: Record<string, number[]> = {};
+  for (const job of jobs) {
+    const totals = getTimeByStatus(job);
+    for (const [status, ms] of Object.entries(totals)) {
+      (durationsByStatus[status] ||= []).push(ms / MS_PER_DAY);
+    }
+  }
+  const statusDurations: StatusDuration[] = order.map((status) => {
+    const durations = durationsByStatus[status] || [];
+    return {
+      status,
+      medianDays: median(durations),
+      sampleSize: durations.length,
+    };
+  });
+
+  // Response rate by source, for submitted applications only
+  const bySource: Record<string, { applied: number; responded: number }> = {};
+  const weekly: Record<string, number> = {};
+  jobs.forEach((job, index) => {
+    const reached = reachedByJob[index];
+    const appliedAt = getAppliedAt(job);
+    if (!appliedAt && !reached.has(APPLIED_STATUS)) return;
+
+    const source = getJobSource(job);
+    const entry = (bySource[source] ||= { applied: 0, responded: 0 });
+    entry.applied++;
+    if (hasResponse(reached)) entry.responded++;
+
+    if (appliedAt) {
+      const week = getWeekStart(appliedAt);
+      weekly[week] = (weekly[week] || 0) + 1;
+    }
+  });
+
+  const responseRates: SourceResponseRate[] = Object.entries(bySource)
+    .map(([source, { applied, responded }]) => ({
+      source,
+      applied,
+      responded,
+      responseRate: applied > 0 ? responded / applied : null,
+    }))
+    .sort((a, b) => b.applied - a.applied);
+
+  const applicationsPerWeek: WeeklyApplications[] = Object.entries(weekly)
+    .map(([weekStart, count]) => ({ weekStart, count }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+
+  return {
+    totalJobs: jobs.length,
+    funnel,
+    statusDurations,
+    responseRates,
+    applicationsPerWeek,
+  };
+}
+
+/**
+ * Format a rate (0-1) as a percentage
+ */
+export function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Build CSV rows for every analytics table
+ * Tables are separated by a blank row and start with a section title
+ * @param analytics - Result from computeJobAnalytics()
+ * @returns Rows of cell values
+ */
+export function analyticsToCsvRows(analytics: JobAnalytics): string[][] {
+  const round = (value: number | null, digits = 1) =>
+    value === null ? '' : value.toFixed(digits);
+
+  return [
+    ['Funnel'],
+    ['Status', 'Jobs reached', 'Conversion from previous stage'],
+    ...analytics.funnel.map((stage) => [
+      stage.status,
+      String(stage.count),
+      round(stage.conversionRate === null ? null : stage.conversionRate * 100),
+    ]),
+    [],
+    ['Time in status'],
+    ['Status', 'Median days', 'Jobs'],
+    ...analytics.statusDurations.map((duration) => [
+      duration.status,
+      round(duration.medianDays),
+      String(duration.sampleSize),
+    ]),
+    [],
+    ['Response rate by source'],
+    ['Source', 'Applied', 'Responded', 'Response rate %'],
+    ...analytics.responseRates.map((rate) => [
+      rate.source,
+      String(rate.applied),
+      String(rate.responded),
+      round(rate.responseRate === null ? null : rate.responseRate * 100),
+    ]),
+    [],
+    ['Applications per week'],
+    ['Week starting', 'Applications'],
+    ...analytics.applicationsPerWeek.map((week) => [
+      week.weekStart,
+      String(week.count),
+    ]),
+  ];
+}
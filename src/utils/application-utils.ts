@@ -0,0 +1,236 @@
+/**
+ * Application tracking utilities for sir-hires Chrome extension
+ * Helpers for the post-submission phases of a job application
+ */
+
+import type {
+  JobDocument,
+  InterviewRound,
+  JobOutcome,
+} from '../entrypoints/job-details/hooks';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Number of days after applying before a follow-up is suggested
+ */
+export const FOLLOW_UP_REMINDER_DAYS = 7;
+
+/**
+ * Create frozen copies of the documents that were sent with an application
+ * Empty documents are skipped since they were never part of the submission
+ * @param documents - The job's current documents
+ * @returns Deep copies of all non-empty documents, keyed as in the source
+ */
+export function freezeDocuments(
+  documents: Record<string, JobDocument> | undefined
+): Record<string, JobDocument> {
+  const frozen: Record<string, JobDocument> = {};
+
+  for (const [key, doc] of Object.entries(documents || {})) {
+    if (!doc.text || !doc.text.trim()) continue;
+    frozen[key] = { ...doc };
+  }
+
+  return frozen;
+}
+
+/**
+ * Count whole calendar days elapsed since a timestamp
+ * @param isoDate - ISO timestamp to measure from
+ * @returns Days elapsed (0 for today), or null if the date is missing/invalid
+ */
+export function getDaysSince(isoDate: string | undefined): number | null {
+  if (!isoDate) return null;
+
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return null;
+
+  const now = new Date();
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const dateStart = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate()
+  );
+
+  return Math.max(
+    0,
+    Math.round((todayStart.getTime() - dateStart.getTime()) / MS_PER_DAY)
+  );
+}
+
+/**
+ * Convert an ISO timestamp to a value for <input type="date">
+ * @param isoDate - ISO timestamp
+ * @returns Local date in YYYY-MM-DD format, or empty string if invalid
+ */
+export function toDateInputValue(isoDate: string | undefined): string {
+  if (!isoDate) return '';
+
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return '';
+
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Convert an <input type="date"> value to an ISO timestamp
+ * Uses local noon so the date survives timezone conversion
+ * @param value - Date in YYYY-MM-DD format
+ * @returns ISO timestamp, or null if the value is invalid
+ */
+export function fromDateInputValue(value: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+
+  const date = new Date(`${value}T12:00:00`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Build a starter follow-up message for an application
+ * @param jobTitle - Title of the position applied for
+ * @param company - Company name
+ * @param appliedAt - ISO timestamp of the submission
+ * @returns Plain-text message the user can edit before sending
+ */
+export function buildFollowUpDraft(
+  jobTitle: string,
+  company: string,
+  appliedAt: string | undefined
+): string {
+  const appliedDate = appliedAt
+    ? new Date(appliedAt).toLocaleDateString(undefined, {
+        month: 'long',
+        day: 'numeric',
+      })
+    : null;
+  const appliedPhrase = appliedDate ? ` on ${appliedDate}` : '';
+
+  return [
+    'Hi,',
+    '',
+    `I applied for the ${jobTitle} position at ${company}${appliedPhrase} and wanted to follow up on my application.`,
+    '',
+    `I'm still very interested in the role and would welcome the chance to discuss how I could contribute to the team. Please let me know if there is anything else I can provide.`,
+    '',
+    'Thank you for your time,',
+  ].join('\n');
+}
+
+/**
+ * Convert an ISO timestamp to a value for <input type="datetime-local">
+ * @param isoDate - ISO timestamp
+ * @returns Local date and time in YYYY-MM-DDTHH:mm format, or empty string if invalid
+ */
+export function toDateTimeInputValue(
+  isoDate: string | null | undefined
+): string {
+  if (!isoDate) return '';
+
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return '';
+
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${toDateInputValue(isoDate)}T${hours}:${minutes}`;
+}
+
+/**
+ * Convert an <input type="datetime-local"> value to an ISO timestamp
+ * @param value - Local date and time in YYYY-MM-DDTHH:mm format
+ * @returns ISO timestamp, or null if the value is empty/invalid
+ */
+export function fromDateTimeInputValue(value: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Starter prep notes for an interview round
+ * Mirrors the Interviewing checklist so prep lives next to each round
+ */
+export const INTERVIEW_PREP_TEMPLATE = [
+  '## Interviewer research',
+  '- ',
+  '',
+  '## STAR stories',
+  '- Situation / Task / Action / Result',
+  '',
+  '## Questions to ask',
+  '- ',
+].join('\n');
+
+/**
+ * Create an empty interview round
+ * @param roundNumber - 1-based position of the round, used for the default name
+ * @returns New round with a unique ID
+ */
+export function createInterviewRound(roundNumber: number): InterviewRound {
+  return {
+    id: `round_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+    name: `Round ${roundNumber}`,
+    scheduledAt: null,
+    format: 'Video',
+    interviewers: [],
+    prepNotes: '',
+    debriefNotes: '',
+    outcome: 'Scheduled',
+    thankYouSent: false,
+  };
+}
+
+/**
+ * Parse a comma-separated list of interviewer names
+ * @param text - Raw input (e.g., "Jane Doe, John Smith")
+ * @returns Trimmed, non-empty names
+ */
+export function parseInterviewers(text: string): string[] {
+  return text
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Find the next upcoming interview round
+ * @param rounds - Interview rounds for a job
+ * @returns The soonest round scheduled in the future, or null
+ */
+export function getNextInterview(
+  rounds: InterviewRound[] | undefined
+): InterviewRound | null {
+  const now = Date.now();
+  let next: InterviewRound | null = null;
+
+  for (const round of rounds || []) {
+    if (!round.scheduledAt || round.outcome === 'Cancelled') continue;
+    const time = new Date(round.scheduledAt).getTime();
+    if (isNaN(time) || time < now) continue;
+    if (!next || time < new Date(next.scheduledAt!).getTime()) {
+      next = round;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Create outcome data for an application that just reached a terminal status
+ * @param stage - Status the application was in before the outcome
+ * @returns Outcome stamped with the current time and empty retrospective fields
+ */
+export function createOutcome(stage: string): JobOutcome {
+  return {
+    decidedAt: new Date().toISOString(),
+    stage,
+    reason: '',
+    feedback: '',
+    lessonsLearned: '',
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Automatic local backups
+ *
+ * The background schedules a browser alarm (daily or weekly) that writes a
+ * backup through browser.downloads into a subfolder of the downloads
+ * directory. Every file written is recorded in autoBackupHistoryStorage so
+ * the oldest can be deleted once more than keepCount exist. Destructive
+ * operations (clear all, restore, merge) force a backup first, even when the
+ * schedule is off; these safety backups rotate separately so they cannot
+ * push out the scheduled ones.
+ *
+ * Only the background writes backups (pages call requestAutoBackup), and its
+ * writes run one at a time, so history updates are never lost.
+ *
+ * Files are compact JSON, encrypted with the session passphrase when the
+ * user turned encryption on (see backup-crypto.ts).
+ */
+
+import { browser, type Browser } from 'wxt/browser';
+import {
+  autoBackupSettingsStorage,
+  autoBackupHistoryStorage,
+  autoBackupPassphraseStorage,
+  type AutoBackupFrequency,
+  type AutoBackupRecord,
+} from './storage';
+import { createBackup } from './backup-schema';
+import { encryptBackup, toBase64 } from './backup-crypto';
+
+/** Alarm name used for scheduled backups */
+export const AUTO_BACKUP_ALARM = 'auto-backup';
+
+/** Subfolder of the downloads directory backups are written to */
+export const AUTO_BACKUP_FOLDER = 'sir-hires-backups';
+
+/** Numbers of backup files to keep offered in the settings */
+export const AUTO_BACKUP_KEEP_OPTIONS = [3, 5, 10, 20];
+
+const PERIOD_MINUTES: Record<Exclude<AutoBackupFrequency, 'off'>, number> = {
+  daily: 60 * 24,
+  weekly: 60 * 24 * 7,
+};
+
+type AutoBackupReason = AutoBackupRecord['reason'];
+
+// Backups forced before a destructive operation
+const SAFETY_REASONS: AutoBackupReason[] = [
+  'before-clear',
+  'before-restore',
+  'before-merge',
+];
+
+const isSafetyBackup = (record: AutoBackupRecord): boolean =>
+  SAFETY_REASONS.includes(record.reason);
+
+/**
+ * Create, update or clear the backup alarm to match the settings
+ * An existing alarm with the same period is left alone so restarting the
+ * service worker does not push the next backup back.
+ */
+export async function scheduleAutoBackup(): Promise<void> {
+  const { frequency } = await autoBackupSettingsStorage.getValue();
+  const existing = await browser.alarms.get(AUTO_BACKUP_ALARM);
+
+  if (frequency === 'off') {
+    if (existing) await browser.alarms.clear(AUTO_BACKUP_ALARM);
+    return;
+  }
+
+  const periodInMinutes = PERIOD_MINUTES[frequency];
+  if (existing?.periodInMinutes === periodInMinutes) return;
+
+  await browser.alarms.create(AUTO_BACKUP_ALARM, {
+    delayInMinutes: periodInMinutes,
+    periodInMinutes,
+  });
+  console.info(`[AutoBackup] Scheduled ${frequency} backups`);
+}
+
+/**
+ * Delete a backup file and its downloads entry
+ * Failures are logged only: the file may already be deleted or moved.
+ */
+async function deleteBackupFile(record: AutoBackupRecord): Promise<void> {
+  try {
+    await browser.downloads.removeFile(record.downloadId);
+  } catch (error) {
+    console.warn('[AutoBackup] Could not delete', record.filename, error);
+  }
+  try {
+    await browser.downloads.erase({ id: record.downloadId });
+  } catch (error) {
+    console.warn('[AutoBackup] Could not erase', record.filename, error);
+  }
+}
+
+/**
+ * Delete backup files beyond the configured number of copies
+ * Scheduled/manual backups and safety backups each keep keepCount files.
+ * @param history - Records newest first
+ * @returns The records that were kept
+ */
+async function rotateBackups(
+  history: AutoBackupRecord[],
+  keepCount: number
+): Promise<AutoBackupRecord[]> {
+  const regular = history.filter((record) => !isSafetyBackup(record));
+  const safety = history.filter(isSafetyBackup);
+  const removed = new Set([
+    ...regular.slice(keepCount),
+    ...safety.slice(keepCount),
+  ]);
+
+  for (const record of removed) {
+    await deleteBackupFile(record);
+  }
+  return history.filter((record) => !removed.has(record));
+}
+
+// Serializes writes so concurrent backups don't overwrite each other's history
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Write a backup file to the downloads folder and rotate old copies
+ * Background only; other contexts use requestAutoBackup.
+ * @returns The record of the new file
+ */
+export function writeAutoBackup(
+  reason: AutoBackupReason
+): Promise<AutoBackupRecord> {
+  const write = writeQueue.then(() => doWriteAutoBackup(reason));
+  writeQueue = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Start downloading a JSON file
+ * Uses an object URL where the context has one (revoked once the download
+ * ends); service workers cannot create them, so they get a base64 data URL.
+ */
+async function downloadJson(json: string, filename: string): Promise<number> {
+  if (typeof URL.createObjectURL !== 'function') {
+    return browser.downloads.download({
+      url:
+        'data:application/json;base64,' +
+        toBase64(new globalThis.TextEncoder().encode(json)),
+      filename,
+      saveAs: false,
+      conflictAction: 'uniquify',
+    });
+  }
+
+  const url = URL.createObjectURL(
+    new Blob([json], { type: 'application/json' })
+  );
+  try {
+    const downloadId = await browser.downloads.download({
+      url,
+      filename,
+      saveAs: false,
+      conflictAction: 'uniquify',
+    });
+    const listener = (delta: Browser.downloads.DownloadDelta) => {
+      const state = delta.state?.current;
+      if (delta.id !== downloadId || !state || state === 'in_progress') return;
+      browser.downloads.onChanged.removeListener(listener);
+      URL.revokeObjectURL(url);
+    };
+    browser.downloads.onChanged.addListener(listener);
+    return downloadId;
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+}
+
+async function doWriteAutoBackup(
+  reason: AutoBackupReason
+): Promise<AutoBackupRecord> {
+  const [settings, passphrase] = await Promise.all([
+    autoBackupSettingsStorage.getValue(),
+    autoBackupPassphraseStorage.getValue(),
+  ]);
+  // Never fall back to plaintext when the user asked for encryption
+  if (settings.encrypt && !passphrase) {
+    throw new Error(
+      'Enter the backup passphrase in Automatic Backups to resume encrypted backups'
+    );
+  }
+
+  const backup = await createBackup();
+  const timestamp = backup.exportDate.replace(/[:.]/g, '-');
+  const filename = settings.encrypt
+    ? `${AUTO_BACKUP_FOLDER}/sir-hires-backup-${timestamp}.encrypted.json`
+    : `${AUTO_BACKUP_FOLDER}/sir-hires-backup-${timestamp}.json`;
+
+  const json = JSON.stringify(
+    settings.encrypt && passphrase
+      ? await encryptBackup(backup, passphrase)
+      : backup
+  );
+  const downloadId = await downloadJson(json, filename);
+
+  const record: AutoBackupRecord = {
+    downloadId,
+    filename,
+    createdAt: backup.exportDate,
+    reason,
+  };
+
+  const [history, { keepCount }] = await Promise.all([
+    autoBackupHistoryStorage.getValue(),
+    autoBackupSettingsStorage.getValue(),
+  ]);
+  await autoBackupHistoryStorage.setValue(
+    await rotateBackups([record, ...history], keepCount)
+  );
+
+  console.info(`[AutoBackup] Wrote ${filename} (${reason})`);
+  return record;
+}
+
+/**
+ * Ask the background to write a backup (see writeAutoBackup)
+ * @returns The record of the new file
+ * @throws If the backup could not be written
+ */
+export async function requestAutoBackup(
+  reason: AutoBackupReason
+): Promise<AutoBackupRecord> {
+  const response = (await browser.runtime.sendMessage({
+    action: 'writeAutoBackup',
+    reason,
+  })) as
+    | { success: true; record: AutoBackupRecord }
+    | { success: false; error?: string }
+    | undefined;
+
+  if (!response?.success) {
+    throw new Error(response?.error || 'Backup failed');
+  }
+  return response.record;
+}
@@ -0,0 +1,201 @@
+/**
+ * Passphrase encryption for backup files
+ *
+ * The backup envelope (see backup-schema.ts) is serialized and encrypted
+ * locally with WebCrypto: a key is derived from the passphrase with PBKDF2
+ * (SHA-256, random salt) and used for AES-GCM (random IV). Everything needed
+ * to decrypt except the passphrase is stored alongside the ciphertext:
+ *
+ *   {
+ *     format: 'sir-hires-encrypted-backup',
+ *     version: 1,
+ *     exportDate: ISO string,
+ *     kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt },
+ *     cipher: { name: 'AES-GCM', iv },
+ *     ciphertext
+ *   }
+ *
+ * Binary values are base64 encoded. The passphrase never leaves the browser.
+ */
+
+import type { BackupEnvelope } from './backup-schema';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'sir-hires-encrypted-backup';
+
+/** Minimum passphrase length accepted when encrypting */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 600000;
+// Files asking for more would freeze the page while deriving the key
+const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Encrypted backup file contents
+ */
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  /** Left unencrypted so the date can be shown before decrypting */
+  exportDate: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+/**
+ * Base64-encode bytes (chunked so large inputs don't overflow the stack)
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return globalThis.btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(globalThis.atob(value), (c) => c.charCodeAt(0));
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new globalThis.TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Check whether a parsed backup file is encrypted
+ */
+export function isEncryptedBackup(value: unknown): value is EncryptedBackup {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { format?: unknown }).format === ENCRYPTED_BACKUP_FORMAT
+  );
+}
+
+const isBase64 = (value: unknown): boolean =>
+  typeof value === 'string' &&
+  value.length > 0 &&
+  /^[A-Za-z0-9+/]*={0,2}$/.test(value);
+
+/**
+ * Check the structure of an encrypted backup before asking for a passphrase
+ * @returns Why the file cannot be decrypted, or null if it looks usable
+ */
+export function checkEncryptedBackup(
+  encrypted: EncryptedBackup
+): string | null {
+  if (encrypted.version !== 1) {
+    return `Unsupported encrypted backup version "${encrypted.version}".`;
+  }
+
+  const { kdf, cipher } = encrypted as Partial<EncryptedBackup>;
+  if (
+    typeof kdf !== 'object' ||
+    kdf === null ||
+    kdf.name !== 'PBKDF2' ||
+    kdf.hash !== 'SHA-256' ||
+    !isBase64(kdf.salt)
+  ) {
+    return 'The encrypted backup has missing or unsupported key settings.';
+  }
+  if (
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < 1 ||
+    kdf.iterations > MAX_PBKDF2_ITERATIONS
+  ) {
+    return 'The encrypted backup has an invalid iteration count.';
+  }
+  if (
+    typeof cipher !== 'object' ||
+    cipher === null ||
+    cipher.name !== 'AES-GCM' ||
+    !isBase64(cipher.iv) ||
+    !isBase64(encrypted.ciphertext)
+  ) {
+    return 'The encrypted backup is damaged or uses an unsupported cipher.';
+  }
+  return null;
+}
+
+/**
+ * Encrypt a backup with a passphrase
+ */
+export async function encryptBackup(
+  backup: BackupEnvelope,
+  passphrase: string
+): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new globalThis.TextEncoder().encode(JSON.stringify(backup))
+  );
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    exportDate: backup.exportDate,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a backup
+ * @returns The parsed backup file (validate it with validateBackup)
+ * @throws If the file is malformed (see checkEncryptedBackup), the
+ * passphrase is wrong or the file was modified
+ */
+export async function decryptBackup(
+  encrypted: EncryptedBackup,
+  passphrase: string
+): Promise<unknown> {
+  const structureError = checkEncryptedBackup(encrypted);
+  if (structureError) throw new Error(structureError);
+
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(
+      passphrase,
+      fromBase64(encrypted.kdf.salt),
+      encrypted.kdf.iterations
+    );
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.cipher.iv) },
+      key,
+      fromBase64(encrypted.ciphertext)
+    );
+  } catch {
+    // AES-GCM authentication fails for both a wrong passphrase and tampering
+    throw new Error('Wrong passphrase or damaged backup file.');
+  }
+
+  return JSON.parse(new globalThis.TextDecoder().decode(plaintext));
+}
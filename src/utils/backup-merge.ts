@@ -0,0 +1,311 @@
+/**
+ * Merge-restore for backups
+ *
+ * Brings the jobs from a backup into the current data without wiping it.
+ * Backup jobs are matched to local jobs by id, then by normalized URL.
+ * Unmatched backup jobs are added; matched jobs that differ are conflicts the
+ * user resolves one by one (newer, local or backup). Whichever version wins,
+ * documents and checklists from both copies are merged so no work is lost.
+ */
+
+import type {
+  Job,
+  JobDocument,
+  ChecklistItem,
+} from '../entrypoints/job-details/hooks';
+import { normalizeUrl } from './shared-utils';
+
+/**
+ * How to resolve a conflicting job
+ */
+export type MergeResolution = 'newer' | 'local' | 'backup';
+
+/**
+ * A backup job that matches a different local version
+ */
+export interface BackupJobConflict {
+  localJob: Job;
+  backupJob: Job;
+  matchedBy: 'id' | 'url';
+  /** Which copy was updated more recently */
+  newer: 'local' | 'backup';
+}
+
+/**
+ * Result of comparing a backup with the local jobs
+ */
+export interface BackupMergePlan {
+  /** Backup jobs with no local match (added as-is) */
+  newJobs: Job[];
+  /** Backup jobs identical to their local match */
+  unchangedCount: number;
+  /** Matched jobs that differ, keyed by local job id */
+  conflicts: Record<string, BackupJobConflict>;
+}
+
+/**
+ * What a merge will do (or did)
+ */
+export interface BackupMergeSummary {
+  added: number;
+  /** Conflicts resolved in favor of the backup */
+  updatedFromBackup: number;
+  /** Conflicts resolved in favor of the local job */
+  keptLocal: number;
+  unchanged: number;
+}
+
+const getTime = (job: Job): number =>
+  new Date(job.updatedAt || job.createdAt || 0).getTime() || 0;
+
+const isSameJob = (a: Job, b: Job): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const getNewer = (localJob: Job, backupJob: Job): 'local' | 'backup' =>
+  getTime(backupJob) > getTime(localJob) ? 'backup' : 'local';
+
+/**
+ * Index jobs by normalized URL (first job wins)
+ */
+function indexByUrl(jobs: Record<string, Job>): Map<string, Job> {
+  const byUrl = new Map<string, Job>();
+  Object.values(jobs).forEach((job) => {
+    const url = normalizeUrl(job.url);
+    if (url && !byUrl.has(url)) byUrl.set(url, job);
+  });
+  return byUrl;
+}
+
+const findByUrl = (byUrl: Map<string, Job>, job: Job): Job | undefined => {
+  const url = normalizeUrl(job.url);
+  return url ? byUrl.get(url) : undefined;
+};
+
+/**
+ * Compare backup jobs with local jobs
+ * @param localJobs - Current jobs keyed by id
+ * @param backupJobs - Jobs from the backup keyed by id
+ */
+export function analyzeBackupMerge(
+  localJobs: Record<string, Job>,
+  backupJobs: Record<string, Job>
+): BackupMergePlan {
+  const localByUrl = indexByUrl(localJobs);
+
+  const plan: BackupMergePlan = {
+    newJobs: [],
+    unchangedCount: 0,
+    conflicts: {},
+  };
+
+  for (const [id, backupJob] of Object.entries(backupJobs)) {
+    const job: Job = { ...backupJob, id: backupJob.id || id };
+    const byId = localJobs[job.id];
+    const localJob = byId ?? findByUrl(localByUrl, job);
+
+    if (!localJob) {
+      plan.newJobs.push(job);
+    } else if (plan.conflicts[localJob.id]) {
+      // A second backup job matching the same local job: keep it separately
+      plan.newJobs.push(job);
+    } else if (isSameJob(localJob, job)) {
+      plan.unchangedCount++;
+    } else {
+      plan.conflicts[localJob.id] = {
+        localJob,
+        backupJob: job,
+        matchedBy: byId ? 'id' : 'url',
+        newer: getNewer(localJob, job),
+      };
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Job fields import files carry: the same for every job, or per job id
+ */
+export type ImportedFields =
+  | readonly (keyof Job)[]
+  | Record<string, readonly (keyof Job)[]>;
+
+/**
+ * Prepare jobs rebuilt from import files for analyzeBackupMerge
+ * Import files carry only some fields, so a job matching a local job (by id,
+ * then URL) takes the rest (history, checklist progress, interviews...) from
+ * the local copy. Unedited files then compare as unchanged.
+ * @param fields - Job fields the import files carry
+ */
+export function overlayImportedJobs(
+  localJobs: Record<string, Job>,
+  importedJobs: Record<string, Job>,
+  fields: ImportedFields
+): Record<string, Job> {
+  const localByUrl = indexByUrl(localJobs);
+  const prepared: Record<string, Job> = {};
+
+  for (const [id, imported] of Object.entries(importedJobs)) {
+    const localJob = localJobs[id] ?? findByUrl(localByUrl, imported);
+    if (!localJob) {
+      prepared[id] = imported;
+      continue;
+    }
+
+    const job: Job = { ...localJob };
+    const jobFields: readonly (keyof Job)[] = Array.isArray(fields)
+      ? fields
+      : ((fields as Record<string, readonly (keyof Job)[]>)[id] ?? []);
+    for (const field of jobFields) {
+      const value = imported[field];
+      if (value !== undefined && value !== '') {
+        (job as unknown as Record<string, unknown>)[field] = value;
+      }
+    }
+    prepared[id] = job;
+  }
+
+  return prepared;
+}
+
+/**
+ * Union of two document sets; the more recently edited copy wins per key
+ */
+function mergeDocuments(
+  primary: Record<string, JobDocument> = {},
+  secondary: Record<string, JobDocument> = {}
+): Record<string, JobDocument> {
+  const merged = { ...secondary, ...primary };
+  for (const [key, doc] of Object.entries(secondary)) {
+    const other = primary[key];
+    if (
+      other &&
+      new Date(doc.lastEdited || 0).getTime() >
+        new Date(other.lastEdited || 0).getTime()
+    ) {
+      merged[key] = doc;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Union of two checklists by status and item id
+ * An item checked in either copy stays checked.
+ */
+function mergeChecklists(
+  primary: Record<string, ChecklistItem[]> = {},
+  secondary: Record<string, ChecklistItem[]> = {}
+): Record<string, ChecklistItem[]> {
+  const merged: Record<string, ChecklistItem[]> = {};
+  const statuses = new Set([
+    ...Object.keys(primary),
+    ...Object.keys(secondary),
+  ]);
+
+  statuses.forEach((status) => {
+    const items = primary[status] || [];
+    const otherItems = secondary[status] || [];
+    const otherById = new Map(otherItems.map((item) => [item.id, item]));
+    const ids = new Set(items.map((item) => item.id));
+
+    merged[status] = [
+      ...items.map((item) => ({
+        ...item,
+        checked: item.checked || !!otherById.get(item.id)?.checked,
+      })),
+      ...otherItems.filter((item) => !ids.has(item.id)),
+    ];
+  });
+
+  return merged;
+}
+
+/**
+ * Resolve one conflict: the chosen copy's fields, both copies' documents and
+ * checklists. The local id is kept so references (e.g., jobInFocus) stay valid.
+ */
+export function resolveConflict(
+  conflict: BackupJobConflict,
+  resolution: MergeResolution
+): Job {
+  const winner = resolution === 'newer' ? conflict.newer : resolution;
+  const [primary, secondary] =
+    winner === 'backup'
+      ? [conflict.backupJob, conflict.localJob]
+      : [conflict.localJob, conflict.backupJob];
+
+  return {
+    ...primary,
+    id: conflict.localJob.id,
+    documents: mergeDocuments(primary.documents, secondary.documents),
+    checklist: mergeChecklists(primary.checklist, secondary.checklist),
+  };
+}
+
+/**
+ * Build the merged job set
+ * Conflicts are resolved against the given local jobs rather than the copies
+ * captured in the plan, so edits made since the plan was built are kept. A
+ * conflicted job that was deleted meanwhile, or now matches the backup, is
+ * left as it is.
+ * @param localJobs - Latest local jobs
+ * @param resolutions - Per-conflict choice keyed by local job id (default 'newer')
+ */
+export function applyBackupMerge(
+  localJobs: Record<string, Job>,
+  plan: BackupMergePlan,
+  resolutions: Record<string, MergeResolution>
+): Record<string, Job> {
+  const merged: Record<string, Job> = { ...localJobs };
+
+  for (const [localId, conflict] of Object.entries(plan.conflicts)) {
+    const latest = localJobs[localId];
+    if (!latest || isSameJob(latest, conflict.backupJob)) continue;
+
+    merged[localId] = resolveConflict(
+      {
+        ...conflict,
+        localJob: latest,
+        newer: getNewer(latest, conflict.backupJob),
+      },
+      resolutions[localId] ?? 'newer'
+    );
+  }
+
+  for (const job of plan.newJobs) {
+    // Never overwrite a local job that happens to share the id
+    const id = merged[job.id] ? `${job.id}_restored` : job.id;
+    merged[id] = { ...job, id };
+  }
+
+  return merged;
+}
+
+/**
+ * Count what a merge will do with the given resolutions
+ */
+export function summarizeBackupMerge(
+  plan: BackupMergePlan,
+  resolutions: Record<string, MergeResolution>
+): BackupMergeSummary {
+  let updatedFromBackup = 0;
+  let keptLocal = 0;
+
+  for (const [localId, conflict] of Object.entries(plan.conflicts)) {
+    const resolution = resolutions[localId] ?? 'newer';
+    const winner = resolution === 'newer' ? conflict.newer : resolution;
+    if (winner === 'backup') {
+      updatedFromBackup++;
+    } else {
+      keptLocal++;
+    }
+  }
+
+  return {
+    added: plan.newJobs.length,
+    updatedFromBackup,
+    keptLocal,
+    unchanged: plan.unchangedCount,
+  };
+}
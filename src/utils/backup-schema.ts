@@ -0,0 +1,536 @@
+/**
+ * Backup file format and validation
+ *
+ * A backup is a versioned envelope around a snapshot of storage:
+ *
+ *   { version: '1.0', exportDate: ISO string, data: BackupData }
+ *
+ * Files from older builds that contain the raw data without an envelope are
+ * still accepted. validateBackup() checks every section and record against
+ * the schema and returns only the valid subset, with a report of what was
+ * skipped or fixed, so a truncated or hand-edited file never reaches storage.
+ */
+
+import type { Job } from '../entrypoints/job-details/hooks';
+import type { Pipeline } from '../config';
+import {
+  getAllStorageData,
+  type UserProfile,
+  type LLMSettings,
+  type ViewerFilters,
+  type DataVersion,
+  type ThemePreference,
+  type CustomDocumentTemplate,
+  type TrashedJob,
+  type AutoBackupSettings,
+  type CsvMappingPreset,
+  type NamedProfile,
+} from './storage';
+import { validateJobObject } from './dev-validators';
+import { validatePipeline } from './pipeline-utils';
+
+/** Envelope version written by this build */
+export const BACKUP_FORMAT_VERSION = '1.0';
+
+/** Envelope versions this build can read */
+const SUPPORTED_BACKUP_VERSIONS = ['1.0'];
+
+/**
+ * Storage snapshot contained in a backup (every section is optional)
+ */
+export interface BackupData {
+  jobs?: Record<string, Job>;
+  jobInFocus?: string | null;
+  userProfile?: UserProfile | null;
+  llmSettings?: LLMSettings | null;
+  viewerFilters?: ViewerFilters | null;
+  checklistExpanded?: boolean;
+  dataVersion?: DataVersion;
+  themePreference?: ThemePreference;
+  chivalryPoints?: number;
+  pipeline?: Pipeline | null;
+  trash?: Record<string, TrashedJob>;
+  trashRetentionDays?: number;
+  customDocumentTemplates?: Record<string, CustomDocumentTemplate>;
+  autoBackupSettings?: AutoBackupSettings;
+  csvMappingPresets?: Record<string, CsvMappingPreset>;
+  profiles?: Record<string, NamedProfile>;
+  defaultProfileId?: string | null;
+}
+
+/**
+ * Backup file contents
+ */
+export interface BackupEnvelope {
+  version: string;
+  exportDate: string;
+  data: BackupData;
+}
+
+/**
+ * A problem found in a backup
+ * - error: the record or section was skipped
+ * - warning: it was imported, but something was dropped or fixed
+ */
+export interface BackupIssue {
+  severity: 'error' | 'warning';
+  /** Section of the backup (e.g., 'jobs', 'llmSettings') */
+  section: string;
+  /** Record within the section (e.g., job ID) */
+  recordId?: string;
+  message: string;
+}
+
+/**
+ * Outcome of validating a backup file
+ */
+export interface BackupValidationResult {
+  /** Set when the file cannot be used at all */
+  fatalError: string | null;
+  /** The valid subset of the backup */
+  data: BackupData;
+  /** Export date from the envelope (null for legacy files) */
+  exportDate: string | null;
+  issues: BackupIssue[];
+  validJobCount: number;
+  skippedJobCount: number;
+}
+
+const THEME_MODES = ['light', 'dark', 'system'];
+const COLOR_THEMES = ['sir-hires', 'lancelot', 'gawain', 'yvain'];
+
+// Fields that only exist while a job is being extracted
+const TRANSIENT_JOB_FIELDS = ['isExtracting', 'extractionError'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isDateString = (value: unknown): boolean =>
+  isString(value) && !isNaN(new Date(value).getTime());
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean) =>
+  value === undefined || check(value);
+
+const isNullableString = (value: unknown): boolean =>
+  value === null || isString(value);
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean) =>
+  Array.isArray(value) && value.every(check);
+
+// Shapes of the structured job fields (see Job in job-details/hooks/types)
+const isStatusTransition = (v: unknown): boolean =>
+  isObject(v) &&
+  isNullableString(v.from) &&
+  isString(v.to) &&
+  isDateString(v.at) &&
+  isOptional(v.note, isString);
+
+const isFollowUp = (v: unknown): boolean =>
+  isObject(v) && isString(v.id) && isString(v.text) && isDateString(v.sentAt);
+
+const isInterviewRound = (v: unknown): boolean =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.name) &&
+  (v.scheduledAt === null || isDateString(v.scheduledAt)) &&
+  isString(v.format) &&
+  isArrayOf(v.interviewers, isString) &&
+  isString(v.prepNotes) &&
+  isString(v.debriefNotes) &&
+  isString(v.outcome) &&
+  typeof v.thankYouSent === 'boolean';
+
+const isJobOutcome = (v: unknown): boolean =>
+  isObject(v) &&
+  (v.decidedAt === null || isDateString(v.decidedAt)) &&
+  isString(v.stage) &&
+  isString(v.reason) &&
+  isString(v.feedback) &&
+  isString(v.lessonsLearned);
+
+/**
+ * Create a backup envelope from everything in storage
+ */
+export async function createBackup(): Promise<BackupEnvelope> {
+  return {
+    version: BACKUP_FORMAT_VERSION,
+    exportDate: new Date().toISOString(),
+    data: (await getAllStorageData()) as BackupData,
+  };
+}
+
+/**
+ * Validate one job record
+ * @returns The cleaned job, or the reason it is invalid
+ */
+function validateJob(
+  value: unknown,
+  key: string,
+  issues: BackupIssue[],
+  section: string
+): Job | string {
+  if (!isObject(value)) return 'Not a job object';
+
+  const job: Record<string, unknown> = { ...value };
+  TRANSIENT_JOB_FIELDS.forEach((field) => delete job[field]);
+
+  if (job.id === undefined) {
+    job.id = key;
+    issues.push({
+      severity: 'warning',
+      section,
+      recordId: key,
+      message: 'Missing ID; using its key',
+    });
+  }
+  if (!isString(job.id) || !job.id) return 'ID must be a non-empty string';
+  if (!isString(job.url)) return 'URL must be a string';
+  if (!isString(job.applicationStatus)) return 'Status must be a string';
+  if (!isOptional(job.content, isString)) return 'Content must be a string';
+  if (!isOptional(job.createdAt, isDateString)) return 'Invalid createdAt date';
+  if (!isOptional(job.updatedAt, isDateString)) return 'Invalid updatedAt date';
+  if (!isOptional(job.profileId, isString))
+    return 'Profile ID must be a string';
+  if (!isOptional(job.source, isString)) return 'Source must be a string';
+  if (!isOptional(job.appliedAt, isDateString)) return 'Invalid appliedAt date';
+  if (!isOptional(job.followUpDraft, isString)) {
+    return 'Follow-up draft must be a string';
+  }
+  if (!isOptional(job.offer, isString)) return 'Offer must be a string';
+  if (!isOptional(job.statusHistory, (v) => isArrayOf(v, isStatusTransition))) {
+    return 'Invalid status history';
+  }
+  if (!isOptional(job.followUps, (v) => isArrayOf(v, isFollowUp))) {
+    return 'Invalid follow-ups';
+  }
+  if (!isOptional(job.interviewRounds, (v) => isArrayOf(v, isInterviewRound))) {
+    return 'Invalid interview rounds';
+  }
+  if (!isOptional(job.outcome, isJobOutcome)) return 'Invalid outcome';
+
+  const documentsValid = (docs: unknown) =>
+    isObject(docs) &&
+    Object.values(docs).every(
+      (doc) => isObject(doc) && isString(doc.title) && isString(doc.text)
+    );
+  if (!isOptional(job.documents, documentsValid)) return 'Invalid documents';
+  if (!isOptional(job.submittedDocuments, documentsValid)) {
+    return 'Invalid submitted documents';
+  }
+
+  const checklistValid = (checklist: unknown) =>
+    isObject(checklist) &&
+    Object.values(checklist).every(
+      (items) =>
+        Array.isArray(items) &&
+        items.every(
+          (item) =>
+            isObject(item) &&
+            isString(item.id) &&
+            isString(item.text) &&
+            typeof item.checked === 'boolean'
+        )
+    );
+  if (!isOptional(job.checklist, checklistValid)) return 'Invalid checklist';
+
+  // MarkdownDB rules: flat fields are invalid, unknown fields are dropped
+  for (const { field, kind } of validateJobObject(job)) {
+    if (kind === 'prohibited') {
+      return `Contains prohibited field '${field}'`;
+    }
+    delete job[field];
+    issues.push({
+      severity: 'warning',
+      section,
+      recordId: key,
+      message: `Dropped unknown field '${field}'`,
+    });
+  }
+
+  return job as unknown as Job;
+}
+
+/**
+ * Validate a record of jobs keyed by ID
+ */
+function validateJobs(
+  value: unknown,
+  issues: BackupIssue[]
+): { jobs: Record<string, Job>; skipped: number } {
+  const jobs: Record<string, Job> = {};
+  let skipped = 0;
+
+  for (const [key, entry] of Object.entries(value as object)) {
+    const result = validateJob(entry, key, issues, 'jobs');
+    if (typeof result === 'string') {
+      skipped++;
+      issues.push({
+        severity: 'error',
+        section: 'jobs',
+        recordId: key,
+        message: result,
+      });
+    } else if (jobs[result.id]) {
+      skipped++;
+      issues.push({
+        severity: 'error',
+        section: 'jobs',
+        recordId: key,
+        message: `Duplicate job ID '${result.id}'`,
+      });
+    } else {
+      jobs[result.id] = result;
+    }
+  }
+
+  return { jobs, skipped };
+}
+
+/**
+ * Validators for the non-job sections
+ * Each returns an error message, or null when the value is valid.
+ */
+const SECTION_VALIDATORS: Record<string, (value: unknown) => string | null> = {
+  jobInFocus: (v) =>
+    v === null || isString(v) ? null : 'Must be a job ID or null',
+  userProfile: (v) =>
+    v === null ||
+    (isObject(v) && isString(v.content) && isOptional(v.updatedAt, isString))
+      ? null
+      : 'Profile must have text content',
+  profiles: (v) =>
+    isObject(v) &&
+    Object.values(v).every(
+      (profile) =>
+        isObject(profile) &&
+        isString(profile.id) &&
+        isString(profile.name) &&
+        isString(profile.content)
+    )
+      ? null
+      : 'Profiles must have an ID, a name and text content',
+  defaultProfileId: (v) =>
+    v === null || isString(v) ? null : 'Must be a profile ID or null',
+  llmSettings: (v) =>
+    v === null ||
+    (isObject(v) &&
+      isString(v.endpoint) &&
+      isString(v.model) &&
+      isOptional(v.modelsEndpoint, isString) &&
+      isOptional(v.apiKey, isString) &&
+      isOptional(v.tasks, isObject))
+      ? null
+      : 'Endpoint and model must be strings',
+  viewerFilters: (v) =>
+    v === null || (isObject(v) && Object.values(v).every(isString))
+      ? null
+      : 'Filters must be strings',
+  checklistExpanded: (v) =>
+    typeof v === 'boolean' ? null : 'Must be true or false',
+  dataVersion: (v) =>
+    isObject(v) && Number.isInteger(v.version) && (v.version as number) >= 1
+      ? null
+      : 'Version must be a positive integer',
+  themePreference: (v) =>
+    isObject(v) &&
+    THEME_MODES.includes(v.mode as string) &&
+    COLOR_THEMES.includes(v.colorTheme as string)
+      ? null
+      : 'Unknown theme mode or color theme',
+  chivalryPoints: (v) =>
+    typeof v === 'number' && v >= 0 ? null : 'Must be a non-negative number',
+  pipeline: (v) => {
+    if (v === null) return null;
+    if (
+      !isObject(v) ||
+      !Array.isArray(v.statuses) ||
+      !v.statuses.every(
+        (s) =>
+          isObject(s) &&
+          isString(s.name) &&
+          typeof s.fill === 'number' &&
+          typeof s.terminal === 'boolean' &&
+          Array.isArray(s.forward) &&
+          Array.isArray(s.checklist)
+      )
+    ) {
+      return 'Invalid pipeline structure';
+    }
+    const errors = validatePipeline(v as unknown as Pipeline);
+    return errors.length > 0 ? errors[0] : null;
+  },
+  autoBackupSettings: (v) =>
+    isObject(v) &&
+    ['off', 'daily', 'weekly'].includes(v.frequency as string) &&
+    Number.isInteger(v.keepCount) &&
+    (v.keepCount as number) > 0 &&
+    (v.encrypt === undefined || typeof v.encrypt === 'boolean')
+      ? null
+      : 'Unknown frequency or invalid number of copies',
+  csvMappingPresets: (v) =>
+    isObject(v) &&
+    Object.values(v).every(
+      (preset) =>
+        isObject(preset) &&
+        isString(preset.name) &&
+        isObject(preset.mapping) &&
+        Object.values(preset.mapping).every(isString)
+    )
+      ? null
+      : 'Invalid CSV mapping presets',
+  trashRetentionDays: (v) =>
+    typeof v === 'number' && v > 0 ? null : 'Must be a positive number',
+};
+
+/**
+ * Validate a parsed backup file
+ * @param raw - Parsed JSON (envelope or legacy raw data)
+ */
+export function validateBackup(raw: unknown): BackupValidationResult {
+  const result: BackupValidationResult = {
+    fatalError: null,
+    data: {},
+    exportDate: null,
+    issues: [],
+    validJobCount: 0,
+    skippedJobCount: 0,
+  };
+  const { issues } = result;
+
+  if (!isObject(raw)) {
+    result.fatalError = 'The file does not contain a backup object.';
+    return result;
+  }
+
+  // Envelope (version + data) or legacy raw data
+  let content: unknown = raw;
+  if (raw.version !== undefined && raw.data !== undefined) {
+    if (!SUPPORTED_BACKUP_VERSIONS.includes(String(raw.version))) {
+      result.fatalError = `Unsupported backup version "${raw.version}".`;
+      return result;
+    }
+    if (isDateString(raw.exportDate)) {
+      result.exportDate = raw.exportDate as string;
+    } else {
+      issues.push({
+        severity: 'warning',
+        section: 'envelope',
+        message: 'Missing or invalid export date',
+      });
+    }
+    content = raw.data;
+  }
+
+  if (!isObject(content)) {
+    result.fatalError = 'The backup data is missing or not an object.';
+    return result;
+  }
+
+  const data: Record<string, unknown> = {};
+
+  for (const [section, value] of Object.entries(content)) {
+    if (section === 'jobs') {
+      if (!isObject(value)) {
+        issues.push({
+          severity: 'error',
+          section,
+          message: 'Jobs must be an object keyed by job ID',
+        });
+        continue;
+      }
+      const { jobs, skipped } = validateJobs(value, issues);
+      data.jobs = jobs;
+      result.validJobCount = Object.keys(jobs).length;
+      result.skippedJobCount = skipped;
+    } else if (section === 'trash') {
+      if (!isObject(value)) {
+        issues.push({ severity: 'error', section, message: 'Invalid trash' });
+        continue;
+      }
+      const trash: Record<string, TrashedJob> = {};
+      for (const [id, entry] of Object.entries(value)) {
+        const job = isObject(entry)
+          ? validateJob(entry.job, id, issues, section)
+          : 'Not a trash entry';
+        const deletedAt = isObject(entry) ? entry.deletedAt : undefined;
+        if (typeof job === 'string' || !isDateString(deletedAt)) {
+          issues.push({
+            severity: 'error',
+            section,
+            recordId: id,
+            message: typeof job === 'string' ? job : 'Invalid deletion date',
+          });
+        } else {
+          trash[id] = { job, deletedAt: deletedAt as string };
+        }
+      }
+      data.trash = trash;
+    } else if (section === 'customDocumentTemplates') {
+      if (!isObject(value)) {
+        issues.push({
+          severity: 'error',
+          section,
+          message: 'Templates must be an object keyed by ID',
+        });
+        continue;
+      }
+      const templates: Record<string, CustomDocumentTemplate> = {};
+      for (const [id, template] of Object.entries(value)) {
+        if (
+          isObject(template) &&
+          isString(template.name) &&
+          isString(template.content)
+        ) {
+          templates[id] = {
+            id: isString(template.id) ? template.id : id,
+            name: template.name,
+            content: template.content,
+            createdAt: isDateString(template.createdAt)
+              ? (template.createdAt as string)
+              : new Date().toISOString(),
+          };
+        } else {
+          issues.push({
+            severity: 'error',
+            section,
+            recordId: id,
+            message: 'Template must have a name and content',
+          });
+        }
+      }
+      data.customDocumentTemplates = templates;
+    } else if (SECTION_VALIDATORS[section]) {
+      const error = SECTION_VALIDATORS[section](value);
+      if (error) {
+        issues.push({ severity: 'error', section, message: error });
+      } else {
+        data[section] = value;
+      }
+    } else {
+      issues.push({
+        severity: 'warning',
+        section,
+        message: 'Unknown section ignored',
+      });
+    }
+  }
+
+  // Focus must point at a job that is actually being restored
+  if (
+    isString(data.jobInFocus) &&
+    data.jobs &&
+    !(data.jobInFocus in (data.jobs as object))
+  ) {
+    data.jobInFocus = null;
+    issues.push({
+      severity: 'warning',
+      section: 'jobInFocus',
+      message: 'Focused job is not in the backup; focus cleared',
+    });
+  }
+
+  result.data = data as BackupData;
+  return result;
+}
@@ -41,3 +41,25 @@ export function formatSaveTime(date: Date): string {
     return `${months} months ago`;
   }
 }
+
+/**
+ * Format a duration as a short human-readable string
+ * @param ms - Duration in milliseconds
+ * @returns Formatted string like "less than an hour", "5 hours", "3 days", "2 weeks"
+ */
+export function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (1000 * 60 * 60));
+  const days = Math.floor(hours / 24);
+
+  if (hours < 1) {
+    return 'less than an hour';
+  } else if (hours < 24) {
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  } else if (days < 14) {
+    return days === 1 ? '1 day' : `${days} days`;
+  } else if (days < 60) {
+    return `${Math.floor(days / 7)} weeks`;
+  } else {
+    return `${Math.floor(days / 30)} months`;
+  }
+}
@@ -34,9 +34,19 @@ const ALLOWED_JOB_FIELDS = [
   'id',
   'content', // MarkdownDB template - source of truth
   'url',
+  'source',
   'applicationStatus',
+  'statusHistory',
   'checklist',
   'documents',
+  'appliedAt',
+  'submittedDocuments',
+  'followUps',
+  'followUpDraft',
+  'interviewRounds',
+  'offer',
+  'outcome',
+  'profileId',
   'updatedAt',
   'createdAt',
   // Transient fields (not persisted)
@@ -44,30 +54,49 @@ const ALLOWED_JOB_FIELDS = [
   'extractionError',
 ];
 
+/**
+ * A field that breaks the MarkdownDB rules
+ * - prohibited: a flat field that must only be parsed from 'content'
+ * - unknown: a field missing from the whitelist
+ */
+export interface JobFieldViolation {
+  field: string;
+  kind: 'prohibited' | 'unknown';
+  message: string;
+}
+
 /**
  * Check if a Job object contains any prohibited flat fields
  * @param job - Job object to validate
- * @returns Array of violation messages (empty if valid)
+ * @returns Violations (empty if valid)
  */
-export function validateJobObject(job: Record<string, unknown>): string[] {
-  const violations: string[] = [];
+export function validateJobObject(
+  job: Record<string, unknown>
+): JobFieldViolation[] {
+  const violations: JobFieldViolation[] = [];
 
   for (const field of PROHIBITED_FIELDS) {
     if (field in job) {
-      violations.push(
-        `[MarkdownDB Pattern Violation] Job object contains prohibited field '${field}'. ` +
-          `This field should only exist as a parsed value from 'content', not stored directly.`
-      );
+      violations.push({
+        field,
+        kind: 'prohibited',
+        message:
+          `[MarkdownDB Pattern Violation] Job object contains prohibited field '${field}'. ` +
+          `This field should only exist as a parsed value from 'content', not stored directly.`,
+      });
     }
   }
 
   // Check for unknown fields (not in whitelist)
   for (const field of Object.keys(job)) {
     if (!ALLOWED_JOB_FIELDS.includes(field)) {
-      violations.push(
-        `[MarkdownDB Pattern Warning] Job object contains unknown field '${field}'. ` +
-          `This may be a typo or a new field that needs to be added to the whitelist.`
-      );
+      violations.push({
+        field,
+        kind: 'unknown',
+        message:
+          `[MarkdownDB Pattern Warning] Job object contains unknown field '${field}'. ` +
+          `This may be a typo or a new field that needs to be added to the whitelist.`,
+      });
     }
   }
 
@@ -109,7 +138,7 @@ export function createValidatedStorage<T extends Record<string, unknown>>(
             if (violations.length > 0) {
               console.error(
                 `[MarkdownDB Validator] Violations detected in job ${jobId}:`,
-                violations
+                violations.map((v) => v.message)
               );
               console.error('Job object:', job);
               console.warn(
@@ -136,7 +165,7 @@ export function createValidatedStorage<T extends Record<string, unknown>>(
             if (violations.length > 0) {
               console.error(
                 `[MarkdownDB Validator] Violations detected in job update ${jobId}:`,
-                violations
+                violations.map((v) => v.message)
               );
               console.error('Update object:', job);
               console.warn(
@@ -177,7 +206,7 @@ export function assertValidJob(
     const contextStr = context ? ` (${context})` : '';
     console.error(
       `[MarkdownDB Validator] Job validation failed${contextStr}:`,
-      violations
+      violations.map((v) => v.message)
     );
     console.error('Job object:', job);
     console.warn(
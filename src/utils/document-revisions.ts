@@ -0,0 +1,187 @@
+/**
+ * Document revision history for sir-hires Chrome extension
+ *
+ * Every JobDocument save is versioned in IndexedDB (browser.storage.local is
+ * too small to hold many copies of every document). Saves are throttled per
+ * document so typing produces one revision per window, and callers can record
+ * an explicit snapshot before risky operations such as LLM synthesis.
+ */
+
+import { createDatabaseOpener, promisify, transactionDone } from './idb-utils';
+
+const DB_NAME = 'sir-hires-documents';
+const DB_VERSION = 1;
+const REVISIONS_STORE = 'revisions';
+const BY_DOCUMENT_INDEX = 'byDocument';
+
+/** Minimum time between throttled snapshots of the same document */
+export const REVISION_THROTTLE_MS = 60 * 1000;
+
+/** Oldest revisions beyond this count are pruned per document */
+export const MAX_REVISIONS_PER_DOCUMENT = 50;
+
+/**
+ * Why a revision was recorded
+ */
+export type RevisionReason = 'autosave' | 'pre-synthesis' | 'pre-restore';
+
+/**
+ * A stored snapshot of a document
+ */
+export interface DocumentRevision {
+  id: string;
+  jobId: string;
+  documentKey: string;
+  title: string;
+  text: string;
+  reason: RevisionReason;
+  createdAt: string;
+}
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, (db) => {
+  const store = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+  store.createIndex(BY_DOCUMENT_INDEX, ['jobId', 'documentKey']);
+});
+
+/**
+ * Get all revisions of a document, newest first
+ */
+export async function getDocumentRevisions(
+  jobId: string,
+  documentKey: string
+): Promise<DocumentRevision[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readonly');
+  const revisions = await promisify<DocumentRevision[]>(
+    tx
+      .objectStore(REVISIONS_STORE)
+      .index(BY_DOCUMENT_INDEX)
+      .getAll([jobId, documentKey])
+  );
+  return revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Record a revision of a document
+ * Skipped when the text matches the newest revision. Old revisions beyond
+ * MAX_REVISIONS_PER_DOCUMENT are pruned.
+ * @returns The new revision, or null if nothing changed
+ */
+export async function saveDocumentRevision(
+  jobId: string,
+  documentKey: string,
+  document: { title?: string; text: string },
+  reason: RevisionReason
+): Promise<DocumentRevision | null> {
+  const existing = await getDocumentRevisions(jobId, documentKey);
+  if (existing[0]?.text === document.text) return null;
+
+  const revision: DocumentRevision = {
+    id: `rev_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    jobId,
+    documentKey,
+    title: document.title || existing[0]?.title || '',
+    text: document.text,
+    reason,
+    createdAt: new Date().toISOString(),
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  const store = tx.objectStore(REVISIONS_STORE);
+  store.put(revision);
+  existing
+    .slice(MAX_REVISIONS_PER_DOCUMENT - 1)
+    .forEach((old) => store.delete(old.id));
+  await transactionDone(tx);
+
+  return revision;
+}
+
+/**
+ * Delete the revisions of every document of a job
+ */
+export async function deleteJobRevisions(jobId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  const index = tx.objectStore(REVISIONS_STORE).index(BY_DOCUMENT_INDEX);
+  // Arrays sort after strings, so [jobId, []] bounds every [jobId, documentKey]
+  const range = globalThis.IDBKeyRange.bound([jobId], [jobId, []]);
+  const keys = await promisify(index.getAllKeys(range));
+  const store = tx.objectStore(REVISIONS_STORE);
+  keys.forEach((key) => store.delete(key));
+  await transactionDone(tx);
+}
+
+/**
+ * Delete every stored revision
+ */
+export async function clearDocumentRevisions(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  tx.objectStore(REVISIONS_STORE).clear();
+  await transactionDone(tx);
+}
+
+// ===== Throttled snapshots =====
+
+interface PendingSnapshot {
+  jobId: string;
+  documentKey: string;
+  document: { title?: string; text: string };
+  /** Whether a save arrived since the last snapshot */
+  dirty: boolean;
+}
+
+// Keyed by `${jobId}:${documentKey}`
+const pendingSnapshots = new Map<string, PendingSnapshot>();
+
+function flushSnapshot(key: string): void {
+  const pending = pendingSnapshots.get(key);
+  if (!pending) return;
+
+  if (!pending.dirty) {
+    pendingSnapshots.delete(key);
+    return;
+  }
+
+  // Snapshot now and keep the window open for further saves
+  pending.dirty = false;
+  setTimeout(() => flushSnapshot(key), REVISION_THROTTLE_MS);
+  saveDocumentRevision(
+    pending.jobId,
+    pending.documentKey,
+    pending.document,
+    'autosave'
+  ).catch((error) =>
+    console.error('[DocumentRevisions] Failed to save revision:', error)
+  );
+}
+
+/**
+ * Record a document save, snapshotting at most once per REVISION_THROTTLE_MS
+ * The first save snapshots immediately; later saves in the window are
+ * coalesced into one snapshot of the latest text when the window ends.
+ */
+export function recordDocumentSave(
+  jobId: string,
+  documentKey: string,
+  document: { title?: string; text: string }
+): void {
+  const key = `${jobId}:${documentKey}`;
+  const pending = pendingSnapshots.get(key);
+
+  if (pending) {
+    pending.document = document;
+    pending.dirty = true;
+    return;
+  }
+
+  pendingSnapshots.set(key, {
+    jobId,
+    documentKey,
+    document,
+    dirty: true,
+  });
+  flushSnapshot(key);
+}
@@ -85,3 +85,92 @@ export const exportPDF = async (
     onToast?.(`Failed to export PDF: ${err.message}`, 'error');
   }
 };
+
+// Spreadsheets evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a value for a CSV cell (RFC 4180)
+ * Cells that a spreadsheet would run as a formula (e.g., a scraped title
+ * starting with "=") are prefixed with an apostrophe so they stay text.
+ */
+const escapeCsvCell = (cell: string): string => {
+  const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Convert rows of cell values to CSV text
+ * @param rows - Rows of cell values
+ * @returns CSV text
+ */
+export const toCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+/**
+ * Exports rows as a CSV file
+ * @param filename - Download filename (without extension)
+ * @param rows - Rows of cell values
+ * @param onToast - Optional toast notification callback
+ */
+export const exportCsv = (
+  filename: string,
+  rows: string[][],
+  onToast?: (message: string, type: ToastType) => void
+): void => {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+
+  browser.downloads.download(
+    {
+      url: url,
+      filename: `${filename.replace(/[^a-z0-9-]/gi, '_').toLowerCase()}.csv`,
+      saveAs: true,
+    },
+    () => {
+      if (browser.runtime.lastError) {
+        console.error('Export failed:', browser.runtime.lastError);
+        onToast?.(
+          `Failed to export: ${browser.runtime.lastError.message}`,
+          'error'
+        );
+      }
+      URL.revokeObjectURL(url);
+    }
+  );
+};
+
+/**
+ * Exports data as a JSON file
+ * @param filename - Download filename (with extension)
+ * @param data - Value to serialize
+ * @param onToast - Optional toast notification callback
+ */
+export const exportJson = (
+  filename: string,
+  data: unknown,
+  onToast?: (message: string, type: ToastType) => void
+): void => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+
+  browser.downloads.download(
+    {
+      url: url,
+      filename: filename,
+      saveAs: true,
+    },
+    () => {
+      if (browser.runtime.lastError) {
+        console.error('Export failed:', browser.runtime.lastError);
+        onToast?.(
+          `Failed to export: ${browser.runtime.lastError.message}`,
+          'error'
+        );
+      }
+      URL.revokeObjectURL(url);
+    }
+  );
+};
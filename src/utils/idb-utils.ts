@@ -0,0 +1,46 @@
+/**
+ * Small IndexedDB helpers shared by the revision stores
+ */
+
+/**
+ * Lazily open a database, reusing the connection
+ * A failed open is retried on the next call.
+ * @param upgrade - Creates the object stores on first open
+ */
+export function createDatabaseOpener(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): () => Promise<IDBDatabase> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  return () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = globalThis.indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
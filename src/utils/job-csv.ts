@@ -0,0 +1,491 @@
+/**
+ * CSV export/import of the job pipeline
+ *
+ * Export writes one row per job with the parsed posting fields, status,
+ * dates and URL, for spreadsheets. Import reads any tracker's CSV through a
+ * column mapping (header -> field), builds the <JOB> template from the
+ * mapped posting fields and sets applicationStatus from the status column.
+ */
+
+import type { Job } from '../entrypoints/job-details/hooks';
+import { getStatusOrder, isKnownStatus } from '../config';
+import {
+  parseJobTemplate,
+  getAllTopLevelFields,
+  mapMarkdownFieldsToJob,
+} from './job-parser';
+import { createImportedJob, toIsoDate } from './job-import';
+
+/**
+ * Field a CSV column can be imported into
+ * Uppercase names are <JOB> template fields and sections.
+ */
+export type CsvImportField =
+  | 'TITLE'
+  | 'COMPANY'
+  | 'ADDRESS'
+  | 'REMOTE TYPE'
+  | 'SALARY'
+  | 'SALARY RANGE MIN'
+  | 'SALARY RANGE MAX'
+  | 'EMPLOYMENT TYPE'
+  | 'EXPERIENCE LEVEL'
+  | 'POSTED DATE'
+  | 'CLOSING DATE'
+  | 'DESCRIPTION'
+  | 'REQUIRED SKILLS'
+  | 'PREFERRED SKILLS'
+  | 'ABOUT COMPANY'
+  | 'status'
+  | 'url'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'appliedAt'
+  | 'id';
+
+/**
+ * Import field for each CSV column header ('' = ignore the column)
+ */
+export type CsvColumnMapping = Record<string, CsvImportField | ''>;
+
+/**
+ * Import fields offered in the mapping step, with header names recognized
+ * automatically (compared lowercase without spaces or punctuation)
+ */
+export const CSV_IMPORT_FIELDS: {
+  value: CsvImportField;
+  label: string;
+  aliases: string[];
+}[] = [
+  {
+    value: 'TITLE',
+    label: 'Title',
+    aliases: ['title', 'jobtitle', 'position', 'role'],
+  },
+  {
+    value: 'COMPANY',
+    label: 'Company',
+    aliases: ['company', 'companyname', 'employer', 'organization'],
+  },
+  {
+    value: 'ADDRESS',
+    label: 'Location',
+    aliases: ['location', 'address', 'city'],
+  },
+  {
+    value: 'REMOTE TYPE',
+    label: 'Remote type',
+    aliases: ['remote', 'remotetype', 'workplace', 'workplacetype'],
+  },
+  {
+    value: 'SALARY',
+    label: 'Salary (range)',
+    aliases: ['salary', 'salaryrange', 'compensation', 'pay'],
+  },
+  {
+    value: 'SALARY RANGE MIN',
+    label: 'Salary min',
+    aliases: ['salarymin', 'minsalary', 'salaryrangemin'],
+  },
+  {
+    value: 'SALARY RANGE MAX',
+    label: 'Salary max',
+    aliases: ['salarymax', 'maxsalary', 'salaryrangemax'],
+  },
+  {
+    value: 'EMPLOYMENT TYPE',
+    label: 'Employment type',
+    aliases: ['employmenttype', 'jobtype'],
+  },
+  {
+    value: 'EXPERIENCE LEVEL',
+    label: 'Experience level',
+    aliases: ['experiencelevel', 'seniority', 'level'],
+  },
+  {
+    value: 'POSTED DATE',
+    label: 'Posted date',
+    aliases: ['posted', 'posteddate', 'dateposted'],
+  },
+  {
+    value: 'CLOSING DATE',
+    label: 'Closing date',
+    aliases: ['closingdate', 'deadline'],
+  },
+  {
+    value: 'DESCRIPTION',
+    label: 'Description',
+    aliases: ['description', 'jobdescription', 'notes'],
+  },
+  {
+    value: 'REQUIRED SKILLS',
+    label: 'Required skills',
+    aliases: ['requiredskills', 'requirements', 'skills'],
+  },
+  {
+    value: 'PREFERRED SKILLS',
+    label: 'Preferred skills',
+    aliases: ['preferredskills', 'nicetohave'],
+  },
+  {
+    value: 'ABOUT COMPANY',
+    label: 'About company',
+    aliases: ['aboutcompany'],
+  },
+  {
+    value: 'status',
+    label: 'Status',
+    aliases: ['status', 'stage', 'applicationstatus'],
+  },
+  {
+    value: 'url',
+    label: 'URL',
+    aliases: ['url', 'link', 'joburl', 'joblink', 'postingurl'],
+  },
+  {
+    value: 'createdAt',
+    label: 'Date added',
+    aliases: ['created', 'createdat', 'dateadded', 'added', 'datesaved'],
+  },
+  {
+    value: 'updatedAt',
+    label: 'Last updated',
+    aliases: ['updated', 'updatedat', 'lastupdated', 'modified'],
+  },
+  {
+    value: 'appliedAt',
+    label: 'Date applied',
+    aliases: [
+      'applied',
+      'appliedat',
+      'dateapplied',
+      'applieddate',
+      'appliedon',
+    ],
+  },
+  { value: 'id', label: 'Sir Hires ID', aliases: ['id', 'jobid'] },
+];
+
+/** Template top-level fields in the order they are written */
+const TEMPLATE_FIELDS: CsvImportField[] = [
+  'TITLE',
+  'COMPANY',
+  'ADDRESS',
+  'REMOTE TYPE',
+  'SALARY RANGE MIN',
+  'SALARY RANGE MAX',
+  'EMPLOYMENT TYPE',
+  'EXPERIENCE LEVEL',
+  'POSTED DATE',
+  'CLOSING DATE',
+];
+
+/** Template sections; cells become bullets, one per line */
+const TEMPLATE_SECTIONS: CsvImportField[] = [
+  'DESCRIPTION',
+  'REQUIRED SKILLS',
+  'PREFERRED SKILLS',
+  'ABOUT COMPANY',
+];
+
+/**
+ * Status names used by other trackers, for the default pipeline
+ * Only applied when the target status exists in the active pipeline.
+ */
+const STATUS_SYNONYMS: Record<string, string> = {
+  wishlist: 'Researching',
+  saved: 'Researching',
+  bookmarked: 'Researching',
+  applying: 'Drafting',
+  applied: 'Awaiting Review',
+  submitted: 'Awaiting Review',
+  interview: 'Interviewing',
+  offer: 'Deciding',
+  offered: 'Deciding',
+  hired: 'Accepted',
+  declined: 'Withdrawn',
+};
+
+/**
+ * Result of building jobs from CSV rows
+ */
+export interface CsvImportResult {
+  /** Built jobs keyed by id */
+  jobs: Record<string, Job>;
+  /**
+   * Job fields each row carries over onto a matching local job, keyed by
+   * job id (blank or unknown cells are left out so the local value is kept)
+   */
+  fields: Record<string, (keyof Job)[]>;
+  /** Rows that were not imported (1-based, header is row 1) */
+  skipped: { row: number; reason: string }[];
+  /** Status values with no matching pipeline status (default status used) */
+  unknownStatuses: string[];
+}
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180)
+ * The delimiter (comma, semicolon or tab) is detected from the first line.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Build CSV rows (header first) for every job
+ */
+export function jobsToCsvRows(jobs: Job[]): string[][] {
+  const rows = [
+    [
+      'Title',
+      'Company',
+      'Location',
+      'Salary',
+      'Status',
+      'Date Added',
+      'Last Updated',
+      'Date Applied',
+      'URL',
+      'ID',
+    ],
+  ];
+
+  for (const job of jobs) {
+    const fields = mapMarkdownFieldsToJob(
+      getAllTopLevelFields(parseJobTemplate(job.content || ''))
+    );
+    rows.push([
+      fields.jobTitle ?? '',
+      fields.company ?? '',
+      fields.location ?? '',
+      fields.salary ?? '',
+      job.applicationStatus,
+      job.createdAt ?? '',
+      job.updatedAt ?? '',
+      job.appliedAt ?? '',
+      job.url ?? '',
+      job.id,
+    ]);
+  }
+
+  return rows;
+}
+
+/**
+ * Map columns by recognized header names; each field is used once
+ */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<CsvImportField>();
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const field = CSV_IMPORT_FIELDS.find(
+      (f) => !used.has(f.value) && f.aliases.includes(normalized)
+    );
+    mapping[header] = field?.value ?? '';
+    if (field) used.add(field.value);
+  }
+
+  return mapping;
+}
+
+/**
+ * Apply a saved mapping to a file's headers (matched case-insensitively)
+ * Columns the preset does not know are ignored.
+ */
+export function applyCsvPreset(
+  headers: string[],
+  presetMapping: Record<string, string>
+): CsvColumnMapping {
+  const byHeader = new Map(
+    Object.entries(presetMapping).map(([header, field]) => [
+      normalizeHeader(header),
+      field,
+    ])
+  );
+  const known = new Set<string>(CSV_IMPORT_FIELDS.map((f) => f.value));
+
+  return Object.fromEntries(
+    headers.map((header) => {
+      const field = byHeader.get(normalizeHeader(header)) ?? '';
+      return [header, known.has(field) ? (field as CsvImportField) : ''];
+    })
+  );
+}
+
+/**
+ * Job fields a mapped CSV carries over onto a matching local job
+ * The <JOB> content is only used for new jobs: a spreadsheet row holds a
+ * summary, and the local posting has the full description.
+ */
+function getCsvJobFields(mapping: CsvColumnMapping): (keyof Job)[] {
+  const mapped = new Set(Object.values(mapping));
+  const fields: (keyof Job)[] = [];
+  if (mapped.has('url')) fields.push('url');
+  if (mapped.has('status')) fields.push('applicationStatus');
+  if (mapped.has('updatedAt')) fields.push('updatedAt');
+  if (mapped.has('appliedAt')) fields.push('appliedAt');
+  return fields;
+}
+
+/**
+ * Find the pipeline status for a status cell
+ */
+function matchStatus(value: string): string | undefined {
+  const lower = value.trim().toLowerCase();
+  const status = getStatusOrder().find((s) => s.toLowerCase() === lower);
+  if (status) return status;
+
+  const synonym = STATUS_SYNONYMS[lower];
+  return synonym && isKnownStatus(synonym) ? synonym : undefined;
+}
+
+/**
+ * Write a <JOB> template from mapped cell values
+ */
+function buildJobContent(
+  values: Partial<Record<CsvImportField, string>>
+): string {
+  const fields = { ...values };
+
+  // A single salary column: "100,000 - 150,000" becomes min and max
+  if (fields.SALARY) {
+    const [min, max] = fields.SALARY.split(/\s*(?:-|–|—|\bto\b)\s*/);
+    fields['SALARY RANGE MIN'] ??= min;
+    if (max) fields['SALARY RANGE MAX'] ??= max;
+  }
+
+  const lines = ['<JOB>'];
+  for (const field of TEMPLATE_FIELDS) {
+    const value = fields[field]?.replace(/\s+/g, ' ').trim();
+    if (value) lines.push(`${field}: ${value}`);
+  }
+
+  for (const section of TEMPLATE_SECTIONS) {
+    const bullets = (fields[section] ?? '')
+      .split(/\r?\n/)
+      .map((line) => line.replace(/^\s*[-*•]\s*/, '').trim())
+      .filter(Boolean);
+    if (bullets.length === 0) continue;
+
+    lines.push('', `# ${section}`, ...bullets.map((b) => `- ${b}`));
+  }
+
+  lines.push('</JOB>');
+  return lines.join('\n');
+}
+
+/**
+ * Build jobs from parsed CSV rows
+ * @param table - Rows from parseCsv, header row first
+ * @param mapping - Import field for each header
+ */
+export function buildJobsFromCsv(
+  table: string[][],
+  mapping: CsvColumnMapping
+): CsvImportResult {
+  const result: CsvImportResult = {
+    jobs: {},
+    fields: {},
+    skipped: [],
+    unknownStatuses: [],
+  };
+  const [headers = [], ...rows] = table;
+  const unknownStatuses = new Set<string>();
+  const mappedFields = getCsvJobFields(mapping);
+
+  rows.forEach((cells, index) => {
+    const values: Partial<Record<CsvImportField, string>> = {};
+    headers.forEach((header, column) => {
+      const field = mapping[header];
+      // Undo the formula guard added by toCsv (export-utils)
+      const value = cells[column]?.trim().replace(/^'(?=[=+\-@])/, '');
+      if (field && value) values[field] = value;
+    });
+
+    if (!values.TITLE && !values.COMPANY) {
+      result.skipped.push({ row: index + 2, reason: 'No title or company.' });
+      return;
+    }
+
+    let applicationStatus: string | undefined;
+    if (values.status) {
+      applicationStatus = matchStatus(values.status);
+      if (!applicationStatus) unknownStatuses.add(values.status);
+    }
+
+    const updatedAt = toIsoDate(values.updatedAt);
+    const appliedAt = toIsoDate(values.appliedAt);
+    const job = createImportedJob({
+      // Ids must stay unique within the import for the merge to match them
+      id: values.id && !result.jobs[values.id] ? values.id : undefined,
+      content: buildJobContent(values),
+      url: values.url,
+      applicationStatus,
+      createdAt: toIsoDate(values.createdAt),
+      updatedAt,
+      appliedAt,
+    });
+    result.jobs[job.id] = job;
+
+    // New jobs get defaults for blank cells; matched jobs keep their own
+    const carried: Partial<Record<keyof Job, unknown>> = {
+      url: values.url,
+      applicationStatus,
+      updatedAt,
+      appliedAt,
+    };
+    result.fields[job.id] = mappedFields.filter((field) => carried[field]);
+  });
+
+  result.unknownStatuses = [...unknownStatuses];
+  return result;
+}
@@ -0,0 +1,215 @@
+/**
+ * Undo/redo history for job store mutations
+ *
+ * Each entry holds an inverse operation (undo) and the original operation
+ * (redo) as functions of a job. They are applied to the freshest copy of the
+ * job from storage, so changes made since (in this tab or another) to parts
+ * of the job the entry does not touch are preserved. Operations set explicit
+ * values rather than toggling, so applying one twice (e.g., before a pending
+ * write has landed) gives the same result.
+ */
+
+import type { Job, JobDocument } from '../entrypoints/job-details/hooks';
+
+/** Oldest entries are dropped beyond this many */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * One undoable mutation of a job
+ */
+export interface JobHistoryEntry {
+  /** Human-readable description (e.g., "Change status to Drafting") */
+  label: string;
+  jobId: string;
+  undo: (job: Job) => Job;
+  redo: (job: Job) => Job;
+  /**
+   * Consecutive entries with the same key are merged into one (e.g., typing
+   * in a field saves on every keystroke but undoes as a single edit)
+   */
+  coalesceKey?: string;
+  /** Field values before and after, for entries that can be merged */
+  fields?: FieldChange;
+}
+
+interface FieldChange {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+// Fields that change on every write and are never restored
+const IGNORED_FIELDS = new Set<string>(['updatedAt']);
+
+/**
+ * Set fields on a job; undefined values remove the field
+ */
+function assignFields(job: Job, fields: Partial<Job>): Job {
+  const updated: Record<string, unknown> = { ...job };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      delete updated[key];
+    } else {
+      updated[key] = value;
+    }
+  }
+  return updated as unknown as Job;
+}
+
+function createFieldEntry(
+  label: string,
+  jobId: string,
+  fields: FieldChange,
+  coalesceKey?: string
+): JobHistoryEntry {
+  return {
+    label,
+    jobId,
+    undo: (job) => assignFields(job, fields.before as Partial<Job>),
+    redo: (job) => assignFields(job, fields.after as Partial<Job>),
+    coalesceKey,
+    fields,
+  };
+}
+
+/**
+ * Entry that restores every top-level field that differs between two versions
+ * of a job (status changes, field edits)
+ * @param coalesceKey - Merge with a directly preceding entry with this key
+ * @returns The entry, or null if nothing changed
+ */
+export function createFieldChangeEntry(
+  label: string,
+  before: Job,
+  after: Job,
+  coalesceKey?: string
+): JobHistoryEntry | null {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const beforeFields: Record<string, unknown> = {};
+  const afterFields: Record<string, unknown> = {};
+
+  keys.forEach((key) => {
+    if (IGNORED_FIELDS.has(key)) return;
+    const oldValue = (before as unknown as Record<string, unknown>)[key];
+    const newValue = (after as unknown as Record<string, unknown>)[key];
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      beforeFields[key] = oldValue;
+      afterFields[key] = newValue;
+    }
+  });
+
+  if (Object.keys(beforeFields).length === 0) return null;
+
+  return createFieldEntry(
+    label,
+    before.id,
+    { before: beforeFields, after: afterFields },
+    coalesceKey
+  );
+}
+
+/**
+ * Entry for checking/unchecking a checklist item
+ * @param checked - Value the item was set to
+ */
+export function createChecklistToggleEntry(
+  jobId: string,
+  status: string,
+  itemId: string,
+  checked: boolean
+): JobHistoryEntry {
+  const setChecked =
+    (value: boolean) =>
+    (job: Job): Job => {
+      if (!job.checklist?.[status]) return job;
+      return {
+        ...job,
+        checklist: {
+          ...job.checklist,
+          [status]: job.checklist[status].map((item) =>
+            item.id === itemId ? { ...item, checked: value } : item
+          ),
+        },
+      };
+    };
+
+  return {
+    label: checked ? 'Check item' : 'Uncheck item',
+    jobId,
+    undo: setChecked(!checked),
+    redo: setChecked(checked),
+  };
+}
+
+/**
+ * Entry for deleting a document (undo puts the document back)
+ */
+export function createDocumentDeletionEntry(
+  jobId: string,
+  documentKey: string,
+  document: JobDocument
+): JobHistoryEntry {
+  return {
+    label: `Delete "${document.title}"`,
+    jobId,
+    undo: (job) => ({
+      ...job,
+      documents: { ...job.documents, [documentKey]: document },
+    }),
+    redo: (job) => {
+      if (!job.documents?.[documentKey]) return job;
+      const { [documentKey]: _deleted, ...remaining } = job.documents;
+      return { ...job, documents: remaining };
+    },
+  };
+}
+
+/**
+ * Record a new entry on the undo stack, merging it into the newest entry
+ * when both share a coalesceKey. The merged entry keeps the oldest values
+ * for undo and the newest for redo; if the edits cancel out it is dropped.
+ */
+export function recordHistoryEntry(
+  stack: JobHistoryEntry[],
+  entry: JobHistoryEntry
+): JobHistoryEntry[] {
+  const previous = stack[stack.length - 1];
+  if (
+    !entry.coalesceKey ||
+    previous?.coalesceKey !== entry.coalesceKey ||
+    !previous.fields ||
+    !entry.fields
+  ) {
+    return pushHistoryEntry(stack, entry);
+  }
+
+  const before = { ...entry.fields.before, ...previous.fields.before };
+  const after = { ...previous.fields.after, ...entry.fields.after };
+  Object.keys(before).forEach((key) => {
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) {
+      delete before[key];
+      delete after[key];
+    }
+  });
+
+  const rest = stack.slice(0, -1);
+  if (Object.keys(before).length === 0) return rest;
+  return [
+    ...rest,
+    createFieldEntry(
+      entry.label,
+      entry.jobId,
+      { before, after },
+      entry.coalesceKey
+    ),
+  ];
+}
+
+/**
+ * Push an entry onto a history stack, dropping the oldest beyond the limit
+ */
+export function pushHistoryEntry(
+  stack: JobHistoryEntry[],
+  entry: JobHistoryEntry
+): JobHistoryEntry[] {
+  return [...stack, entry].slice(-MAX_HISTORY_ENTRIES);
+}
@@ -0,0 +1,98 @@
+/**
+ * Job import utilities for sir-hires Chrome extension
+ * Builds complete Job records from data read outside the extension
+ * (Markdown folders, spreadsheets, other tools).
+ */
+
+import type {
+  Job,
+  JobDocument,
+  ChecklistItem,
+} from '../entrypoints/job-details/hooks';
+import {
+  defaults,
+  getChecklistTemplates,
+  getStatusOrder,
+  isKnownStatus,
+} from '../config';
+import { generateItemId, generateJobId, getJobSource } from './shared-utils';
+
+/**
+ * Fields an importer can supply; everything else gets the same defaults as
+ * an extracted job
+ */
+export interface ImportedJobFields {
+  id?: string;
+  /** Raw <JOB> MarkdownDB template */
+  content: string;
+  url?: string;
+  source?: string;
+  applicationStatus?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  appliedAt?: string;
+  documents?: Record<string, JobDocument>;
+}
+
+/**
+ * Create default checklist for all statuses in the active pipeline
+ */
+export function createDefaultChecklist(): Record<string, ChecklistItem[]> {
+  const checklist: Record<string, ChecklistItem[]> = {};
+
+  Object.entries(getChecklistTemplates()).forEach(([status, template]) => {
+    checklist[status] = template.map((item, index) => ({
+      id: generateItemId(status, index),
+      text: item.text,
+      checked: false,
+      order: item.order,
+    }));
+  });
+
+  return checklist;
+}
+
+/**
+ * Parse a date string into an ISO timestamp
+ * @returns undefined when missing or unparseable
+ */
+export function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Build a Job from imported fields
+ * Statuses missing from the active pipeline fall back to the default status.
+ */
+export function createImportedJob(fields: ImportedJobFields): Job {
+  const now = new Date().toISOString();
+  const status =
+    fields.applicationStatus && isKnownStatus(fields.applicationStatus)
+      ? fields.applicationStatus
+      : isKnownStatus(defaults.status)
+        ? defaults.status
+        : getStatusOrder()[0];
+  const url = fields.url?.trim() || '';
+  const createdAt = toIsoDate(fields.createdAt) ?? now;
+
+  const job: Job = {
+    id: fields.id || generateJobId(),
+    content: fields.content,
+    url,
+    source: fields.source || getJobSource({ url }),
+    applicationStatus: status,
+    checklist: createDefaultChecklist(),
+    createdAt,
+    updatedAt: toIsoDate(fields.updatedAt) ?? createdAt,
+  };
+
+  const appliedAt = toIsoDate(fields.appliedAt);
+  if (appliedAt) job.appliedAt = appliedAt;
+  if (fields.documents && Object.keys(fields.documents).length > 0) {
+    job.documents = fields.documents;
+  }
+
+  return job;
+}
@@ -0,0 +1,481 @@
+/**
+ * JSON Resume conversion for the <PROFILE> template
+ *
+ * Two-way mapping between a parsed profile and the JSON Resume schema
+ * (https://jsonresume.org/schema), covering basics, work, education,
+ * projects, volunteer and interests:
+ *
+ *   NAME, EMAIL, PHONE, WEBSITE, ADDRESS  <->  basics
+ *   GITHUB, LINKEDIN                      <->  basics.profiles
+ *   # SUMMARY                             <->  basics.summary
+ *   # PROFESSIONAL EXPERIENCE             <->  work
+ *   # EDUCATION                           <->  education
+ *   # TECHNICAL PROJECT EXPERIENCE        <->  projects
+ *   # VOLUNTEER                           <->  volunteer
+ *   # INTERESTS                           <->  interests
+ *
+ * Profile dates ("January 2020", "Present") become ISO dates ("2020-01");
+ * dates that cannot be read are passed through unchanged.
+ */
+
+import {
+  parseProfileTemplate,
+  getProfileSection,
+  type ParsedProfile,
+  type ProfileItem,
+} from './profile-parser';
+
+interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  region?: string;
+  countryCode?: string;
+}
+
+interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  location?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+interface JsonResumeVolunteer {
+  organization?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+interface JsonResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+  /** Not in the schema (extra properties are allowed); keeps LOCATION */
+  location?: string;
+}
+
+interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  entity?: string;
+}
+
+interface JsonResumeInterest {
+  name?: string;
+  keywords?: string[];
+}
+
+/**
+ * The parts of a JSON Resume document the profile maps to
+ */
+export interface JsonResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: JsonResumeLocation;
+    profiles?: JsonResumeProfile[];
+  };
+  work?: JsonResumeWork[];
+  volunteer?: JsonResumeVolunteer[];
+  education?: JsonResumeEducation[];
+  projects?: JsonResumeProject[];
+  interests?: JsonResumeInterest[];
+}
+
+const JSON_RESUME_SCHEMA_URL =
+  'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/** End dates that mean the entry is current */
+const ONGOING = ['present', 'ongoing', 'current', 'now'];
+
+/** Social profile networks written as top-level profile fields */
+const PROFILE_NETWORKS: Record<string, string> = {
+  github: 'GITHUB',
+  linkedin: 'LINKEDIN',
+};
+
+// ===== Profile -> JSON Resume =====
+
+/**
+ * Convert a profile date ("March 2020", "2020", "03/2020") to ISO 8601
+ * @returns ISO date, the input unchanged if unreadable, or undefined when
+ * empty or ongoing
+ */
+export function profileDateToIso(
+  value: string | undefined
+): string | undefined {
+  const text = value?.trim();
+  if (!text || ONGOING.includes(text.toLowerCase())) return undefined;
+  if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(text)) return text;
+
+  const numeric = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+
+  const named = text.match(/^([A-Za-z]+)\.?\s+(\d{4})$/);
+  if (named) {
+    const month = MONTHS.findIndex((m) =>
+      m.toLowerCase().startsWith(named[1].toLowerCase().slice(0, 3))
+    );
+    if (month >= 0) {
+      return `${named[2]}-${String(month + 1).padStart(2, '0')}`;
+    }
+  }
+
+  return text;
+}
+
+const field = (item: ProfileItem, name: string): string | undefined =>
+  item.fields[name] || undefined;
+
+/**
+ * Drop undefined and empty values so the JSON stays minimal
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([, v]) =>
+        v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0)
+    )
+  ) as T;
+}
+
+const sectionItems = (
+  parsed: ParsedProfile,
+  ...names: string[]
+): ProfileItem[] =>
+  names.flatMap((name) => getProfileSection(parsed, name)?.items ?? []);
+
+/**
+ * Convert a parsed profile to a JSON Resume document
+ */
+export function profileToJsonResume(parsed: ParsedProfile): JsonResume {
+  const top = parsed.topLevelFields;
+
+  const profiles = Object.entries(PROFILE_NETWORKS)
+    .filter(([, key]) => top[key])
+    .map(([network, key]) => {
+      const value = top[key];
+      return compact({
+        network: network === 'github' ? 'GitHub' : 'LinkedIn',
+        url: /^https?:\/\//.test(value) ? value : undefined,
+        username: /^https?:\/\//.test(value) ? undefined : value,
+      });
+    });
+
+  const summary = getProfileSection(parsed, 'SUMMARY')?.text.join('\n');
+
+  return compact({
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: compact({
+      name: top.NAME,
+      email: top.EMAIL,
+      phone: top.PHONE,
+      url: top.WEBSITE,
+      summary,
+      location: top.ADDRESS ? { address: top.ADDRESS } : undefined,
+      profiles,
+    }),
+    work: sectionItems(parsed, 'PROFESSIONAL EXPERIENCE').map((item) =>
+      compact({
+        name: field(item, 'AT'),
+        position: item.title,
+        location: field(item, 'LOCATION'),
+        url: field(item, 'URL'),
+        startDate: profileDateToIso(field(item, 'START')),
+        endDate: profileDateToIso(field(item, 'END')),
+        highlights: item.bullets,
+      })
+    ),
+    volunteer: sectionItems(parsed, 'VOLUNTEER').map((item) =>
+      compact({
+        organization: field(item, 'AT'),
+        position: item.title,
+        url: field(item, 'URL'),
+        startDate: profileDateToIso(field(item, 'START')),
+        endDate: profileDateToIso(field(item, 'END')),
+        highlights: item.bullets,
+      })
+    ),
+    education: sectionItems(parsed, 'EDUCATION').map((item) =>
+      compact({
+        institution: field(item, 'SCHOOL'),
+        studyType: item.title,
+        location: field(item, 'LOCATION'),
+        startDate: profileDateToIso(field(item, 'START')),
+        endDate: profileDateToIso(field(item, 'END')),
+        score: field(item, 'GPA'),
+        courses: item.bullets,
+      })
+    ),
+    projects: sectionItems(
+      parsed,
+      'TECHNICAL PROJECT EXPERIENCE',
+      'PROJECTS'
+    ).map((item) =>
+      compact({
+        name: item.title,
+        entity: field(item, 'AT'),
+        url: field(item, 'URL'),
+        startDate: profileDateToIso(field(item, 'START')),
+        endDate: profileDateToIso(field(item, 'END')),
+        highlights: item.bullets,
+      })
+    ),
+    interests: (getProfileSection(parsed, 'INTERESTS')?.list ?? []).map(
+      (name) => ({ name })
+    ),
+  });
+}
+
+// ===== JSON Resume -> Profile =====
+
+/**
+ * Convert an ISO date ("2020-01", "2020-01-15", "2020") to "January 2020"
+ * Anything else is passed through unchanged.
+ */
+function toProfileDate(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const match = text.match(/^(\d{4})(?:-(\d{2}))?(?:-\d{2})?$/);
+  if (!match) return text;
+  const month = match[2] ? MONTHS[Number(match[2]) - 1] : undefined;
+  return month ? `${month} ${match[1]}` : match[1];
+}
+
+/** Field values are single lines */
+const clean = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+const cleanList = (values: unknown): string[] =>
+  Array.isArray(values) ? values.map(clean).filter(Boolean) : [];
+
+/**
+ * Write one ## item with its fields and bullets
+ */
+function formatItem(
+  title: string,
+  fields: [string, string | undefined][],
+  bullets: string[]
+): string[] {
+  return [
+    '',
+    `## ${title}`,
+    ...fields
+      .filter(([, value]) => value)
+      .map(([key, value]) => `${key}: ${value}`),
+    ...bullets.map((bullet) => `- ${bullet}`),
+  ];
+}
+
+/**
+ * Dates of an entry; a start date with no end date is a current role
+ */
+const dateFields = (entry: {
+  startDate?: string;
+  endDate?: string;
+}): [string, string | undefined][] => [
+  ['START', toProfileDate(clean(entry.startDate))],
+  [
+    'END',
+    toProfileDate(clean(entry.endDate)) ??
+      (clean(entry.startDate) ? 'Present' : undefined),
+  ],
+];
+
+/**
+ * Summary paragraphs of an entry become leading bullets
+ */
+const summaryBullets = (summary: unknown): string[] =>
+  typeof summary === 'string'
+    ? summary
+        .split(/\n+/)
+        .map((line) => clean(line))
+        .filter(Boolean)
+    : [];
+
+/**
+ * Check that a parsed file looks like a JSON Resume document
+ */
+export function isJsonResume(value: unknown): value is JsonResume {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const resume = value as Record<string, unknown>;
+  return ['basics', 'work', 'education', 'projects', 'volunteer'].some(
+    (key) => key in resume
+  );
+}
+
+/**
+ * Convert a JSON Resume document to <PROFILE> template content
+ */
+export function jsonResumeToProfile(resume: JsonResume): string {
+  const basics = resume.basics ?? {};
+  const location = basics.location ?? {};
+  const address = [
+    location.address,
+    location.city,
+    location.region,
+    location.postalCode,
+    location.countryCode,
+  ]
+    .map(clean)
+    .filter(Boolean)
+    .join(', ');
+
+  const lines = ['<PROFILE>', `NAME: ${clean(basics.name)}`];
+  const topFields: [string, string][] = [
+    ['ADDRESS', address],
+    ['EMAIL', clean(basics.email)],
+    ['PHONE', clean(basics.phone)],
+    ['WEBSITE', clean(basics.url)],
+  ];
+  for (const profile of basics.profiles ?? []) {
+    const key = PROFILE_NETWORKS[clean(profile.network).toLowerCase()];
+    if (key)
+      topFields.push([key, clean(profile.url) || clean(profile.username)]);
+  }
+  topFields
+    .filter(([, value]) => value)
+    .forEach(([key, value]) => lines.push(`${key}: ${value}`));
+
+  const summary = summaryBullets(basics.summary);
+  if (summary.length > 0) {
+    lines.push('', '# SUMMARY', ...summary);
+  }
+
+  const addSection = (name: string, items: string[][]) => {
+    if (items.length > 0) lines.push('', `# ${name}`, ...items.flat());
+  };
+
+  addSection(
+    'EDUCATION',
+    (resume.education ?? []).map((entry) =>
+      formatItem(
+        [clean(entry.studyType), clean(entry.area)]
+          .filter(Boolean)
+          .join(' in ') ||
+          clean(entry.institution) ||
+          'Education',
+        [
+          ['SCHOOL', clean(entry.institution)],
+          ['LOCATION', clean(entry.location)],
+          ...dateFields(entry),
+          ['GPA', clean(entry.score)],
+        ],
+        cleanList(entry.courses)
+      )
+    )
+  );
+
+  addSection(
+    'PROFESSIONAL EXPERIENCE',
+    (resume.work ?? []).map((entry) =>
+      formatItem(
+        clean(entry.position) || clean(entry.name) || 'Role',
+        [
+          ['AT', clean(entry.name)],
+          ['LOCATION', clean(entry.location)],
+          ...dateFields(entry),
+          ['URL', clean(entry.url)],
+        ],
+        [...summaryBullets(entry.summary), ...cleanList(entry.highlights)]
+      )
+    )
+  );
+
+  addSection(
+    'TECHNICAL PROJECT EXPERIENCE',
+    (resume.projects ?? []).map((entry) =>
+      formatItem(
+        clean(entry.name) || 'Project',
+        [
+          ['AT', clean(entry.entity)],
+          ...dateFields(entry),
+          ['URL', clean(entry.url)],
+        ],
+        [...summaryBullets(entry.description), ...cleanList(entry.highlights)]
+      )
+    )
+  );
+
+  addSection(
+    'VOLUNTEER',
+    (resume.volunteer ?? []).map((entry) =>
+      formatItem(
+        clean(entry.position) || clean(entry.organization) || 'Volunteer',
+        [
+          ['AT', clean(entry.organization)],
+          ...dateFields(entry),
+          ['URL', clean(entry.url)],
+        ],
+        [...summaryBullets(entry.summary), ...cleanList(entry.highlights)]
+      )
+    )
+  );
+
+  const interests = (resume.interests ?? [])
+    .map((interest) => {
+      const keywords = cleanList(interest.keywords);
+      const name = clean(interest.name);
+      return keywords.length > 0 ? `${name} (${keywords.join(', ')})` : name;
+    })
+    .filter(Boolean);
+  if (interests.length > 0) {
+    lines.push('', '# INTERESTS', ...interests.map((name) => `- ${name}`));
+  }
+
+  lines.push('</PROFILE>');
+  return lines.join('\n');
+}
+
+/**
+ * Convert <PROFILE> template content to a JSON Resume document
+ */
+export function profileContentToJsonResume(content: string): JsonResume {
+  return profileToJsonResume(parseProfileTemplate(content));
+}
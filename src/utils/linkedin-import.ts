@@ -0,0 +1,178 @@
+/**
+ * LinkedIn data-export import for the <PROFILE> template
+ *
+ * LinkedIn's "Download your data" archive holds one CSV per part of the
+ * profile. They are mapped to a JSON Resume document and written out with
+ * jsonResumeToProfile, so both imports produce the same layout:
+ *
+ *   Profile.csv, Email Addresses.csv,
+ *   PhoneNumbers.csv                   ->  NAME, ADDRESS, EMAIL, PHONE,
+ *                                          WEBSITE, # SUMMARY
+ *   Positions.csv                      ->  # PROFESSIONAL EXPERIENCE
+ *   Education.csv                      ->  # EDUCATION
+ *   Projects.csv                       ->  # TECHNICAL PROJECT EXPERIENCE
+ *   Volunteering.csv                   ->  # VOLUNTEER
+ *   Skills.csv                         ->  # INTERESTS
+ *
+ * LinkedIn dates ("Jan 2020", "2016") become "January 2020" and "2016".
+ */
+
+import { zipFileText, type ZipFile } from './zip-utils';
+import { parseCsv } from './job-csv';
+import {
+  jsonResumeToProfile,
+  profileDateToIso,
+  type JsonResume,
+} from './json-resume';
+
+/**
+ * Result of reading a LinkedIn archive
+ */
+export interface LinkedInImportResult {
+  /** <PROFILE> template content */
+  content: string;
+  /** CSV files the profile was built from */
+  files: string[];
+}
+
+type CsvRecord = Record<string, string>;
+
+/** CSV files read from the archive (lowercase base names) */
+const LINKEDIN_FILES = [
+  'profile.csv',
+  'email addresses.csv',
+  'phonenumbers.csv',
+  'positions.csv',
+  'education.csv',
+  'projects.csv',
+  'volunteering.csv',
+  'skills.csv',
+];
+
+/**
+ * Turn CSV rows into records keyed by header
+ * Some exports start with a "Notes:" preamble; rows before the header
+ * (the first row containing `headerHint`) are skipped.
+ */
+function toRecords(text: string, headerHint: string): CsvRecord[] {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => cell.trim() === headerHint)
+  );
+  if (headerIndex < 0) return [];
+
+  const headers = rows[headerIndex].map((cell) => cell.trim());
+  return rows
+    .slice(headerIndex + 1)
+    .map((row) =>
+      Object.fromEntries(
+        headers.map((header, i) => [header, (row[i] ?? '').trim()])
+      )
+    );
+}
+
+/**
+ * Split a free-text description into bullet lines, dropping list markers
+ */
+const toHighlights = (text: string | undefined): string[] =>
+  (text ?? '')
+    .split(/\r?\n+/)
+    .map((line) => line.replace(/^\s*(?:[-*•·▪]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean);
+
+/**
+ * Build a JSON Resume document from the CSV files of a LinkedIn archive
+ * @param csv - File contents keyed by lowercase base name
+ */
+function linkedInToJsonResume(csv: Record<string, string>): JsonResume {
+  const read = (name: string, headerHint: string): CsvRecord[] =>
+    csv[name] ? toRecords(csv[name], headerHint) : [];
+
+  const profile = read('profile.csv', 'First Name')[0] ?? {};
+  const emails = read('email addresses.csv', 'Email Address');
+  const phones = read('phonenumbers.csv', 'Number');
+  const email =
+    emails.find((row) => row['Primary']?.toLowerCase() === 'yes') ?? emails[0];
+  const website = profile['Websites']?.match(/https?:\/\/[^\s,\]]+/)?.[0];
+
+  return {
+    basics: {
+      name: [profile['First Name'], profile['Last Name']]
+        .filter(Boolean)
+        .join(' '),
+      label: profile['Headline'],
+      email: email?.['Email Address'],
+      phone: phones[0]?.['Number'],
+      url: website,
+      summary: profile['Summary'],
+      location: {
+        address: profile['Address'] || profile['Geo Location'],
+      },
+    },
+    work: read('positions.csv', 'Company Name').map((row) => ({
+      name: row['Company Name'],
+      position: row['Title'],
+      location: row['Location'],
+      startDate: profileDateToIso(row['Started On']),
+      endDate: profileDateToIso(row['Finished On']),
+      highlights: toHighlights(row['Description']),
+    })),
+    education: read('education.csv', 'School Name').map((row) => ({
+      institution: row['School Name'],
+      studyType: row['Degree Name'],
+      startDate: profileDateToIso(row['Start Date']),
+      endDate: profileDateToIso(row['End Date']),
+      courses: [
+        ...toHighlights(row['Notes']),
+        ...toHighlights(row['Activities']),
+      ],
+    })),
+    projects: read('projects.csv', 'Title').map((row) => ({
+      name: row['Title'],
+      url: row['Url'],
+      startDate: profileDateToIso(row['Started On']),
+      endDate: profileDateToIso(row['Finished On']),
+      highlights: toHighlights(row['Description']),
+    })),
+    volunteer: read('volunteering.csv', 'Company Name').map((row) => ({
+      organization: row['Company Name'],
+      position: row['Role'],
+      startDate: profileDateToIso(row['Started On']),
+      endDate: profileDateToIso(row['Finished On']),
+      highlights: toHighlights(row['Description']),
+    })),
+    interests: read('skills.csv', 'Name')
+      .map((row) => row['Name'])
+      .filter(Boolean)
+      .map((name) => ({ name })),
+  };
+}
+
+/**
+ * Build <PROFILE> content from the files of a LinkedIn data-export ZIP
+ * @throws Error if the archive contains none of the expected CSV files
+ */
+export function parseLinkedInArchive(entries: ZipFile[]): LinkedInImportResult {
+  const csv: Record<string, string> = {};
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const baseName = entry.path.split('/').pop() ?? '';
+    const key = baseName.toLowerCase();
+    if (LINKEDIN_FILES.includes(key) && !(key in csv)) {
+      csv[key] = zipFileText(entry);
+      files.push(baseName);
+    }
+  }
+
+  if (files.length === 0) {
+    throw new Error(
+      'No LinkedIn profile data found. Expected Profile.csv, Positions.csv or Education.csv in the archive.'
+    );
+  }
+
+  return {
+    content: jsonResumeToProfile(linkedInToJsonResume(csv)),
+    files,
+  };
+}
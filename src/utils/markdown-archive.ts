@@ -0,0 +1,280 @@
+/**
+ * Markdown folder export/import for jobs
+ *
+ * Each job becomes a folder holding job.md (its <JOB> template) and one .md
+ * file per document, so the data can live in a notes vault or git repo:
+ *
+ *   sir-hires-jobs/
+ *     acme-corp-senior-developer/
+ *       job.md            frontmatter: id, status, url, source, dates
+ *       tailoredResume.md frontmatter: key, title, order, lastEdited
+ *       coverLetter.md
+ *
+ * Frontmatter values are written as JSON (valid YAML scalars) and read back
+ * leniently, so hand-edited files with plain values still import.
+ */
+
+import type { Job, JobDocument } from '../entrypoints/job-details/hooks';
+import { parseJobTemplate, getJobTitle, getCompanyName } from './job-parser';
+import { createImportedJob } from './job-import';
+import { generateJobId } from './shared-utils';
+import { createZip } from './zip-utils';
+
+/** Root folder of an exported archive */
+export const MARKDOWN_ARCHIVE_FOLDER = 'sir-hires-jobs';
+
+/**
+ * Job fields a Markdown folder carries over onto a matching local job
+ * (createdAt is left alone: files written by hand may not have it)
+ */
+export const MARKDOWN_JOB_FIELDS: readonly (keyof Job)[] = [
+  'content',
+  'url',
+  'source',
+  'applicationStatus',
+  'updatedAt',
+  'appliedAt',
+  'documents',
+];
+
+/** File name of the job template within a job folder */
+const JOB_FILE = 'job.md';
+
+/**
+ * A text file read from an archive or folder
+ */
+export interface MarkdownFile {
+  /** Path relative to the archive or selected folder, '/' separated */
+  path: string;
+  text: string;
+}
+
+/**
+ * Result of reading a Markdown folder
+ */
+export interface MarkdownImportResult {
+  /** Rebuilt jobs keyed by id */
+  jobs: Record<string, Job>;
+  /** Files that were not imported, with the reason */
+  skipped: { path: string; reason: string }[];
+}
+
+type Frontmatter = Record<string, unknown>;
+
+/**
+ * Lowercase, dash-separated name that is safe on every file system
+ */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+}
+
+function formatFrontmatter(fields: Frontmatter): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n`;
+}
+
+/**
+ * Split a file into frontmatter and body
+ * Values that are not valid JSON are kept as plain strings.
+ */
+function parseFrontmatter(text: string): {
+  fields: Frontmatter;
+  body: string;
+} {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const match = normalized.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+  if (!match) return { fields: {}, body: normalized };
+
+  const fields: Frontmatter = {};
+  for (const line of match[1].split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const key = line.slice(0, separator).trim();
+    const raw = line.slice(separator + 1).trim();
+    try {
+      fields[key] = JSON.parse(raw);
+    } catch {
+      fields[key] = raw.replace(/^'(.*)'$/, '$1');
+    }
+  }
+
+  return { fields, body: normalized.slice(match[0].length) };
+}
+
+// Editors add a final newline anyway; job content is trimmed on import
+const ensureTrailingNewline = (text: string): string =>
+  text.endsWith('\n') ? text : `${text}\n`;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+/**
+ * Build the files of a Markdown archive
+ */
+export function createMarkdownFiles(jobs: Job[]): MarkdownFile[] {
+  const files: MarkdownFile[] = [];
+  const usedFolders = new Set<string>();
+
+  for (const job of jobs) {
+    const parsed = parseJobTemplate(job.content || '');
+    const base =
+      slugify(
+        [getCompanyName(parsed), getJobTitle(parsed)].filter(Boolean).join(' ')
+      ) || slugify(job.id);
+
+    let folder = base;
+    for (let n = 2; usedFolders.has(folder); n++) folder = `${base}-${n}`;
+    usedFolders.add(folder);
+
+    const dir = `${MARKDOWN_ARCHIVE_FOLDER}/${folder}`;
+    files.push({
+      path: `${dir}/${JOB_FILE}`,
+      text:
+        formatFrontmatter({
+          id: job.id,
+          status: job.applicationStatus,
+          url: job.url || undefined,
+          source: job.source,
+          createdAt: job.createdAt,
+          updatedAt: job.updatedAt,
+          appliedAt: job.appliedAt,
+        }) + ensureTrailingNewline(job.content || ''),
+    });
+
+    const usedNames = new Set([JOB_FILE]);
+    for (const [key, doc] of Object.entries(job.documents || {})) {
+      const baseName = key.replace(/[^a-zA-Z0-9_-]+/g, '-') || 'document';
+      let name = `${baseName}.md`;
+      for (let n = 2; usedNames.has(name); n++) name = `${baseName}-${n}.md`;
+      usedNames.add(name);
+
+      files.push({
+        path: `${dir}/${name}`,
+        text:
+          formatFrontmatter({
+            key,
+            title: doc.title,
+            order: doc.order,
+            lastEdited: doc.lastEdited,
+          }) + doc.text,
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Package every job as a zip of Markdown folders
+ */
+export function createMarkdownArchive(jobs: Job[]): Promise<Blob> {
+  return createZip(
+    createMarkdownFiles(jobs).map((file) => ({
+      path: file.path,
+      content: file.text,
+    }))
+  );
+}
+
+/**
+ * Rebuild jobs from the files of a Markdown folder
+ * A folder with job.md is one job and its other .md files are its
+ * documents. Loose .md files containing a <JOB> template are imported as
+ * jobs without documents.
+ */
+export function parseMarkdownFiles(
+  files: MarkdownFile[]
+): MarkdownImportResult {
+  const result: MarkdownImportResult = { jobs: {}, skipped: [] };
+
+  const folders = new Map<string, MarkdownFile[]>();
+  for (const file of files) {
+    const segments = file.path.split('/');
+    // Skip OS metadata (.DS_Store, __MACOSX/) and non-Markdown files
+    if (
+      segments.some((s) => s.startsWith('.') || s === '__MACOSX') ||
+      !file.path.toLowerCase().endsWith('.md')
+    ) {
+      continue;
+    }
+    const dir = segments.slice(0, -1).join('/');
+    folders.set(dir, [...(folders.get(dir) ?? []), file]);
+  }
+
+  const addJob = (file: MarkdownFile, documentFiles: MarkdownFile[]) => {
+    const { fields, body } = parseFrontmatter(file.text);
+    const content = body.trim();
+    if (!content.startsWith('<JOB>')) {
+      result.skipped.push({
+        path: file.path,
+        reason: 'No <JOB> template found.',
+      });
+      return;
+    }
+
+    const documents: Record<string, JobDocument> = {};
+    documentFiles.forEach((docFile, index) => {
+      const doc = parseFrontmatter(docFile.text);
+      const fileName = docFile.path.split('/').pop()!.replace(/\.md$/i, '');
+      const key = asString(doc.fields.key) ?? fileName;
+      documents[key] = {
+        title: asString(doc.fields.title) ?? fileName,
+        text: doc.body,
+        lastEdited: asString(doc.fields.lastEdited) ?? null,
+        order: typeof doc.fields.order === 'number' ? doc.fields.order : index,
+      };
+    });
+
+    // Ids must stay unique within the import for the merge to match them
+    let id = asString(fields.id);
+    if (!id || result.jobs[id]) id = generateJobId();
+
+    result.jobs[id] = createImportedJob({
+      id,
+      content,
+      url: asString(fields.url),
+      source: asString(fields.source),
+      applicationStatus: asString(fields.status),
+      createdAt: asString(fields.createdAt),
+      updatedAt: asString(fields.updatedAt),
+      appliedAt: asString(fields.appliedAt),
+      documents,
+    });
+  };
+
+  for (const folderFiles of folders.values()) {
+    const jobFile = folderFiles.find(
+      (file) => file.path.split('/').pop()!.toLowerCase() === JOB_FILE
+    );
+
+    if (jobFile) {
+      addJob(
+        jobFile,
+        folderFiles.filter((file) => file !== jobFile)
+      );
+      continue;
+    }
+
+    for (const file of folderFiles) {
+      if (parseFrontmatter(file.text).body.trim().startsWith('<JOB>')) {
+        addJob(file, []);
+      } else {
+        result.skipped.push({
+          path: file.path,
+          reason: `Not a job and no ${JOB_FILE} in its folder.`,
+        });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,352 @@
+/**
+ * Data schema migrations for sir-hires Chrome extension
+ *
+ * Migrations are registered in order; each one upgrades the stored data from
+ * `version - 1` to `version`. runMigrations() applies every migration newer
+ * than dataVersionStorage, after saving a backup of the untouched data, and
+ * records the outcome in dataVersionStorage.
+ *
+ * Only the background runs migrations, so two contexts never migrate the
+ * same data at once; pages call requestMigrations() and wait for it before
+ * reading storage.
+ *
+ * To change the stored schema:
+ * 1. Append a migration to MIGRATIONS with the next version number
+ * 2. Make it tolerant of data that is already in the new shape
+ */
+
+import { browser } from 'wxt/browser';
+import type { Job } from '../entrypoints/job-details/hooks';
+import {
+  jobsStorage,
+  userProfileStorage,
+  llmSettingsStorage,
+  customDocumentTemplatesStorage,
+  dataVersionStorage,
+  migrationBackupStorage,
+  profilesStorage,
+  defaultProfileIdStorage,
+  profilesFromLegacy,
+  type UserProfile,
+  type NamedProfile,
+  type LLMSettings,
+  type CustomDocumentTemplate,
+  type DataVersion,
+} from './storage';
+import { DEFAULT_TASK_SETTINGS } from './llm-utils';
+import { getJobSource } from './shared-utils';
+
+/**
+ * Data that migrations can transform
+ */
+export interface MigrationData {
+  jobs: Record<string, Job>;
+  userProfile: UserProfile | null;
+  llmSettings: LLMSettings | null;
+  customDocumentTemplates: Record<string, CustomDocumentTemplate>;
+  profiles: Record<string, NamedProfile>;
+  defaultProfileId: string | null;
+}
+
+/**
+ * A single schema upgrade
+ */
+export interface Migration {
+  /** Version this migration upgrades to */
+  version: number;
+  description: string;
+  /** Must not mutate its input */
+  migrate: (data: MigrationData) => MigrationData;
+}
+
+/**
+ * Outcome of a runMigrations() call
+ */
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  /** Versions that were applied, in order */
+  applied: number[];
+}
+
+/**
+ * Ordered migration registry (v1 → v2 → ...)
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description:
+      'Record job sources, fill missing timestamps and per-task LLM settings',
+    migrate: (data) => {
+      const now = new Date().toISOString();
+
+      const jobs: Record<string, Job> = {};
+      for (const [id, job] of Object.entries(data.jobs)) {
+        const createdAt = job.createdAt || job.updatedAt || now;
+        jobs[id] = {
+          ...job,
+          id: job.id || id,
+          source: getJobSource(job),
+          createdAt,
+          updatedAt: job.updatedAt || createdAt,
+        };
+      }
+
+      const llmSettings = data.llmSettings && {
+        ...data.llmSettings,
+        tasks: {
+          synthesis: {
+            ...DEFAULT_TASK_SETTINGS.synthesis,
+            ...data.llmSettings.tasks?.synthesis,
+          },
+          extraction: {
+            ...DEFAULT_TASK_SETTINGS.extraction,
+            ...data.llmSettings.tasks?.extraction,
+          },
+        },
+      };
+
+      const userProfile = data.userProfile && {
+        ...data.userProfile,
+        content: data.userProfile.content || '',
+        updatedAt: data.userProfile.updatedAt || now,
+      };
+
+      const customDocumentTemplates: Record<string, CustomDocumentTemplate> =
+        {};
+      for (const [id, template] of Object.entries(
+        data.customDocumentTemplates
+      )) {
+        customDocumentTemplates[id] = {
+          ...template,
+          id: template.id || id,
+          createdAt: template.createdAt || now,
+        };
+      }
+
+      return {
+        ...data,
+        jobs,
+        userProfile,
+        llmSettings,
+        customDocumentTemplates,
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Move jobs from one record to per-job storage keys',
+    // Data is unchanged; writing it back through jobsStorage moves the jobs
+    // out of the legacy 'local:jobs' record
+    migrate: (data) => data,
+  },
+  {
+    version: 4,
+    description: 'Move the single profile into named profiles',
+    migrate: (data) => {
+      // Already migrated (or restored from a newer backup): drop the legacy copy
+      if (Object.keys(data.profiles).length > 0) {
+        return { ...data, userProfile: null };
+      }
+
+      return {
+        ...data,
+        ...profilesFromLegacy(data.userProfile),
+        userProfile: null,
+      };
+    },
+  },
+];
+
+/**
+ * Schema version of data written by this build
+ */
+export const CURRENT_DATA_VERSION = MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  1
+);
+
+/**
+ * Apply migrations to data without touching storage
+ * @param data - Data at fromVersion
+ * @param fromVersion - Version the data is currently at
+ * @returns Migrated data and the versions that were applied
+ */
+export function applyMigrations(
+  data: MigrationData,
+  fromVersion: number
+): { data: MigrationData; applied: number[] } {
+  const pending = MIGRATIONS.filter((m) => m.version > fromVersion).sort(
+    (a, b) => a.version - b.version
+  );
+
+  let migrated = data;
+  for (const migration of pending) {
+    console.info(
+      `[Migrations] Applying v${migration.version}: ${migration.description}`
+    );
+    migrated = migration.migrate(migrated);
+  }
+
+  return { data: migrated, applied: pending.map((m) => m.version) };
+}
+
+// Shared in-flight run so concurrent callers in the background migrate once
+let inFlight: Promise<MigrationResult> | null = null;
+
+/**
+ * Write migratable data back to storage
+ */
+function writeMigrationData(data: MigrationData): Promise<unknown> {
+  return Promise.all([
+    jobsStorage.setValue(data.jobs),
+    userProfileStorage.setValue(data.userProfile),
+    llmSettingsStorage.setValue(data.llmSettings),
+    customDocumentTemplatesStorage.setValue(data.customDocumentTemplates),
+    profilesStorage.setValue(data.profiles),
+    defaultProfileIdStorage.setValue(data.defaultProfileId),
+  ]);
+}
+
+/**
+ * Bring stored data up to CURRENT_DATA_VERSION
+ * Background only; other contexts use requestMigrations.
+ * Safe to call on every load: does nothing when already up to date.
+ * The data being migrated is backed up to migrationBackupStorage first and
+ * the backup is removed once the migration succeeds. On failure the version
+ * is not bumped, the error is recorded in dataVersionStorage and the original
+ * data is written back; if that also fails the backup is kept.
+ * @returns Versions before/after and the migrations that ran
+ */
+export function runMigrations(): Promise<MigrationResult> {
+  if (!inFlight) {
+    inFlight = doRunMigrations().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Ask the background to bring stored data up to date (see runMigrations)
+ * @returns Versions before/after and the migrations that ran
+ * @throws If the migration failed
+ */
+export async function requestMigrations(): Promise<MigrationResult> {
+  const response = (await browser.runtime.sendMessage({
+    action: 'runMigrations',
+  })) as
+    | { success: true; result: MigrationResult }
+    | { success: false; error?: string }
+    | undefined;
+
+  if (!response?.success) {
+    throw new Error(response?.error || 'Migration failed');
+  }
+  return response.result;
+}
+
+async function doRunMigrations(): Promise<MigrationResult> {
+  const dataVersion = await dataVersionStorage.getValue();
+  const fromVersion = dataVersion.version;
+
+  if (fromVersion >= CURRENT_DATA_VERSION) {
+    return { fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  console.info(
+    `[Migrations] Migrating data from v${fromVersion} to v${CURRENT_DATA_VERSION}`
+  );
+
+  let original: MigrationData | null = null;
+  let writeStarted = false;
+
+  try {
+    const [
+      jobs,
+      userProfile,
+      llmSettings,
+      customDocumentTemplates,
+      profiles,
+      defaultProfileId,
+    ] = await Promise.all([
+      jobsStorage.getValue(),
+      userProfileStorage.getValue(),
+      llmSettingsStorage.getValue(),
+      customDocumentTemplatesStorage.getValue(),
+      profilesStorage.getValue(),
+      defaultProfileIdStorage.getValue(),
+    ]);
+
+    original = {
+      jobs: jobs || {},
+      userProfile,
+      llmSettings,
+      customDocumentTemplates: customDocumentTemplates || {},
+      profiles: profiles || {},
+      defaultProfileId,
+    };
+
+    // Back up the data before changing anything
+    await migrationBackupStorage.setValue({
+      fromVersion,
+      createdAt: new Date().toISOString(),
+      data: { ...original },
+    });
+
+    const { data, applied } = applyMigrations(original, fromVersion);
+
+    writeStarted = true;
+    await writeMigrationData(data);
+
+    const now = new Date().toISOString();
+    await dataVersionStorage.setValue({
+      version: CURRENT_DATA_VERSION,
+      migratedAt: now,
+      lastMigration: {
+        fromVersion,
+        toVersion: CURRENT_DATA_VERSION,
+        status: 'success',
+        at: now,
+      },
+    });
+
+    // The migration is committed; a leftover backup is only wasted space
+    await migrationBackupStorage
+      .removeValue()
+      .catch((error) =>
+        console.warn('[Migrations] Failed to remove migration backup:', error)
+      );
+
+    console.info(`[Migrations] Migrated to v${CURRENT_DATA_VERSION}`);
+    return { fromVersion, toVersion: CURRENT_DATA_VERSION, applied };
+  } catch (error) {
+    console.error('[Migrations] Migration failed:', error);
+
+    // Some writes may have landed: put the original data back
+    if (writeStarted && original) {
+      try {
+        await writeMigrationData(original);
+        await migrationBackupStorage.removeValue();
+      } catch (restoreError) {
+        console.error(
+          '[Migrations] Failed to restore pre-migration data (kept in migrationBackup):',
+          restoreError
+        );
+      }
+    }
+
+    const failed: DataVersion = {
+      ...dataVersion,
+      lastMigration: {
+        fromVersion,
+        toVersion: CURRENT_DATA_VERSION,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      },
+    };
+    await dataVersionStorage.setValue(failed);
+    throw error;
+  }
+}
@@ -0,0 +1,196 @@
+// Offer Template Parser
+// Thin wrapper around unified template parser for job offers
+//
+// Format:
+// - <OFFER> wrapper
+// - KEY: value for top-level fields (BASE_SALARY, BONUS, EQUITY, etc.)
+// - # BENEFITS section with - bullet list items
+// - # NOTES section with freeform text
+
+import { parseTemplate, type ParsedTemplate } from './template-parser';
+
+/**
+ * Parsed offer template data (same structure as the unified parser)
+ */
+export type OfferTemplateData = ParsedTemplate;
+
+/**
+ * Annualized compensation breakdown for an offer
+ */
+export interface CompensationBreakdown {
+  base: number;
+  bonus: number;
+  equityPerYear: number;
+  signingBonus: number;
+  /** Recurring annual compensation (base + bonus + vested equity) */
+  annualTotal: number;
+  /** First-year compensation (annual total + signing bonus) */
+  firstYearTotal: number;
+  currency: string;
+}
+
+/**
+ * Vesting period assumed when EQUITY is set without a parseable VESTING
+ */
+const DEFAULT_VESTING_YEARS = 4;
+
+/**
+ * Blank offer template shown when a job has no offer yet
+ */
+const OFFER_TEMPLATE = `<OFFER>
+BASE_SALARY:
+BONUS: // Amount or percent of base (e.g., 10%)
+EQUITY: // Total grant value
+VESTING: 4 years, 1 year cliff
+SIGNING_BONUS:
+CURRENCY: USD
+START_DATE:
+
+// Optional sections:
+// # BENEFITS
+// - Health, dental, vision
+// # NOTES
+// Anything else worth remembering when comparing offers
+`;
+
+/**
+ * Parse offer template content into structured data
+ * @param content - Raw <OFFER> template string
+ * @returns Parsed offer data
+ */
+function parseOfferTemplate(content: string): OfferTemplateData {
+  return parseTemplate(content);
+}
+
+/**
+ * Parse a money value into a number
+ * Accepts currency symbols, thousands separators and k/m suffixes
+ * (e.g., "$150,000", "150k", "1.2M")
+ * @param value - Raw field value
+ * @returns Parsed amount or null if not a number
+ */
+function parseMoney(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const match = value.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?)\s*([kKmM])?/);
+  if (!match) return null;
+
+  let amount = parseFloat(match[1]);
+  if (isNaN(amount)) return null;
+
+  const suffix = match[2]?.toLowerCase();
+  if (suffix === 'k') amount *= 1_000;
+  if (suffix === 'm') amount *= 1_000_000;
+
+  return amount;
+}
+
+/**
+ * Parse the vesting period in years from a VESTING value
+ * @param value - Raw field value (e.g., "4 years, 1 year cliff", "48 months")
+ * @returns Vesting years or null if not found
+ */
+function parseVestingYears(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const years = value.match(/(\d+(?:\.\d+)?)\s*(?:years?|yrs?)/i);
+  if (years) return parseFloat(years[1]) || null;
+
+  const months = value.match(/(\d+)\s*(?:months?|mos?)/i);
+  if (months) return parseInt(months[1], 10) / 12 || null;
+
+  return null;
+}
+
+/**
+ * Get a specific top-level field value
+ * @param parsedOffer - Result from parseOfferTemplate()
+ * @param fieldName - Name of the field (e.g., 'BASE_SALARY')
+ * @returns Field value or null if not found
+ */
+function getOfferField(
+  parsedOffer: OfferTemplateData,
+  fieldName: string
+): string | null {
+  return parsedOffer.topLevelFields[fieldName] || null;
+}
+
+/**
+ * Extract the benefits list from a parsed offer
+ * @param parsedOffer - Result from parseOfferTemplate()
+ * @returns Benefit bullet items
+ */
+function extractBenefits(parsedOffer: OfferTemplateData): string[] {
+  return parsedOffer.sections['BENEFITS']?.list || [];
+}
+
+/**
+ * Compute annualized total compensation for an offer
+ * BONUS may be an amount or a percentage of base; EQUITY is the total grant
+ * value spread evenly across the vesting period.
+ * @param parsedOffer - Result from parseOfferTemplate()
+ * @returns Compensation breakdown, or null if BASE_SALARY is missing
+ */
+function calculateTotalCompensation(
+  parsedOffer: OfferTemplateData
+): CompensationBreakdown | null {
+  const base = parseMoney(getOfferField(parsedOffer, 'BASE_SALARY'));
+  if (base === null) return null;
+
+  const bonusRaw = getOfferField(parsedOffer, 'BONUS');
+  const bonusValue = parseMoney(bonusRaw) ?? 0;
+  const bonus = bonusRaw?.includes('%')
+    ? (base * bonusValue) / 100
+    : bonusValue;
+
+  const equity = parseMoney(getOfferField(parsedOffer, 'EQUITY')) ?? 0;
+  const vestingYears =
+    parseVestingYears(getOfferField(parsedOffer, 'VESTING')) ??
+    DEFAULT_VESTING_YEARS;
+  const equityPerYear = equity / vestingYears;
+
+  const signingBonus =
+    parseMoney(getOfferField(parsedOffer, 'SIGNING_BONUS')) ?? 0;
+
+  const annualTotal = base + bonus + equityPerYear;
+
+  return {
+    base,
+    bonus,
+    equityPerYear,
+    signingBonus,
+    annualTotal,
+    firstYearTotal: annualTotal + signingBonus,
+    currency: getOfferField(parsedOffer, 'CURRENCY') || 'USD',
+  };
+}
+
+/**
+ * Format a compensation amount for display
+ * @param amount - Amount to format
+ * @param currency - ISO currency code (falls back to plain number if unknown)
+ * @returns Formatted amount (e.g., "$150,000")
+ */
+function formatCompensation(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+}
+
+// Export functions for use in other modules (ES6 modules)
+export {
+  OFFER_TEMPLATE,
+  parseOfferTemplate,
+  parseMoney,
+  parseVestingYears,
+  getOfferField,
+  extractBenefits,
+  calculateTotalCompensation,
+  formatCompensation,
+};
@@ -0,0 +1,66 @@
+// Offer Template Validator
+// Thin wrapper around unified template validator with offer-specific schema
+
+import {
+  getOfferField,
+  parseMoney,
+  type OfferTemplateData,
+} from './offer-parser';
+import {
+  validateTemplate,
+  type ValidationResult,
+  type ValidationSchema,
+} from './template-validator';
+
+/**
+ * Offer validation result interface (alias for unified result)
+ */
+export type OfferValidationResult = ValidationResult;
+
+/**
+ * Offer validation schema
+ */
+const OFFER_SCHEMA: ValidationSchema = {
+  expectedType: 'OFFER',
+  missingTypeIsError: true,
+  requiredFields: ['BASE_SALARY'],
+  sections: {}, // BENEFITS and NOTES are optional
+  validateItems: false, // Offers don't have ## items
+};
+
+/**
+ * Top-level fields that must contain a number for compensation math
+ */
+const NUMERIC_FIELDS = ['BASE_SALARY', 'BONUS', 'EQUITY', 'SIGNING_BONUS'];
+
+/**
+ * Validate a parsed offer template
+ * @param parsedOffer - Result from parseOfferTemplate()
+ * @returns Validation result with errors, warnings, and info
+ */
+function validateOfferTemplate(
+  parsedOffer: OfferTemplateData
+): OfferValidationResult {
+  const result = validateTemplate(parsedOffer, OFFER_SCHEMA);
+
+  // Warn when a money field can't be used in the total compensation
+  for (const fieldName of NUMERIC_FIELDS) {
+    const value = getOfferField(parsedOffer, fieldName);
+    if (value && parseMoney(value) === null) {
+      result.warnings.push({
+        type: 'invalid_number',
+        field: fieldName,
+        value,
+        message: `Field "${fieldName}" should be a number (e.g., 120000, 120k, 10%)`,
+      });
+    }
+  }
+
+  return result;
+}
+
+// Short aliases for convenience
+const validateOffer = validateOfferTemplate;
+
+// Export functions for use in other modules (ES6 modules)
+export { validateOfferTemplate, validateOffer, OFFER_SCHEMA };
@@ -0,0 +1,102 @@
+/**
+ * PDF text extraction
+ *
+ * Reads the text of a PDF locally with pdf.js. Lines are rebuilt from text
+ * positions: a change of baseline starts a new line, a large vertical gap a
+ * blank line, and a horizontal gap between runs a space.
+ *
+ * Scanned PDFs (images only) yield no text; encrypted PDFs are rejected.
+ */
+
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type {
+  TextItem,
+  TextMarkedContent,
+} from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+const isTextItem = (item: TextItem | TextMarkedContent): item is TextItem =>
+  'str' in item;
+
+/**
+ * Join a page's text runs into lines
+ */
+function layoutPage(runs: TextItem[]): string {
+  let out = '';
+  let lastY: number | null = null;
+  let lastEndX = 0;
+  let lastSize = 10;
+
+  for (const run of runs) {
+    if (!run.str) continue;
+    const [, , , , x, y] = run.transform;
+    const size = run.height || lastSize;
+
+    if (lastY === null) {
+      out += run.str;
+    } else {
+      const dy = Math.abs(y - lastY);
+      const lineHeight = Math.max(size, lastSize);
+      if (dy > lineHeight * 0.5) {
+        // New line; a gap of more than ~1.5 lines ends a paragraph
+        out += dy > lineHeight * 1.9 ? '\n\n' : '\n';
+        out += run.str;
+      } else {
+        const gap = x - lastEndX;
+        const needsSpace =
+          gap > size * 0.15 && !/\s$/.test(out) && !/^\s/.test(run.str);
+        out += (needsSpace ? ' ' : '') + run.str;
+      }
+    }
+
+    lastY = y;
+    lastEndX = x + run.width;
+    lastSize = size;
+  }
+
+  return out;
+}
+
+/**
+ * Extract the text of a PDF
+ * @param data - File contents
+ * @throws If the data is not a PDF or is password-protected
+ */
+export async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const header = new TextDecoder().decode(data.slice(0, 1024));
+  if (!header.includes('%PDF-')) {
+    throw new Error('Not a PDF file.');
+  }
+
+  const loadingTask = getDocument({ data: new Uint8Array(data) });
+  try {
+    const pdf = await loadingTask.promise;
+    const pages: string[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      pages.push(layoutPage(content.items.filter(isTextItem)));
+      page.cleanup();
+    }
+
+    return pages
+      .map((text) =>
+        text
+          .split('\n')
+          .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+          .join('\n')
+      )
+      .join('\n\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new Error('Password-protected PDFs cannot be read.');
+    }
+    throw error;
+  } finally {
+    await loadingTask.destroy();
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Pipeline utilities for sir-hires Chrome extension
+ * Validates user-configured pipelines and migrates jobs when statuses change
+ */
+
+import { defaultPipeline, type Pipeline } from '../config';
+import type {
+  Job,
+  ChecklistItem,
+  StatusTransition,
+} from '../entrypoints/job-details/hooks';
+import { jobsStorage, pipelineStorage } from './storage';
+import { generateItemId } from './shared-utils';
+import { createStatusTransition } from './status-history';
+
+/**
+ * Result of migrating jobs to a new pipeline
+ */
+export interface PipelineMigrationResult {
+  jobs: Record<string, Job>;
+  /** Number of jobs whose status, history or checklist changed */
+  migratedCount: number;
+}
+
+/**
+ * Validate a pipeline before saving
+ * @param pipeline - Pipeline to validate
+ * @returns Error messages (empty when valid)
+ */
+export function validatePipeline(pipeline: Pipeline): string[] {
+  const errors: string[] = [];
+  const names = pipeline.statuses.map((s) => s.name.trim());
+
+  if (pipeline.statuses.length === 0) {
+    errors.push('The pipeline needs at least one status');
+  }
+
+  if (names.some((name) => !name)) {
+    errors.push('Every status needs a name');
+  }
+
+  const seen = new Set<string>();
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (name && seen.has(key)) {
+      errors.push(`Status "${name}" is listed more than once`);
+    }
+    seen.add(key);
+  }
+
+  if (pipeline.statuses.length > 0 && pipeline.statuses[0].terminal) {
+    errors.push('The first status must not be an end state');
+  }
+
+  for (const status of pipeline.statuses) {
+    if (status.fill < 0 || status.fill > 100 || isNaN(status.fill)) {
+      errors.push(`Progress for "${status.name}" must be between 0 and 100`);
+    }
+
+    const targets = [
+      ...(status.back ? [status.back.target] : []),
+      ...status.forward.map((t) => t.target),
+    ];
+    for (const target of targets) {
+      if (!names.includes(target)) {
+        errors.push(
+          `"${status.name}" moves to "${target}", which is not in the pipeline`
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build a fresh checklist for a status from the pipeline template
+ */
+function createChecklistForStatus(
+  pipeline: Pipeline,
+  status: string
+): ChecklistItem[] {
+  const config = pipeline.statuses.find((s) => s.name === status);
+  return (config?.checklist || []).map((text, index) => ({
+    id: generateItemId(status, index),
+    text,
+    checked: false,
+    order: index,
+  }));
+}
+
+/**
+ * Move every job onto a new pipeline
+ *
+ * - Renamed statuses carry over to their new name (status, history,
+ *   outcome stage and checklist key)
+ * - Jobs in a status the pipeline lacks move to the first status, with
+ *   the move recorded in statusHistory so nothing is lost silently
+ * - Checklists are added for statuses the job has never had
+ *
+ * @param jobs - Jobs keyed by ID
+ * @param pipeline - New pipeline
+ * @param renames - Old status name → new status name
+ * @returns Migrated jobs and how many changed
+ */
+export function migrateJobsToPipeline(
+  jobs: Record<string, Job>,
+  pipeline: Pipeline,
+  renames: Record<string, string> = {}
+): PipelineMigrationResult {
+  const names = pipeline.statuses.map((s) => s.name);
+  const fallback = names[0];
+  const rename = (status: string) => renames[status] ?? status;
+
+  let migratedCount = 0;
+  const migrated: Record<string, Job> = {};
+
+  for (const [id, job] of Object.entries(jobs)) {
+    let changed = false;
+    const updated: Job = { ...job };
+
+    // Rename statuses everywhere they are referenced
+    const renamedStatus = rename(job.applicationStatus);
+    if (renamedStatus !== job.applicationStatus) {
+      updated.applicationStatus = renamedStatus;
+      changed = true;
+    }
+
+    if (job.statusHistory?.length) {
+      const history = job.statusHistory.map(
+        (t): StatusTransition => ({
+          ...t,
+          from: t.from === null ? null : rename(t.from),
+          to: rename(t.to),
+        })
+      );
+      if (JSON.stringify(history) !== JSON.stringify(job.statusHistory)) {
+        updated.statusHistory = history;
+        changed = true;
+      }
+    }
+
+    if (job.outcome?.stage && rename(job.outcome.stage) !== job.outcome.stage) {
+      updated.outcome = { ...job.outcome, stage: rename(job.outcome.stage) };
+      changed = true;
+    }
+
+    const checklist: Record<string, ChecklistItem[]> = {};
+    for (const [status, items] of Object.entries(job.checklist || {})) {
+      checklist[rename(status)] = items;
+    }
+
+    // Statuses the pipeline lacks (removed, or from imported jobs) fall
+    // back to the first status
+    if (!names.includes(updated.applicationStatus)) {
+      const unknownStatus = updated.applicationStatus;
+      updated.applicationStatus = fallback;
+      updated.statusHistory = [
+        ...(updated.statusHistory || []),
+        createStatusTransition(
+          unknownStatus,
+          fallback,
+          `Moved automatically: "${unknownStatus}" is not in the pipeline`
+        ),
+      ];
+      changed = true;
+    }
+
+    // Give every status a checklist (keeps old ones for removed statuses)
+    for (const status of names) {
+      if (!checklist[status]) {
+        checklist[status] = createChecklistForStatus(pipeline, status);
+        changed = true;
+      }
+    }
+    updated.checklist = checklist;
+
+    if (changed) {
+      updated.updatedAt = new Date().toISOString();
+      migratedCount++;
+    }
+    migrated[id] = changed ? updated : job;
+  }
+
+  return { jobs: migrated, migratedCount };
+}
+
+/**
+ * Move stored jobs onto the stored pipeline
+ * Run after jobs are brought in from elsewhere (restore, merge, import,
+ * trash) so none keeps a status the pipeline lacks.
+ * @returns Number of jobs moved to the first status
+ */
+export async function fitStoredJobsToPipeline(): Promise<number> {
+  const [jobs, stored] = await Promise.all([
+    jobsStorage.getValue(),
+    pipelineStorage.getValue(),
+  ]);
+  const pipeline =
+    stored && stored.statuses.length > 0 ? stored : defaultPipeline;
+
+  const { jobs: migratedJobs, migratedCount } = migrateJobsToPipeline(
+    jobs,
+    pipeline
+  );
+  if (migratedCount === 0) return 0;
+
+  await jobsStorage.setValue(migratedJobs);
+  return Object.entries(jobs).filter(
+    ([id, job]) => migratedJobs[id].applicationStatus !== job.applicationStatus
+  ).length;
+}
@@ -0,0 +1,514 @@
+/**
+ * Form model for the profile editor
+ *
+ * The form is read with parseProfileTemplate() and written back by patching
+ * the text it was read from: only lines whose values changed are rewritten,
+ * new fields, bullets, entries and sections are inserted next to their
+ * siblings, and removed ones are cut out. Comments, blank lines and lines
+ * the parser ignores stay where they were, so switching between the form
+ * and the raw text loses nothing.
+ */
+
+import { parseProfileTemplate, normalizeProfileFormat } from './profile-parser';
+import {
+  TEMPLATE_LINE_PATTERNS,
+  MAX_FIELD_LINE_LENGTH,
+  stripInlineComment,
+} from './template-parser';
+
+// ===== Form model =====
+
+export interface ProfileFormField {
+  key: string;
+  value: string;
+  /** Key in the source text (undefined for new fields) */
+  sourceKey?: string;
+}
+
+/**
+ * A ## entry (e.g., one job or degree)
+ */
+export interface ProfileFormItem {
+  title: string;
+  fields: ProfileFormField[];
+  bullets: string[];
+  /** Position among the section's entries in the source text */
+  sourceIndex?: number;
+}
+
+export interface ProfileFormSection {
+  name: string;
+  fields: ProfileFormField[];
+  items: ProfileFormItem[];
+  /** Bullets directly under the section (e.g., INTERESTS) */
+  list: string[];
+  /** Freeform lines (e.g., SUMMARY) */
+  text: string[];
+  /** Upper-case section name in the source text (undefined for new sections) */
+  sourceKey?: string;
+}
+
+export interface ProfileForm {
+  fields: ProfileFormField[];
+  sections: ProfileFormSection[];
+}
+
+/** Content used when writing a form over an empty profile */
+const EMPTY_PROFILE = '<PROFILE>\n</PROFILE>';
+
+function toFormFields(fields: Record<string, string>): ProfileFormField[] {
+  return Object.entries(fields).map(([key, value]) => ({
+    key,
+    value,
+    sourceKey: key,
+  }));
+}
+
+/**
+ * Read profile content into the form model
+ */
+export function readProfileForm(content: string): ProfileForm {
+  const parsed = parseProfileTemplate(content);
+
+  return {
+    fields: toFormFields(parsed.topLevelFields),
+    sections: Object.entries(parsed.sections).map(([key, section]) => ({
+      name: section.originalName ?? key,
+      fields: toFormFields(section.fields),
+      items: section.items.map((item, index) => ({
+        title: item.title,
+        fields: toFormFields(item.fields),
+        bullets: [...item.bullets],
+        sourceIndex: index,
+      })),
+      list: [...section.list],
+      text: [...section.text],
+      sourceKey: key,
+    })),
+  };
+}
+
+// ===== Source text =====
+
+type LineKind = 'field' | 'bullet' | 'text' | 'other';
+
+interface SourceLine {
+  raw: string;
+  kind: LineKind;
+  key?: string;
+  value?: string;
+  /** Inline comment after a field value, kept when the value changes */
+  comment?: string;
+}
+
+interface SourceItem {
+  header: string;
+  title: string;
+  body: SourceLine[];
+}
+
+interface SourceSection {
+  header: string;
+  name: string;
+  key: string;
+  body: SourceLine[];
+  items: SourceItem[];
+}
+
+interface SourceDocument {
+  head: SourceLine[];
+  sections: SourceSection[];
+  /** Closing tag and anything after it */
+  tail: string[];
+}
+
+type Region = 'head' | 'section' | 'item';
+
+const isBlankOrComment = (trimmed: string): boolean =>
+  !trimmed || trimmed.startsWith('//');
+
+const indentOf = (raw: string): string => raw.match(/^\s*/)?.[0] ?? '';
+
+const inlineCommentOf = (text: string): string | undefined =>
+  text.match(/(?:^|\s)(\/\/.*)$/)?.[1];
+
+/**
+ * Classify a line the way parseTemplate() reads it in the given region
+ * Lines the parser skips there (comments, tags, bullets and text outside a
+ * section, text inside an entry) are 'other' and never touched.
+ */
+function classifyLine(raw: string, region: Region): SourceLine {
+  const trimmed = raw.trim();
+  if (
+    isBlankOrComment(trimmed) ||
+    TEMPLATE_LINE_PATTERNS.closingTag.test(trimmed) ||
+    TEMPLATE_LINE_PATTERNS.typeTag.test(trimmed)
+  ) {
+    return { raw, kind: 'other' };
+  }
+
+  const listMatch = trimmed.match(TEMPLATE_LINE_PATTERNS.listItem);
+  if (listMatch) {
+    return region === 'head'
+      ? { raw, kind: 'other' }
+      : { raw, kind: 'bullet', value: listMatch[1] };
+  }
+
+  const fieldMatch =
+    trimmed.length <= MAX_FIELD_LINE_LENGTH
+      ? trimmed.match(TEMPLATE_LINE_PATTERNS.field)
+      : null;
+  if (fieldMatch) {
+    const rawValue = fieldMatch[2].trim();
+    return {
+      raw,
+      kind: 'field',
+      key: fieldMatch[1].trim(),
+      value: stripInlineComment(rawValue),
+      comment: inlineCommentOf(rawValue),
+    };
+  }
+
+  return region === 'section'
+    ? { raw, kind: 'text', value: trimmed }
+    : { raw, kind: 'other' };
+}
+
+/**
+ * Split content into head, sections and entries, keeping every line
+ */
+function readSource(content: string): SourceDocument {
+  const lines = content.split('\n');
+
+  // The last closing tag ends the profile
+  let end = lines.length;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (TEMPLATE_LINE_PATTERNS.closingTag.test(lines[i].trim())) {
+      end = i;
+      break;
+    }
+  }
+
+  const doc: SourceDocument = {
+    head: [],
+    sections: [],
+    tail: lines.slice(end),
+  };
+  let section: SourceSection | null = null;
+  let item: SourceItem | null = null;
+
+  for (const raw of lines.slice(0, end)) {
+    const trimmed = raw.trim();
+
+    if (!isBlankOrComment(trimmed)) {
+      const sectionMatch = trimmed.match(TEMPLATE_LINE_PATTERNS.section);
+      if (sectionMatch) {
+        const name = sectionMatch[1].trim();
+        section = {
+          header: raw,
+          name,
+          key: name.toUpperCase(),
+          body: [],
+          items: [],
+        };
+        doc.sections.push(section);
+        item = null;
+        continue;
+      }
+
+      const itemMatch = trimmed.match(TEMPLATE_LINE_PATTERNS.item);
+      if (itemMatch && section) {
+        item = { header: raw, title: itemMatch[1].trim(), body: [] };
+        section.items.push(item);
+        continue;
+      }
+    }
+
+    if (item) item.body.push(classifyLine(raw, 'item'));
+    else if (section) section.body.push(classifyLine(raw, 'section'));
+    else doc.head.push(classifyLine(raw, 'head'));
+  }
+
+  return doc;
+}
+
+// ===== Patching =====
+
+const newLine = (raw: string): SourceLine => ({ raw, kind: 'other' });
+
+/** Index after the last line matching the predicate, or -1 */
+function indexAfterLast(
+  lines: SourceLine[],
+  predicate: (line: SourceLine) => boolean
+): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (predicate(lines[i])) return i + 1;
+  }
+  return -1;
+}
+
+const hasContent = (line: SourceLine): boolean => line.raw.trim() !== '';
+
+/** Keep the header's inline comment when its text changes */
+function rewriteHeader(raw: string, marker: string, text: string): string {
+  const comment = inlineCommentOf(raw.trim().slice(marker.length));
+  return `${indentOf(raw)}${marker} ${text}${comment ? ` ${comment}` : ''}`;
+}
+
+const writtenFields = (fields: ProfileFormField[]): ProfileFormField[] =>
+  fields.filter((field) => field.key.trim());
+
+const writtenValues = (values: string[]): string[] =>
+  values.map((value) => value.trim()).filter(Boolean);
+
+/**
+ * Apply form fields to the KEY: value lines of a region
+ * @param insertAt - Where new fields go when the region has none yet
+ */
+function patchFields(
+  body: SourceLine[],
+  fields: ProfileFormField[],
+  insertAt: number
+): SourceLine[] {
+  // The parser keeps the last line of a repeated key; the form edits that one
+  const lastIndex = new Map<string, number>();
+  body.forEach((line, index) => {
+    if (line.kind === 'field') lastIndex.set(line.key!, index);
+  });
+  const bySource = new Map(
+    writtenFields(fields)
+      .filter((field) => field.sourceKey !== undefined)
+      .map((field) => [field.sourceKey!, field])
+  );
+
+  const result: SourceLine[] = [];
+  body.forEach((line, index) => {
+    if (line.kind !== 'field' || lastIndex.get(line.key!) !== index) {
+      result.push(line);
+      return;
+    }
+
+    const field = bySource.get(line.key!);
+    if (!field) return; // Removed in the form
+    if (field.key === line.key && field.value === line.value) {
+      result.push(line);
+      return;
+    }
+    const comment = line.comment ? ` ${line.comment}` : '';
+    result.push({
+      ...line,
+      raw: `${indentOf(line.raw)}${field.key}: ${field.value}${comment}`,
+      key: field.key,
+      value: field.value,
+    });
+  });
+
+  const added = writtenFields(fields)
+    .filter(
+      (field) =>
+        field.sourceKey === undefined || !lastIndex.has(field.sourceKey)
+    )
+    .map((field) => newLine(`${field.key}: ${field.value}`));
+  if (added.length > 0) {
+    const afterFields = indexAfterLast(result, (l) => l.kind === 'field');
+    result.splice(afterFields >= 0 ? afterFields : insertAt, 0, ...added);
+  }
+
+  return result;
+}
+
+/**
+ * Apply a list of values to the bullet or text lines of a region, in order
+ * @param fallback - Where new lines go when the region has none of the kind
+ */
+function patchSequence(
+  body: SourceLine[],
+  kind: 'bullet' | 'text',
+  values: string[],
+  fallback: (lines: SourceLine[]) => number
+): SourceLine[] {
+  const format = (value: string) => (kind === 'bullet' ? `- ${value}` : value);
+  const result: SourceLine[] = [];
+  let next = 0;
+  let insertAt = -1;
+
+  for (const line of body) {
+    if (line.kind !== kind) {
+      result.push(line);
+      continue;
+    }
+    if (next >= values.length) continue; // Removed in the form
+
+    const value = values[next++];
+    result.push(
+      value === line.value
+        ? line
+        : { raw: `${indentOf(line.raw)}${format(value)}`, kind, value }
+    );
+    insertAt = result.length;
+  }
+
+  const added = values.slice(next).map(format).map(newLine);
+  if (added.length > 0) {
+    result.splice(insertAt >= 0 ? insertAt : fallback(result), 0, ...added);
+  }
+  return result;
+}
+
+/** After the last field, else after the last non-blank line, else first */
+const afterFieldsOrContent = (lines: SourceLine[]): number => {
+  const afterFields = indexAfterLast(lines, (l) => l.kind === 'field');
+  if (afterFields >= 0) return afterFields;
+  return Math.max(indexAfterLast(lines, hasContent), 0);
+};
+
+/** After the last field, else first */
+const afterFieldsOrStart = (lines: SourceLine[]): number =>
+  Math.max(
+    indexAfterLast(lines, (l) => l.kind === 'field'),
+    0
+  );
+
+function itemLines(item: ProfileFormItem): string[] {
+  return [
+    `## ${item.title.trim() || 'Untitled'}`,
+    ...writtenFields(item.fields).map((f) => `${f.key}: ${f.value}`),
+    ...writtenValues(item.bullets).map((bullet) => `- ${bullet}`),
+  ];
+}
+
+function sectionLines(section: ProfileFormSection): string[] {
+  return [
+    `# ${section.name.trim() || 'UNTITLED'}`,
+    ...writtenFields(section.fields).map((f) => `${f.key}: ${f.value}`),
+    ...writtenValues(section.text),
+    ...writtenValues(section.list).map((bullet) => `- ${bullet}`),
+    ...section.items.flatMap((item) => ['', ...itemLines(item)]),
+  ];
+}
+
+/** Insert a block after the last non-blank line, separated by a blank line */
+function appendBlock(lines: string[], block: string[]): void {
+  let at = lines.length;
+  while (at > 0 && !lines[at - 1].trim()) at--;
+  lines.splice(at, 0, ...(at > 0 ? [''] : []), ...block);
+}
+
+function writeItem(source: SourceItem, item: ProfileFormItem): string[] {
+  const title = item.title.trim() || 'Untitled';
+  let body = patchFields(source.body, item.fields, 0);
+  body = patchSequence(
+    body,
+    'bullet',
+    writtenValues(item.bullets),
+    afterFieldsOrContent
+  );
+
+  return [
+    title === source.title
+      ? source.header
+      : rewriteHeader(source.header, '##', title),
+    ...body.map((line) => line.raw),
+  ];
+}
+
+function writeSection(
+  source: SourceSection,
+  section: ProfileFormSection
+): string[] {
+  const name = section.name.trim() || source.name;
+  let body = patchFields(source.body, section.fields, 0);
+  body = patchSequence(
+    body,
+    'text',
+    writtenValues(section.text),
+    afterFieldsOrStart
+  );
+  body = patchSequence(
+    body,
+    'bullet',
+    writtenValues(section.list),
+    afterFieldsOrContent
+  );
+
+  const lines = [
+    name === source.name
+      ? source.header
+      : rewriteHeader(source.header, '#', name),
+    ...body.map((line) => line.raw),
+  ];
+
+  const bySource = new Map(
+    section.items
+      .filter((item) => item.sourceIndex !== undefined)
+      .map((item) => [item.sourceIndex!, item])
+  );
+  source.items.forEach((sourceItem, index) => {
+    const item = bySource.get(index);
+    if (item) lines.push(...writeItem(sourceItem, item));
+  });
+
+  section.items
+    .filter(
+      (item) =>
+        item.sourceIndex === undefined ||
+        item.sourceIndex >= source.items.length
+    )
+    .forEach((item) => appendBlock(lines, itemLines(item)));
+
+  return lines;
+}
+
+/**
+ * Write the form back into the content it was read from
+ * @param source - Profile content the form was read from
+ * @returns The updated content; identical to the source if nothing changed
+ */
+export function writeProfileForm(source: string, form: ProfileForm): string {
+  const doc = readSource(
+    source.trim() ? normalizeProfileFormat(source) : EMPTY_PROFILE
+  );
+
+  const typeTagAt = doc.head.findIndex((line) =>
+    TEMPLATE_LINE_PATTERNS.typeTag.test(line.raw.trim())
+  );
+  const lines = patchFields(doc.head, form.fields, typeTagAt + 1).map(
+    (line) => line.raw
+  );
+
+  // Repeated section names: the parser keeps the last one, the form edits it
+  const liveSections = new Map(
+    doc.sections.map((section) => [section.key, section])
+  );
+  const bySource = new Map(
+    form.sections
+      .filter((section) => section.sourceKey !== undefined)
+      .map((section) => [section.sourceKey!, section])
+  );
+
+  for (const sourceSection of doc.sections) {
+    if (liveSections.get(sourceSection.key) !== sourceSection) {
+      lines.push(
+        sourceSection.header,
+        ...sourceSection.body.map((line) => line.raw),
+        ...sourceSection.items.flatMap((item) => [
+          item.header,
+          ...item.body.map((line) => line.raw),
+        ])
+      );
+      continue;
+    }
+
+    const section = bySource.get(sourceSection.key);
+    if (section) lines.push(...writeSection(sourceSection, section));
+  }
+
+  form.sections
+    .filter(
+      (section) =>
+        section.sourceKey === undefined || !liveSections.has(section.sourceKey)
+    )
+    .forEach((section) => appendBlock(lines, sectionLines(section)));
+
+  return [...lines, ...doc.tail].join('\n');
+}
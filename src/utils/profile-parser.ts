@@ -195,6 +195,7 @@ const parseProfile = parseProfileTemplate;
 export {
   parseProfileTemplate,
   parseProfile,
+  normalizeProfileFormat,
   extractEducation,
   extractExperience,
   extractInterests,
@@ -0,0 +1,244 @@
+/**
+ * Profile revision history for sir-hires Chrome extension
+ *
+ * Profile saves are versioned in IndexedDB like document saves (see
+ * document-revisions): typing is throttled to one revision per window, and
+ * the profile page snapshots before extraction, imports, suggestions and
+ * restores. Fit scores are recorded on the revision they were computed
+ * against, so the history shows how each version scored.
+ */
+
+import { createDatabaseOpener, promisify, transactionDone } from './idb-utils';
+
+const DB_NAME = 'sir-hires-profiles';
+const DB_VERSION = 1;
+const REVISIONS_STORE = 'revisions';
+const BY_PROFILE_INDEX = 'byProfile';
+
+/** Minimum time between throttled snapshots of the same profile */
+export const PROFILE_REVISION_THROTTLE_MS = 5 * 60 * 1000;
+
+/**
+ * Oldest autosave revisions beyond this count are pruned per profile
+ * Snapshots taken before extraction, import, suggestions or a restore are
+ * never pruned: they are what the history exists to bring back.
+ */
+export const MAX_REVISIONS_PER_PROFILE = 100;
+
+/**
+ * Why a revision was recorded
+ */
+export type ProfileRevisionReason =
+  | 'autosave'
+  | 'pre-extraction'
+  | 'pre-import'
+  | 'pre-optimization'
+  | 'pre-restore';
+
+/**
+ * A fit score computed against a revision
+ */
+export interface ProfileFitScore {
+  jobId: string;
+  score: number;
+  createdAt: string;
+}
+
+/**
+ * A stored snapshot of a profile
+ */
+export interface ProfileRevision {
+  id: string;
+  profileId: string;
+  content: string;
+  reason: ProfileRevisionReason;
+  createdAt: string;
+  /** Latest fit score per job computed against this content */
+  fitScores: ProfileFitScore[];
+}
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, (db) => {
+  const store = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+  store.createIndex(BY_PROFILE_INDEX, 'profileId');
+});
+
+function createRevision(
+  profileId: string,
+  content: string,
+  reason: ProfileRevisionReason
+): ProfileRevision {
+  return {
+    id: `rev_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    profileId,
+    content,
+    reason,
+    createdAt: new Date().toISOString(),
+    fitScores: [],
+  };
+}
+
+/**
+ * Store a revision and prune the oldest autosaves beyond
+ * MAX_REVISIONS_PER_PROFILE
+ * @param existing - The profile's revisions before this one, newest first
+ */
+async function putRevision(
+  revision: ProfileRevision,
+  existing: ProfileRevision[]
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  const store = tx.objectStore(REVISIONS_STORE);
+  store.put(revision);
+  existing
+    .filter((old) => old.id !== revision.id && old.reason === 'autosave')
+    .slice(
+      revision.reason === 'autosave'
+        ? MAX_REVISIONS_PER_PROFILE - 1
+        : MAX_REVISIONS_PER_PROFILE
+    )
+    .forEach((old) => store.delete(old.id));
+  await transactionDone(tx);
+}
+
+/**
+ * Get all revisions of a profile, newest first
+ */
+export async function getProfileRevisions(
+  profileId: string
+): Promise<ProfileRevision[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readonly');
+  const revisions = await promisify<ProfileRevision[]>(
+    tx.objectStore(REVISIONS_STORE).index(BY_PROFILE_INDEX).getAll(profileId)
+  );
+  return revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Record a revision of a profile
+ * Skipped when the content is empty or matches the newest revision.
+ * @returns The new revision, or null if nothing changed
+ */
+export async function saveProfileRevision(
+  profileId: string,
+  content: string,
+  reason: ProfileRevisionReason
+): Promise<ProfileRevision | null> {
+  if (!content.trim()) return null;
+
+  const existing = await getProfileRevisions(profileId);
+  if (existing[0]?.content === content) return null;
+
+  const revision = createRevision(profileId, content, reason);
+  await putRevision(revision, existing);
+  return revision;
+}
+
+/**
+ * Record a fit score on the revision matching the scored content
+ * The newest revision with that content is used; if there is none (the
+ * edit is still inside a throttle window), the score goes on the newest
+ * revision, which the next autosave will follow. Scores never create
+ * revisions. An earlier score for the same job on that revision is replaced.
+ */
+export async function recordProfileFitScore(
+  profileId: string,
+  content: string,
+  jobId: string,
+  score: number
+): Promise<void> {
+  if (!content.trim()) return;
+
+  const existing = await getProfileRevisions(profileId);
+  const revision = existing.find((r) => r.content === content) ?? existing[0];
+  if (!revision) return;
+
+  const fitScore: ProfileFitScore = {
+    jobId,
+    score,
+    createdAt: new Date().toISOString(),
+  };
+  await putRevision(
+    {
+      ...revision,
+      fitScores: [
+        ...(revision.fitScores ?? []).filter((s) => s.jobId !== jobId),
+        fitScore,
+      ],
+    },
+    existing
+  );
+}
+
+/**
+ * Delete every revision of a profile
+ */
+export async function deleteProfileRevisions(profileId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  const keys = await promisify(
+    tx
+      .objectStore(REVISIONS_STORE)
+      .index(BY_PROFILE_INDEX)
+      .getAllKeys(profileId)
+  );
+  const store = tx.objectStore(REVISIONS_STORE);
+  keys.forEach((key) => store.delete(key));
+  await transactionDone(tx);
+}
+
+/**
+ * Delete every stored profile revision
+ */
+export async function clearProfileRevisions(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+  tx.objectStore(REVISIONS_STORE).clear();
+  await transactionDone(tx);
+}
+
+// ===== Throttled snapshots =====
+
+interface PendingSnapshot {
+  content: string;
+  /** Whether a save arrived since the last snapshot */
+  dirty: boolean;
+}
+
+// Keyed by profile ID
+const pendingSnapshots = new Map<string, PendingSnapshot>();
+
+function flushSnapshot(profileId: string): void {
+  const pending = pendingSnapshots.get(profileId);
+  if (!pending) return;
+
+  if (!pending.dirty) {
+    pendingSnapshots.delete(profileId);
+    return;
+  }
+
+  // Snapshot now and keep the window open for further saves
+  pending.dirty = false;
+  setTimeout(() => flushSnapshot(profileId), PROFILE_REVISION_THROTTLE_MS);
+  saveProfileRevision(profileId, pending.content, 'autosave').catch((error) =>
+    console.error('[ProfileRevisions] Failed to save revision:', error)
+  );
+}
+
+/**
+ * Record a profile save, snapshotting at most once per
+ * PROFILE_REVISION_THROTTLE_MS (same coalescing as recordDocumentSave)
+ */
+export function recordProfileSave(profileId: string, content: string): void {
+  const pending = pendingSnapshots.get(profileId);
+
+  if (pending) {
+    pending.content = content;
+    pending.dirty = true;
+    return;
+  }
+
+  pendingSnapshots.set(profileId, { content, dirty: true });
+  flushSnapshot(profileId);
+}
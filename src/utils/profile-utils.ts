@@ -29,6 +29,19 @@ export const JOB_FIELD_ORDER = {
   ],
 };
 
+// Offer template field order
+export const OFFER_FIELD_ORDER = {
+  TOP_LEVEL: [
+    'BASE_SALARY',
+    'BONUS',
+    'EQUITY',
+    'VESTING',
+    'SIGNING_BONUS',
+    'CURRENCY',
+    'START_DATE',
+  ],
+};
+
 /**
  * Sets cursor position and scrolls the editor to show the cursor
  */
@@ -227,14 +240,14 @@ export const formatProfileContent = (content: string): string | null => {
 /**
  * Template type for applyFix function
  */
-export type TemplateType = 'JOB' | 'PROFILE';
+export type TemplateType = 'JOB' | 'PROFILE' | 'OFFER';
 
 /**
  * Applies a validation fix to the content
  * @param fix - The fix to apply
  * @param currentContent - The current content
  * @param enumValue - Optional enum value for replace_enum_value_multi fixes
- * @param templateType - The template type (JOB or PROFILE), defaults to PROFILE for backwards compatibility
+ * @param templateType - The template type (JOB, PROFILE or OFFER), defaults to PROFILE for backwards compatibility
  */
 export const applyFix = (
   fix: ValidationFix,
@@ -267,11 +280,13 @@ export const applyFix = (
     cursorPosition = fix.text!.length;
   } else if (fix.type === 'insert_top_level_field') {
     // Use template-specific regex and field order
-    const templateTag = templateType === 'JOB' ? 'JOB' : 'PROFILE';
+    const templateTag = templateType;
     const fieldOrder =
       templateType === 'JOB'
         ? JOB_FIELD_ORDER.TOP_LEVEL
-        : FIELD_ORDER.TOP_LEVEL;
+        : templateType === 'OFFER'
+          ? OFFER_FIELD_ORDER.TOP_LEVEL
+          : FIELD_ORDER.TOP_LEVEL;
 
     const templateMatch = currentContent.match(
       new RegExp(`^<${templateTag}>\\s*\\n`, 'm')
@@ -294,7 +309,7 @@ export const applyFix = (
       cursorPosition = result.cursorPosition;
     } else {
       // No template tag found, insert at start with template tag
-      const templateTag = templateType === 'JOB' ? '<JOB>' : '<PROFILE>';
+      const templateTag = `<${templateType}>`;
       newContent = templateTag + '\n' + fix.text! + '\n' + currentContent;
       cursorPosition = templateTag.length + 1 + fix.text!.length;
     }
@@ -0,0 +1,193 @@
+/**
+ * Named profiles
+ *
+ * Several profiles can be kept for different tracks (e.g., backend
+ * engineering and engineering management). One of them is the default;
+ * a job can name another profile in job.profileId. LLM tasks use the
+ * profile resolved for the job in focus.
+ */
+
+import {
+  jobsStorage,
+  profilesStorage,
+  defaultProfileIdStorage,
+  type NamedProfile,
+} from './storage';
+import { generateProfileId } from './shared-utils';
+import { deleteProfileRevisions } from './profile-revisions';
+
+/**
+ * Profiles sorted by name
+ */
+export function sortProfiles(
+  profiles: Record<string, NamedProfile>
+): NamedProfile[] {
+  return Object.values(profiles).sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+  );
+}
+
+/**
+ * Pick the profile for a job: its own profile if that still exists, else
+ * the default profile, else the oldest profile
+ * @param profileId - The job's profileId (undefined for the default)
+ */
+export function resolveProfile(
+  profiles: Record<string, NamedProfile>,
+  defaultProfileId: string | null,
+  profileId?: string
+): NamedProfile | null {
+  if (profileId && profiles[profileId]) return profiles[profileId];
+  if (defaultProfileId && profiles[defaultProfileId]) {
+    return profiles[defaultProfileId];
+  }
+  const [oldest] = Object.values(profiles).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+  return oldest ?? null;
+}
+
+/**
+ * Load the profile for a job from storage
+ * @param profileId - The job's profileId (undefined for the default)
+ */
+export async function getProfileForJob(
+  profileId?: string
+): Promise<NamedProfile | null> {
+  const [profiles, defaultProfileId] = await Promise.all([
+    profilesStorage.getValue(),
+    defaultProfileIdStorage.getValue(),
+  ]);
+  return resolveProfile(profiles, defaultProfileId, profileId);
+}
+
+/**
+ * Name that is not taken yet ("Backend", "Backend (2)", ...)
+ */
+function uniqueName(
+  profiles: Record<string, NamedProfile>,
+  name: string,
+  exceptId?: string
+): string {
+  const taken = new Set(
+    Object.values(profiles)
+      .filter((p) => p.id !== exceptId)
+      .map((p) => p.name.toLowerCase())
+  );
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Create a profile; the first profile becomes the default
+ */
+export async function createProfile(
+  name: string,
+  content = ''
+): Promise<NamedProfile> {
+  const profiles = await profilesStorage.getValue();
+  const now = new Date().toISOString();
+  const profile: NamedProfile = {
+    id: generateProfileId(),
+    name: uniqueName(profiles, name.trim() || 'Profile'),
+    content,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await profilesStorage.setValue({ ...profiles, [profile.id]: profile });
+  if (!(await defaultProfileIdStorage.getValue())) {
+    await defaultProfileIdStorage.setValue(profile.id);
+  }
+  return profile;
+}
+
+/**
+ * Copy a profile under a new name
+ * @returns The copy, or null if the profile does not exist
+ */
+export async function cloneProfile(
+  id: string,
+  name?: string
+): Promise<NamedProfile | null> {
+  const profiles = await profilesStorage.getValue();
+  const source = profiles[id];
+  if (!source) return null;
+  return createProfile(name || `${source.name} (copy)`, source.content);
+}
+
+/**
+ * Rename a profile (names are kept unique)
+ */
+export async function renameProfile(id: string, name: string): Promise<void> {
+  const profiles = await profilesStorage.getValue();
+  const profile = profiles[id];
+  if (!profile || !name.trim()) return;
+
+  await profilesStorage.setValue({
+    ...profiles,
+    [id]: { ...profile, name: uniqueName(profiles, name.trim(), id) },
+  });
+}
+
+/**
+ * Save the content of a profile
+ */
+export async function saveProfileContent(
+  id: string,
+  content: string
+): Promise<NamedProfile | null> {
+  const profiles = await profilesStorage.getValue();
+  const profile = profiles[id];
+  if (!profile) return null;
+
+  const updated = { ...profile, content, updatedAt: new Date().toISOString() };
+  await profilesStorage.setValue({ ...profiles, [id]: updated });
+  return updated;
+}
+
+/**
+ * Make a profile the default for jobs without a profile of their own
+ */
+export async function setDefaultProfile(id: string): Promise<void> {
+  const profiles = await profilesStorage.getValue();
+  if (profiles[id]) await defaultProfileIdStorage.setValue(id);
+}
+
+/**
+ * Delete a profile
+ * Jobs that used it fall back to the default profile; if it was the
+ * default, the oldest remaining profile takes its place. Its revision
+ * history is deleted too.
+ * @throws Error when deleting the only profile
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  const profiles = await profilesStorage.getValue();
+  if (!profiles[id]) return;
+  if (Object.keys(profiles).length === 1) {
+    throw new Error('The only profile cannot be deleted.');
+  }
+
+  const { [id]: _deleted, ...remaining } = profiles;
+  await profilesStorage.setValue(remaining);
+
+  if ((await defaultProfileIdStorage.getValue()) === id) {
+    await defaultProfileIdStorage.setValue(
+      resolveProfile(remaining, null)?.id ?? null
+    );
+  }
+
+  const jobs = await jobsStorage.getValue();
+  await Promise.all(
+    Object.values(jobs)
+      .filter((job) => job.profileId === id)
+      .map(({ profileId: _profileId, ...job }) => jobsStorage.setJob(job))
+  );
+
+  await deleteProfileRevisions(id).catch((error) =>
+    console.error('[Profiles] Failed to delete profile history:', error)
+  );
+}
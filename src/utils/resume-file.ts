@@ -0,0 +1,103 @@
+/**
+ * Read the text of a resume file for profile extraction
+ *
+ * Everything runs locally: PDFs go through utils/pdf-text, DOCX files are
+ * unzipped and their document XML read. Structure is kept where the file
+ * has it: headings get a blank line before them and list paragraphs
+ * become "- " bullets.
+ */
+
+import { extractPdfText } from './pdf-text';
+import { readZip, zipFileText } from './zip-utils';
+
+/** File types the resume picker accepts */
+export const RESUME_FILE_ACCEPT =
+  '.pdf,.docx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,text/markdown';
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(Number(name.slice(1)));
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Convert WordprocessingML (word/document.xml) to plain text
+ */
+function docxXmlToText(xml: string): string {
+  const lines: string[] = [];
+
+  for (const paragraph of xml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) ?? []) {
+    let text = '';
+    for (const run of paragraph.matchAll(
+      /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)(?:\s[^>]*)?\/>/g
+    )) {
+      if (run[1] !== undefined) text += decodeXml(run[1]);
+      else text += run[2] === 'tab' ? '\t' : '\n';
+    }
+    text = text.replace(/[ \t]+/g, ' ').trim();
+
+    const style = paragraph.match(/<w:pStyle w:val="([^"]*)"/)?.[1] ?? '';
+    const isHeading = /^(heading\d|title)$/i.test(style);
+    const isListItem = paragraph.includes('<w:numPr>') || /list/i.test(style);
+
+    if (!text) {
+      if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+    } else if (isHeading) {
+      if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+      lines.push(text);
+    } else {
+      lines.push(isListItem ? `- ${text}` : text);
+    }
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * Extract the text of a DOCX file
+ * @throws Error if the file is not a Word document
+ */
+async function extractDocxText(file: Blob): Promise<string> {
+  const entries = await readZip(file);
+  const document = entries.find((entry) => entry.path === 'word/document.xml');
+  if (!document) throw new Error('Not a Word (.docx) document.');
+  return docxXmlToText(zipFileText(document));
+}
+
+/**
+ * Extract plain text from a resume file (PDF, DOCX or text)
+ * @throws Error for unsupported or unreadable files
+ */
+export async function extractResumeText(file: File): Promise<string> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'pdf':
+      return extractPdfText(await file.arrayBuffer());
+    case 'docx':
+      return extractDocxText(file);
+    case 'txt':
+    case 'md':
+      return (await file.text()).trim();
+    case 'doc':
+      throw new Error(
+        'Old Word (.doc) files are not supported. Save the resume as .docx or PDF.'
+      );
+    default:
+      throw new Error('Unsupported file type. Use a PDF or DOCX resume.');
+  }
+}
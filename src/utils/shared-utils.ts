@@ -12,6 +12,14 @@ export function generateJobId(): string {
   return `job_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
 
+/**
+ * Generate unique profile ID
+ * @returns Unique profile ID in format: profile_<timestamp>_<random>
+ */
+export function generateProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
 /**
  * Generate unique checklist item ID
  * @param status - The checklist status category (e.g., "Researching", "Applied")
@@ -81,3 +89,37 @@ export function normalizeUrl(url: string): string {
     return url.trim().toLowerCase();
   }
 }
+
+/**
+ * Get the job board name for a hostname
+ * @param hostname - Hostname of the job posting page
+ * @returns Known board name (e.g., "LinkedIn") or the hostname itself
+ */
+export function getSourceFromHostname(hostname: string): string {
+  if (hostname.includes('linkedin.com')) return 'LinkedIn';
+  if (hostname.includes('indeed.com')) return 'Indeed';
+  if (hostname.includes('glassdoor.com')) return 'Glassdoor';
+  if (hostname.includes('monster.com')) return 'Monster';
+  if (hostname.includes('ziprecruiter.com')) return 'ZipRecruiter';
+  if (hostname.includes('dice.com')) return 'Dice';
+  if (hostname.includes('stackoverflow.com')) return 'Stack Overflow';
+  if (hostname.includes('greenhouse.io')) return 'Greenhouse';
+  if (hostname.includes('lever.co')) return 'Lever';
+  if (hostname.includes('workday.com')) return 'Workday';
+  return hostname;
+}
+
+/**
+ * Get the job board a job came from
+ * Uses the source recorded at extraction, falling back to the job URL
+ * @param job - Job with optional source and URL
+ * @returns Board name, or 'Unknown' if neither is available
+ */
+export function getJobSource(job: { source?: string; url?: string }): string {
+  if (job.source) return job.source;
+  try {
+    return getSourceFromHostname(new URL(job.url || '').hostname) || 'Unknown';
+  } catch {
+    return 'Unknown';
+  }
+}
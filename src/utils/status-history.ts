@@ -0,0 +1,135 @@
+/**
+ * Status history utilities for sir-hires Chrome extension
+ * Derives previous status and time-in-status metrics from Job.statusHistory
+ */
+
+import type { Job, StatusTransition } from '../entrypoints/job-details/hooks';
+
+/**
+ * A continuous period a job spent in one status
+ */
+export interface StatusPeriod {
+  status: string;
+  enteredAt: string;
+  exitedAt: string | null; // null while the job is still in this status
+  durationMs: number;
+  /** Index of the transition that entered this status (null for the initial status) */
+  transitionIndex: number | null;
+}
+
+/**
+ * Create a transition record
+ * @param from - Status being left (null when the job is first created)
+ * @param to - Status being entered
+ * @param note - Optional note explaining the change
+ * @returns Transition stamped with the current time
+ */
+export function createStatusTransition(
+  from: string | null,
+  to: string,
+  note?: string
+): StatusTransition {
+  return {
+    from,
+    to,
+    at: new Date().toISOString(),
+    ...(note ? { note } : {}),
+  };
+}
+
+/**
+ * Get the status a job was in before its current one
+ * @param job - Job with optional status history
+ * @returns Previous status, or null if there is no recorded history
+ */
+export function getPreviousStatus(
+  job: Pick<Job, 'applicationStatus' | 'statusHistory'>
+): string | null {
+  const history = job.statusHistory || [];
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].to === job.applicationStatus) {
+      return history[i].from;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split a job's lifetime into the periods it spent in each status
+ * Jobs saved before history existed are treated as one period starting at createdAt
+ * @param job - Job with optional status history
+ * @param now - Reference time for the open period (defaults to now)
+ * @returns Periods in chronological order
+ */
+export function getStatusPeriods(
+  job: Pick<Job, 'applicationStatus' | 'statusHistory' | 'createdAt'>,
+  now: Date = new Date()
+): StatusPeriod[] {
+  const history = job.statusHistory || [];
+  const periods: StatusPeriod[] = [];
+
+  let status = history[0]?.from ?? job.applicationStatus;
+  let enteredAt = job.createdAt;
+  let transitionIndex: number | null = null;
+
+  history.forEach((transition, index) => {
+    periods.push({
+      status,
+      enteredAt,
+      exitedAt: transition.at,
+      durationMs: Math.max(
+        0,
+        new Date(transition.at).getTime() - new Date(enteredAt).getTime()
+      ),
+      transitionIndex,
+    });
+    status = transition.to;
+    enteredAt = transition.at;
+    transitionIndex = index;
+  });
+
+  periods.push({
+    status,
+    enteredAt,
+    exitedAt: null,
+    durationMs: Math.max(0, now.getTime() - new Date(enteredAt).getTime()),
+    transitionIndex,
+  });
+
+  // Drop zero-length initial period for jobs created directly in a later status
+  return periods.filter(
+    (period, index) =>
+      index > 0 || period.durationMs > 0 || history.length === 0
+  );
+}
+
+/**
+ * Time a job has spent in its current status
+ * @param job - Job with optional status history
+ * @returns Duration in milliseconds
+ */
+export function getTimeInCurrentStatus(
+  job: Pick<Job, 'applicationStatus' | 'statusHistory' | 'createdAt'>
+): number {
+  const periods = getStatusPeriods(job);
+  return periods[periods.length - 1].durationMs;
+}
+
+/**
+ * Total time a job has spent in each status (statuses can be revisited)
+ * @param job - Job with optional status history
+ * @returns Milliseconds keyed by status name
+ */
+export function getTimeByStatus(
+  job: Pick<Job, 'applicationStatus' | 'statusHistory' | 'createdAt'>
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  for (const period of getStatusPeriods(job)) {
+    totals[period.status] = (totals[period.status] || 0) + period.durationMs;
+  }
+
+  return totals;
+}
@@ -12,11 +12,16 @@
  */
 
 import { storage } from 'wxt/utils/storage';
+import { browser } from 'wxt/browser';
 import type {
   Job,
   JobDocument,
   ChecklistItem,
 } from '../entrypoints/job-details/hooks';
+import type { Pipeline } from '../config';
+import { clearDocumentRevisions } from './document-revisions';
+import { clearProfileRevisions } from './profile-revisions';
+import { generateProfileId } from './shared-utils';
 
 // ===== Type Definitions =====
 
@@ -28,6 +33,15 @@ export interface UserProfile {
   updatedAt: string;
 }
 
+/**
+ * One of several named profiles (e.g., "Backend" and "Management")
+ */
+export interface NamedProfile extends UserProfile {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+}
+
 /**
  * Per-task LLM settings (maxTokens, temperature)
  */
@@ -76,6 +90,23 @@ export interface ViewerFilters {
 export interface DataVersion {
   version: number;
   migratedAt: string;
+  /** Outcome of the most recent migration run (see utils/migrations.ts) */
+  lastMigration?: {
+    fromVersion: number;
+    toVersion: number;
+    status: 'success' | 'failed';
+    error?: string;
+    at: string;
+  };
+}
+
+/**
+ * Snapshot of the migrated data taken before running migrations
+ */
+export interface MigrationBackup {
+  fromVersion: number;
+  createdAt: string;
+  data: Record<string, unknown>;
 }
 
 /**
@@ -106,20 +137,266 @@ export interface CustomDocumentTemplate {
   createdAt: string; // ISO timestamp
 }
 
+/**
+ * Deleted job kept in the trash until restored or purged
+ */
+export interface TrashedJob {
+  job: Job; // Job as it was when deleted (documents, checklist intact)
+  deletedAt: string; // ISO timestamp
+}
+
+/**
+ * How often the background writes automatic backups
+ */
+export type AutoBackupFrequency = 'off' | 'daily' | 'weekly';
+
+/**
+ * Automatic backup preferences (see auto-backup.ts)
+ */
+export interface AutoBackupSettings {
+  frequency: AutoBackupFrequency;
+  keepCount: number; // Older backup files are deleted beyond this many
+  encrypt?: boolean; // Encrypt with autoBackupPassphraseStorage
+}
+
+/**
+ * A backup file written to the downloads folder
+ */
+export interface AutoBackupRecord {
+  downloadId: number;
+  filename: string;
+  createdAt: string; // ISO timestamp
+  reason:
+    | 'scheduled'
+    | 'manual'
+    | 'before-clear'
+    | 'before-restore'
+    | 'before-merge';
+}
+
+/**
+ * Saved CSV import column mapping (see job-csv.ts)
+ */
+export interface CsvMappingPreset {
+  name: string;
+  mapping: Record<string, string>; // CSV column header -> import field ('' = ignore)
+  updatedAt: string; // ISO timestamp
+}
+
 // ===== Storage Item Definitions =====
 
 /**
- * Jobs storage - Record of all jobs keyed by job ID
- * Uses object format: { [jobId]: Job }
+ * Legacy jobs record - every job in one 'local:jobs' value
+ * Only read until the jobs are moved to per-job keys (see jobsStorage)
  */
-export const jobsStorage = storage.defineItem<Record<string, Job>>(
+const legacyJobsStorage = storage.defineItem<Record<string, Job> | null>(
   'local:jobs',
   {
-    defaultValue: {},
+    defaultValue: null,
     version: 1,
   }
 );
 
+/**
+ * Job index - IDs of all stored jobs (each job lives under 'local:job:<id>')
+ * null until jobs have been moved out of the legacy 'local:jobs' record
+ */
+const jobIndexStorage = storage.defineItem<string[] | null>('local:jobIndex', {
+  defaultValue: null,
+  version: 1,
+});
+
+const JOB_KEY_PREFIX = 'job:';
+const JOB_INDEX_KEY = 'jobIndex';
+const LEGACY_JOBS_KEY = 'jobs';
+
+const jobKey = (jobId: string) => `local:${JOB_KEY_PREFIX}${jobId}` as const;
+
+/**
+ * Job data carried by a browser.storage.onChanged event
+ */
+export interface JobStorageChange {
+  /** Jobs whose own key changed: new value, or null if the job was removed */
+  changedJobs: Record<string, Job | null>;
+  /** Whether the set of jobs changed (index or legacy record written) */
+  indexChanged: boolean;
+}
+
+/**
+ * Extract job changes from a raw browser.storage.onChanged event
+ * @param changes - Changes object from browser.storage.onChanged (keys have no area prefix)
+ * @returns Changed jobs, or null if no job data changed
+ */
+export function getJobStorageChange(
+  changes: Record<string, { newValue?: unknown }>
+): JobStorageChange | null {
+  const changedJobs: Record<string, Job | null> = {};
+  let indexChanged = false;
+  let hasJobChanges = false;
+
+  for (const [key, change] of Object.entries(changes)) {
+    if (key === JOB_INDEX_KEY || key === LEGACY_JOBS_KEY) {
+      indexChanged = true;
+    } else if (key.startsWith(JOB_KEY_PREFIX)) {
+      changedJobs[key.slice(JOB_KEY_PREFIX.length)] =
+        (change.newValue as Job | undefined) ?? null;
+      hasJobChanges = true;
+    }
+  }
+
+  return indexChanged || hasJobChanges ? { changedJobs, indexChanged } : null;
+}
+
+async function readJobs(jobIds: string[]): Promise<Record<string, Job>> {
+  if (jobIds.length === 0) return {};
+  const items = await storage.getItems(jobIds.map(jobKey));
+  const jobs: Record<string, Job> = {};
+  items.forEach(({ value }, index) => {
+    if (value) jobs[jobIds[index]] = value as Job;
+  });
+  return jobs;
+}
+
+/**
+ * Jobs storage - one key per job plus a lightweight index of job IDs
+ *
+ * Saving a job only writes that job's key, so storage.onChanged events carry
+ * just the changed job instead of the whole collection. The whole-record API
+ * ({ [jobId]: Job }) is kept for bulk operations (backups, migrations).
+ * Until the first write, jobs are read from the legacy 'local:jobs' record.
+ */
+export const jobsStorage = {
+  /**
+   * Get all jobs keyed by job ID
+   */
+  async getValue(): Promise<Record<string, Job>> {
+    const index = await jobIndexStorage.getValue();
+    if (index === null) {
+      return (await legacyJobsStorage.getValue()) ?? {};
+    }
+    return readJobs(index);
+  },
+
+  /**
+   * Replace all jobs
+   * Only jobs that differ from the stored copy are written.
+   */
+  async setValue(jobs: Record<string, Job>): Promise<void> {
+    const [index, current] = await Promise.all([
+      jobIndexStorage.getValue(),
+      jobsStorage.getValue(),
+    ]);
+
+    const changed = Object.entries(jobs).filter(
+      ([id, job]) => JSON.stringify(current[id]) !== JSON.stringify(job)
+    );
+    const removedIds = Object.keys(current).filter((id) => !(id in jobs));
+    const nextIndex = Object.keys(jobs);
+
+    if (changed.length > 0) {
+      await storage.setItems(
+        changed.map(([id, job]) => ({ key: jobKey(id), value: job }))
+      );
+    }
+    if (removedIds.length > 0) {
+      await storage.removeItems(removedIds.map(jobKey));
+    }
+    if (index === null || JSON.stringify(index) !== JSON.stringify(nextIndex)) {
+      await jobIndexStorage.setValue(nextIndex);
+    }
+    if (index === null) {
+      await legacyJobsStorage.removeValue();
+    }
+  },
+
+  /**
+   * Remove all jobs (and the legacy record)
+   */
+  async removeValue(): Promise<void> {
+    const index = (await jobIndexStorage.getValue()) ?? [];
+    await Promise.all([
+      storage.removeItems(index.map(jobKey)),
+      jobIndexStorage.removeValue(),
+      legacyJobsStorage.removeValue(),
+    ]);
+  },
+
+  /**
+   * Watch all jobs; the callback receives the full record after any job change
+   * @returns Unwatch function
+   */
+  watch(cb: (jobs: Record<string, Job>) => void): () => void {
+    const listener = (
+      changes: Record<string, { newValue?: unknown }>,
+      areaName: string
+    ) => {
+      if (areaName !== 'local' || !getJobStorageChange(changes)) return;
+      jobsStorage.getValue().then(cb);
+    };
+    browser.storage.onChanged.addListener(listener);
+    return () => browser.storage.onChanged.removeListener(listener);
+  },
+
+  /**
+   * Get the IDs of all stored jobs without reading the jobs themselves
+   */
+  async getJobIds(): Promise<string[]> {
+    const index = await jobIndexStorage.getValue();
+    if (index === null) {
+      return Object.keys((await legacyJobsStorage.getValue()) ?? {});
+    }
+    return index;
+  },
+
+  /**
+   * Get a single job
+   * @returns The job, or null if it does not exist
+   */
+  async getJob(jobId: string): Promise<Job | null> {
+    const index = await jobIndexStorage.getValue();
+    if (index === null) {
+      const legacy = await legacyJobsStorage.getValue();
+      return legacy?.[jobId] ?? null;
+    }
+    return storage.getItem<Job>(jobKey(jobId));
+  },
+
+  /**
+   * Save a single job (adds it to the index if new)
+   */
+  async setJob(job: Job): Promise<void> {
+    const index = await jobIndexStorage.getValue();
+    if (index === null) {
+      // Still on the legacy record: move everything over in one go
+      const legacy = (await legacyJobsStorage.getValue()) ?? {};
+      await jobsStorage.setValue({ ...legacy, [job.id]: job });
+      return;
+    }
+
+    await storage.setItem(jobKey(job.id), job);
+    if (!index.includes(job.id)) {
+      await jobIndexStorage.setValue([...index, job.id]);
+    }
+  },
+
+  /**
+   * Remove a single job
+   */
+  async removeJob(jobId: string): Promise<void> {
+    const index = await jobIndexStorage.getValue();
+    if (index === null) {
+      const legacy = (await legacyJobsStorage.getValue()) ?? {};
+      const remaining = { ...legacy };
+      delete remaining[jobId];
+      await jobsStorage.setValue(remaining);
+      return;
+    }
+
+    await jobIndexStorage.setValue(index.filter((id) => id !== jobId));
+    await storage.removeItem(jobKey(jobId));
+  },
+};
+
 /**
  * Job in focus - ID of the currently focused job for sidepanel
  */
@@ -132,7 +409,9 @@ export const jobInFocusStorage = storage.defineItem<string | null>(
 );
 
 /**
- * User profile - Master resume/profile as MarkdownDB template
+ * User profile - Legacy single profile
+ * Migration v4 moves it into profilesStorage; it is only read to upgrade
+ * old data and backups.
  */
 export const userProfileStorage = storage.defineItem<UserProfile | null>(
   'local:userProfile',
@@ -186,6 +465,17 @@ export const dataVersionStorage = storage.defineItem<DataVersion>(
   }
 );
 
+/**
+ * Migration backup - Data being migrated, kept while a migration runs
+ * Removed on success; left behind only if a failed migration could not be
+ * rolled back
+ */
+export const migrationBackupStorage =
+  storage.defineItem<MigrationBackup | null>('local:migrationBackup', {
+    defaultValue: null,
+    version: 1,
+  });
+
 /**
  * Extraction trigger - Signal to sidepanel to start extraction (timestamp)
  * Set by context menu, cleared by sidepanel after handling
@@ -297,8 +587,141 @@ export const customDocumentTemplatesStorage = storage.defineItem<
   version: 1,
 });
 
+/**
+ * Application pipeline - User-configured statuses, transitions and checklists
+ * null = use the default pipeline from config.ts
+ */
+export const pipelineStorage = storage.defineItem<Pipeline | null>(
+  'local:pipeline',
+  {
+    defaultValue: null,
+    version: 1,
+  }
+);
+
+/**
+ * Trash - Deleted jobs keyed by job ID (see trash-utils.ts)
+ */
+export const trashStorage = storage.defineItem<Record<string, TrashedJob>>(
+  'local:trash',
+  {
+    defaultValue: {},
+    version: 1,
+  }
+);
+
+/**
+ * Trash retention - Days a deleted job is kept before it is purged
+ */
+export const trashRetentionDaysStorage = storage.defineItem<number>(
+  'local:trashRetentionDays',
+  {
+    defaultValue: 30,
+    version: 1,
+  }
+);
+
+/**
+ * Automatic backup preferences
+ */
+export const autoBackupSettingsStorage = storage.defineItem<AutoBackupSettings>(
+  'local:autoBackupSettings',
+  {
+    defaultValue: { frequency: 'off', keepCount: 5 },
+    version: 1,
+  }
+);
+
+/**
+ * Passphrase for encrypted automatic backups
+ * Session storage: kept in memory only, never written to disk, and asked for
+ * again after the browser restarts.
+ */
+export const autoBackupPassphraseStorage = storage.defineItem<string | null>(
+  'session:autoBackupPassphrase',
+  {
+    defaultValue: null,
+    version: 1,
+  }
+);
+
+/**
+ * Automatic backup files written so far, newest first
+ * Kept by clearAllStorage so old files can still be rotated out.
+ */
+export const autoBackupHistoryStorage = storage.defineItem<AutoBackupRecord[]>(
+  'local:autoBackupHistory',
+  {
+    defaultValue: [],
+    version: 1,
+  }
+);
+
+/**
+ * CSV import mapping presets keyed by name
+ */
+export const csvMappingPresetsStorage = storage.defineItem<
+  Record<string, CsvMappingPreset>
+>('local:csvMappingPresets', {
+  defaultValue: {},
+  version: 1,
+});
+
+/**
+ * Named profiles keyed by ID
+ */
+export const profilesStorage = storage.defineItem<Record<string, NamedProfile>>(
+  'local:profiles',
+  {
+    defaultValue: {},
+    version: 1,
+  }
+);
+
+/**
+ * ID of the profile used for jobs without a profile of their own
+ */
+export const defaultProfileIdStorage = storage.defineItem<string | null>(
+  'local:defaultProfileId',
+  {
+    defaultValue: null,
+    version: 1,
+  }
+);
+
 // ===== Helper Functions =====
 
+/** Name given to a profile carried over from the single-profile format */
+export const LEGACY_PROFILE_NAME = 'Main';
+
+/**
+ * Turn a legacy single profile into named profiles
+ * @returns No profiles when the legacy profile is empty
+ */
+export function profilesFromLegacy(profile: UserProfile | null): {
+  profiles: Record<string, NamedProfile>;
+  defaultProfileId: string | null;
+} {
+  if (!profile?.content?.trim()) {
+    return { profiles: {}, defaultProfileId: null };
+  }
+
+  const id = generateProfileId();
+  const updatedAt = profile.updatedAt || new Date().toISOString();
+  return {
+    profiles: {
+      [id]: {
+        id,
+        name: LEGACY_PROFILE_NAME,
+        content: profile.content,
+        createdAt: updatedAt,
+        updatedAt,
+      },
+    },
+    defaultProfileId: id,
+  };
+}
+
 /**
  * Get all storage items as a backup object
  * Useful for backup/restore functionality
@@ -314,6 +737,14 @@ export async function getAllStorageData(): Promise<Record<string, unknown>> {
     dataVersion,
     themePreference,
     chivalryPoints,
+    pipeline,
+    trash,
+    trashRetentionDays,
+    customDocumentTemplates,
+    autoBackupSettings,
+    csvMappingPresets,
+    profiles,
+    defaultProfileId,
   ] = await Promise.all([
     jobsStorage.getValue(),
     jobInFocusStorage.getValue(),
@@ -324,6 +755,14 @@ export async function getAllStorageData(): Promise<Record<string, unknown>> {
     dataVersionStorage.getValue(),
     themePreferenceStorage.getValue(),
     chivalryPointsStorage.getValue(),
+    pipelineStorage.getValue(),
+    trashStorage.getValue(),
+    trashRetentionDaysStorage.getValue(),
+    customDocumentTemplatesStorage.getValue(),
+    autoBackupSettingsStorage.getValue(),
+    csvMappingPresetsStorage.getValue(),
+    profilesStorage.getValue(),
+    defaultProfileIdStorage.getValue(),
   ]);
 
   return {
@@ -336,6 +775,14 @@ export async function getAllStorageData(): Promise<Record<string, unknown>> {
     dataVersion,
     themePreference,
     chivalryPoints,
+    pipeline,
+    trash,
+    trashRetentionDays,
+    customDocumentTemplates,
+    autoBackupSettings,
+    csvMappingPresets,
+    profiles,
+    defaultProfileId,
   };
 }
 
@@ -356,8 +803,20 @@ export async function restoreStorageFromBackup(
     dataVersion,
     themePreference,
     chivalryPoints,
+    pipeline,
+    trash,
+    trashRetentionDays,
+    customDocumentTemplates,
+    autoBackupSettings,
+    csvMappingPresets,
   } = data;
 
+  // Backups from before named profiles only have the single userProfile
+  const { profiles, defaultProfileId } =
+    data.profiles === undefined && userProfile !== undefined
+      ? profilesFromLegacy(userProfile as UserProfile | null)
+      : data;
+
   await Promise.all([
     jobs !== undefined
       ? jobsStorage.setValue(jobs as Record<string, Job>)
@@ -386,6 +845,36 @@ export async function restoreStorageFromBackup(
     chivalryPoints !== undefined
       ? chivalryPointsStorage.setValue(chivalryPoints as number)
       : Promise.resolve(),
+    pipeline !== undefined
+      ? pipelineStorage.setValue(pipeline as Pipeline | null)
+      : Promise.resolve(),
+    trash !== undefined
+      ? trashStorage.setValue(trash as Record<string, TrashedJob>)
+      : Promise.resolve(),
+    trashRetentionDays !== undefined
+      ? trashRetentionDaysStorage.setValue(trashRetentionDays as number)
+      : Promise.resolve(),
+    customDocumentTemplates !== undefined
+      ? customDocumentTemplatesStorage.setValue(
+          customDocumentTemplates as Record<string, CustomDocumentTemplate>
+        )
+      : Promise.resolve(),
+    autoBackupSettings !== undefined
+      ? autoBackupSettingsStorage.setValue(
+          autoBackupSettings as AutoBackupSettings
+        )
+      : Promise.resolve(),
+    csvMappingPresets !== undefined
+      ? csvMappingPresetsStorage.setValue(
+          csvMappingPresets as Record<string, CsvMappingPreset>
+        )
+      : Promise.resolve(),
+    profiles !== undefined
+      ? profilesStorage.setValue(profiles as Record<string, NamedProfile>)
+      : Promise.resolve(),
+    defaultProfileId !== undefined
+      ? defaultProfileIdStorage.setValue(defaultProfileId as string | null)
+      : Promise.resolve(),
   ]);
 }
 
@@ -411,8 +900,28 @@ export async function clearAllStorage(): Promise<void> {
     profileSuggestionsPanelStorage.removeValue(),
     sidebarCollapsedStorage.removeValue(),
     customDocumentTemplatesStorage.removeValue(),
+    pipelineStorage.removeValue(),
+    migrationBackupStorage.removeValue(),
+    trashStorage.removeValue(),
+    trashRetentionDaysStorage.removeValue(),
+    autoBackupSettingsStorage.removeValue(),
+    csvMappingPresetsStorage.removeValue(),
+    profilesStorage.removeValue(),
+    defaultProfileIdStorage.removeValue(),
   ]);
 
+  // Document and profile revision history live in IndexedDB
+  try {
+    await clearDocumentRevisions();
+  } catch (error) {
+    console.error('Failed to clear document revisions:', error);
+  }
+  try {
+    await clearProfileRevisions();
+  } catch (error) {
+    console.error('Failed to clear profile revisions:', error);
+  }
+
   // Also clear browser localStorage drafts
   try {
     localStorage.removeItem('userProfileDraft');
@@ -426,20 +935,20 @@ export async function clearAllStorage(): Promise<void> {
  */
 export async function getStorageStats() {
   const jobs = await jobsStorage.getValue();
-  const userProfile = await userProfileStorage.getValue();
+  const profiles = await profilesStorage.getValue();
   const dataVersion = await dataVersionStorage.getValue();
 
   // Calculate approximate size (rough estimate)
   const dataString = JSON.stringify({
     jobs,
-    userProfile,
+    profiles,
   });
   const bytesInUse = new Blob([dataString]).size;
 
   return {
     bytesInUse,
     jobCount: Object.keys(jobs || {}).length,
-    hasUserProfile: userProfile !== null,
+    hasUserProfile: Object.keys(profiles || {}).length > 0,
     dataVersion: dataVersion.version,
     migratedAt: dataVersion.migratedAt,
   };
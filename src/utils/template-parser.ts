@@ -40,6 +40,33 @@ export interface ParsedTemplate {
   raw: string;
 }
 
+/**
+ * Line patterns of the template format
+ * Shared with serializers that patch template text (see profile-form)
+ */
+export const TEMPLATE_LINE_PATTERNS = {
+  typeTag: /^<(\w+)>$/,
+  closingTag: /^<\/\w+>$/,
+  // Must not be ## (that's an item)
+  section: /^#\s+([^#].+?)(?:\s*\/\/.*)?$/,
+  item: /^##\s+(.+?)(?:\s*\/\/.*)?$/,
+  listItem: /^-\s+(.+)$/,
+  // Pattern: starts with letter, contains letters/numbers/spaces/underscores, ends with letter/number
+  // Max field name length of 50 chars to prevent ReDoS with very long inputs
+  field: /^([A-Za-z][A-Za-z0-9_ ]{0,48}[A-Za-z0-9]):\s*(.*)$/,
+};
+
+/** Longer lines are never read as KEY: value fields */
+export const MAX_FIELD_LINE_LENGTH = 500;
+
+/**
+ * Remove an inline comment (// comment) from a field value
+ * Only after whitespace, so URLs (https://...) survive
+ */
+export function stripInlineComment(value: string): string {
+  return value.replace(/(^|\s)\/\/.*$/, '').trim();
+}
+
 /**
  * Create an empty section
  */
@@ -88,12 +115,12 @@ export function parseTemplate(content: string): ParsedTemplate {
     }
 
     // Skip closing tags (</JOB>, </PROFILE>, etc.)
-    if (trimmedLine.match(/^<\/\w+>$/)) {
+    if (TEMPLATE_LINE_PATTERNS.closingTag.test(trimmedLine)) {
       continue;
     }
 
     // Check for <TYPE> declaration
-    const typeMatch = trimmedLine.match(/^<(\w+)>$/);
+    const typeMatch = trimmedLine.match(TEMPLATE_LINE_PATTERNS.typeTag);
     if (typeMatch) {
       result.type = typeMatch[1];
       continue;
@@ -102,7 +129,7 @@ export function parseTemplate(content: string): ParsedTemplate {
     // Check for section header (# SECTION NAME)
     // Must not be ## (that's an item)
     // Preserve original case for validation, but use uppercase as key for consistent lookups
-    const sectionMatch = trimmedLine.match(/^#\s+([^#].+?)(?:\s*\/\/.*)?$/);
+    const sectionMatch = trimmedLine.match(TEMPLATE_LINE_PATTERNS.section);
     if (sectionMatch && !trimmedLine.startsWith('##')) {
       const originalName = sectionMatch[1].trim();
       const sectionName = originalName.toUpperCase();
@@ -116,7 +143,7 @@ export function parseTemplate(content: string): ParsedTemplate {
 
     // Check for item header (## Item Title)
     // Must be within a section
-    const itemMatch = trimmedLine.match(/^##\s+(.+?)(?:\s*\/\/.*)?$/);
+    const itemMatch = trimmedLine.match(TEMPLATE_LINE_PATTERNS.item);
     if (itemMatch && currentSection) {
       const itemTitle = itemMatch[1].trim();
       currentItem = {
@@ -129,7 +156,7 @@ export function parseTemplate(content: string): ParsedTemplate {
     }
 
     // Check for list item (- item)
-    const listMatch = trimmedLine.match(/^-\s+(.+)$/);
+    const listMatch = trimmedLine.match(TEMPLATE_LINE_PATTERNS.listItem);
     if (listMatch) {
       const itemValue = listMatch[1];
 
@@ -145,22 +172,13 @@ export function parseTemplate(content: string): ParsedTemplate {
 
     // Check for key-value pair (KEY: value or Key Name: value)
     // Supports both SCREAMING_CASE and lowercase (to detect and warn)
-    // Pattern: starts with letter, contains letters/numbers/spaces/underscores, ends with letter/number
-    // Max field name length of 50 chars to prevent ReDoS with very long inputs
     const kvMatch =
-      trimmedLine.length <= 500
-        ? trimmedLine.match(
-            /^([A-Za-z][A-Za-z0-9_ ]{0,48}[A-Za-z0-9]):\s*(.*)$/
-          )
+      trimmedLine.length <= MAX_FIELD_LINE_LENGTH
+        ? trimmedLine.match(TEMPLATE_LINE_PATTERNS.field)
         : null;
     if (kvMatch) {
       const key = kvMatch[1].trim();
-      let value = kvMatch[2].trim();
-
-      // Remove inline comments (// comment)
-      if (value.includes('//')) {
-        value = value.split('//')[0].trim();
-      }
+      const value = stripInlineComment(kvMatch[2].trim());
 
       if (currentItem) {
         // Field within an item
@@ -0,0 +1,114 @@
+/**
+ * Trash for deleted jobs
+ *
+ * Deleting a job moves it (documents and checklists intact) to trashStorage.
+ * Trashed jobs can be restored until they are older than the configured
+ * retention period, after which purgeExpiredTrash() removes them for good.
+ */
+
+import {
+  jobsStorage,
+  jobInFocusStorage,
+  trashStorage,
+  trashRetentionDaysStorage,
+  type Job,
+  type TrashedJob,
+} from './storage';
+import { deleteJobRevisions } from './document-revisions';
+import { fitStoredJobsToPipeline } from './pipeline-utils';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Retention periods offered in the trash settings (days)
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+/**
+ * Days left before a trashed job is purged (0 when already due)
+ */
+export function getDaysUntilPurge(
+  entry: TrashedJob,
+  retentionDays: number,
+  now = Date.now()
+): number {
+  const purgeAt =
+    new Date(entry.deletedAt).getTime() + retentionDays * MS_PER_DAY;
+  return Math.max(0, Math.ceil((purgeAt - now) / MS_PER_DAY));
+}
+
+/**
+ * Move a job to the trash
+ * @returns The trashed job, or null if the job does not exist
+ */
+export async function moveJobToTrash(jobId: string): Promise<Job | null> {
+  const job = await jobsStorage.getJob(jobId);
+  if (!job) return null;
+
+  // Write the trash entry before removing the job so it is never lost
+  const trash = await trashStorage.getValue();
+  await trashStorage.setValue({
+    ...trash,
+    [jobId]: { job, deletedAt: new Date().toISOString() },
+  });
+  await jobsStorage.removeJob(jobId);
+  return job;
+}
+
+/**
+ * Restore a job from the trash and focus it
+ * @returns The restored job, or null if it is not in the trash
+ */
+export async function restoreJobFromTrash(jobId: string): Promise<Job | null> {
+  const trash = await trashStorage.getValue();
+  const entry = trash[jobId];
+  if (!entry) return null;
+
+  await jobsStorage.setJob(entry.job);
+  // The pipeline may have changed since the job was trashed
+  await fitStoredJobsToPipeline();
+  const { [jobId]: _restored, ...remaining } = trash;
+  await trashStorage.setValue(remaining);
+  await jobInFocusStorage.setValue(jobId);
+  return entry.job;
+}
+
+/**
+ * Permanently delete jobs from the trash (with their document history)
+ * @param jobIds - Jobs to delete; omit to empty the trash
+ */
+export async function deleteFromTrash(jobIds?: string[]): Promise<void> {
+  const trash = await trashStorage.getValue();
+  const ids = jobIds ?? Object.keys(trash);
+  if (ids.length === 0) return;
+
+  const remaining = { ...trash };
+  ids.forEach((id) => delete remaining[id]);
+  await trashStorage.setValue(remaining);
+
+  await Promise.all(
+    ids.map((id) =>
+      deleteJobRevisions(id).catch((error) =>
+        console.error('[Trash] Failed to delete document history:', error)
+      )
+    )
+  );
+}
+
+/**
+ * Permanently delete trashed jobs older than the retention period
+ * @returns Number of jobs purged
+ */
+export async function purgeExpiredTrash(now = Date.now()): Promise<number> {
+  const [trash, retentionDays] = await Promise.all([
+    trashStorage.getValue(),
+    trashRetentionDaysStorage.getValue(),
+  ]);
+
+  const expiredIds = Object.entries(trash)
+    .filter(([, entry]) => getDaysUntilPurge(entry, retentionDays, now) === 0)
+    .map(([id]) => id);
+
+  await deleteFromTrash(expiredIds);
+  return expiredIds.length;
+}
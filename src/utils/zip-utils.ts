@@ -0,0 +1,317 @@
+/**
+ * Minimal ZIP archive reader/writer
+ *
+ * Uses the browser's CompressionStream/DecompressionStream ('deflate-raw')
+ * so no library is needed. Supports stored and deflated entries; ZIP64,
+ * encrypted entries and multi-disk archives are rejected. Reading checks
+ * every entry's size and CRC-32, and refuses archives with too many entries
+ * or too much data before inflating anything.
+ */
+
+/**
+ * A file inside an archive
+ */
+export interface ZipFile {
+  /** Path within the archive, '/' separated */
+  path: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+/** Archives with more entries are rejected */
+const MAX_ENTRIES = 10000;
+/** Archives that inflate to more bytes (in total) are rejected */
+const MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function transform(
+  data: Uint8Array<ArrayBuffer>,
+  stream: GenericTransformStream
+): Promise<Uint8Array> {
+  const output = new globalThis.Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new globalThis.Response(output).arrayBuffer());
+}
+
+/**
+ * Inflate a raw deflate stream, stopping as soon as the output passes limit
+ * (sizes in the headers can lie, so a zip bomb never fills memory)
+ * @throws If the output would be larger than limit
+ */
+async function inflate(
+  data: Uint8Array<ArrayBuffer>,
+  limit: number,
+  path: string
+): Promise<Uint8Array> {
+  const reader = new globalThis.Blob([data])
+    .stream()
+    .pipeThrough(new globalThis.DecompressionStream('deflate-raw'))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new Error(`"${path}" is larger than the archive says.`);
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/** MS-DOS date and time fields */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Create a ZIP archive
+ * Text is encoded as UTF-8; entries are deflated when that makes them smaller.
+ */
+export async function createZip(
+  files: { path: string; content: string | Uint8Array }[]
+): Promise<Blob> {
+  const encoder = new globalThis.TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const raw =
+      typeof file.content === 'string'
+        ? encoder.encode(file.content)
+        : new Uint8Array(file.content);
+    const deflated = await transform(
+      raw,
+      new globalThis.CompressionStream('deflate-raw')
+    );
+    const useDeflate = deflated.length < raw.length;
+    const body = useDeflate ? deflated : raw;
+    const crc = crc32(raw);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, useDeflate ? METHOD_DEFLATE : METHOD_STORE, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, useDeflate ? METHOD_DEFLATE : METHOD_STORE, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, body);
+    centralParts.push(central);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new globalThis.Blob(
+    [...localParts, ...centralParts, end] as BlobPart[],
+    {
+      type: 'application/zip',
+    }
+  );
+}
+
+/**
+ * A file listed in the central directory
+ */
+interface ZipEntry {
+  path: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+}
+
+/**
+ * Read every file in a ZIP archive (directories are skipped)
+ * @throws If the data is not a supported ZIP archive, is damaged, or is
+ *   too large to read safely
+ */
+export async function readZip(input: Blob | ArrayBuffer): Promise<ZipFile[]> {
+  const buffer =
+    input instanceof ArrayBuffer ? input : await input.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new globalThis.TextDecoder();
+
+  // End of central directory record: last 22 bytes plus an optional comment
+  let endOffset = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error('Not a ZIP file.');
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let pos = view.getUint32(endOffset + 16, true);
+  if (pos === 0xffffffff) throw new Error('ZIP64 archives are not supported.');
+  if (entryCount > MAX_ENTRIES) {
+    throw new Error(`The ZIP file has more than ${MAX_ENTRIES} files.`);
+  }
+
+  // List every entry first so oversized archives are refused up front
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      pos + 46 > bytes.length ||
+      view.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new Error('The ZIP file is damaged.');
+    }
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const uncompressedSize = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const path = decoder.decode(
+      bytes.subarray(pos + 46, pos + 46 + nameLength)
+    );
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`"${path}" is encrypted.`);
+    }
+    if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+      throw new Error(`"${path}" uses an unsupported compression method.`);
+    }
+
+    totalSize += uncompressedSize;
+    if (totalSize > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(
+        `The ZIP file is too large (over ${MAX_UNCOMPRESSED_BYTES / 1024 / 1024} MB unpacked).`
+      );
+    }
+    entries.push({
+      path,
+      method,
+      crc,
+      compressedSize,
+      uncompressedSize,
+      localOffset,
+    });
+  }
+
+  const files: ZipFile[] = [];
+  for (const entry of entries) {
+    const { path, localOffset } = entry;
+    if (
+      localOffset + 30 > bytes.length ||
+      view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE
+    ) {
+      throw new Error(`"${path}" is damaged.`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    if (dataStart + entry.compressedSize > bytes.length) {
+      throw new Error(`"${path}" is damaged.`);
+    }
+    const body = bytes.slice(dataStart, dataStart + entry.compressedSize);
+
+    const data =
+      entry.method === METHOD_STORE
+        ? body
+        : await inflate(body, entry.uncompressedSize, path);
+    if (data.length !== entry.uncompressedSize || crc32(data) !== entry.crc) {
+      throw new Error(`"${path}" is damaged (checksum mismatch).`);
+    }
+    files.push({ path, data });
+  }
+
+  return files;
+}
+
+/**
+ * Decode a file's contents as UTF-8 text
+ */
+export function zipFileText(file: ZipFile): string {
+  return new globalThis.TextDecoder().decode(file.data);
+}
@@ -19,6 +19,7 @@ export default defineConfig({
       'storage',
       'scripting',
       'downloads',
+      'alarms',
       'sidePanel',
       'contextMenus',
     ],